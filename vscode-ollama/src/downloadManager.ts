@@ -0,0 +1,454 @@
+/**
+ * Queue of model downloads, running a few pulls at a time and resuming interrupted ones
+ */
+import * as vscode from 'vscode';
+import { ProgressResponse } from './ollamaApi';
+import type { OllamaService } from './ollamaService';
+import { readNdjsonStream } from './ndjson';
+import { RequestTracker } from './utils';
+import { categorizeError, ErrorCategory, Resilience } from './resilience';
+import { RequestPriority, RequestScheduler } from './requestScheduler';
+
+export type DownloadState = 'queued' | 'downloading' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+/**
+ * Progress of one blob of a model
+ */
+export interface LayerProgress {
+    digest: string;
+    total: number;
+    completed: number;
+    bytesPerSecond: number;
+}
+
+export interface DownloadTask {
+    model: string;
+    state: DownloadState;
+    /** Latest status reported by the server, e.g. `verifying sha256 digest` */
+    status: string;
+    layers: LayerProgress[];
+    bytesPerSecond: number;
+    /** Seconds until every layer is downloaded, when the speed is known */
+    etaSeconds?: number;
+    error?: string;
+    /** Connection attempts for the current run, including automatic resumes */
+    attempts: number;
+    queuedAt: number;
+    finishedAt?: number;
+}
+
+interface RateSample {
+    time: number;
+    bytes: number;
+}
+
+interface ActiveDownload {
+    controller: AbortController;
+    service: OllamaService;
+    samples: Map<string, RateSample>;
+    /** The stall timer aborted the stream, so the download is retried rather than cancelled */
+    stalled: boolean;
+}
+
+const FINISHED_STATES: DownloadState[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+/** Weight of the newest speed sample, so a single slow second does not swing the ETA */
+const SPEED_SMOOTHING = 0.3;
+
+/**
+ * Whether pulling again can succeed: a missing or invalid model name will not, a broken connection or a busy server may
+ */
+function canResume(error: unknown): boolean {
+    const category = categorizeError(error);
+    if (category === ErrorCategory.ModelNotFound || category === ErrorCategory.BadRequest) {
+        return false;
+    }
+    // The registry reports an unknown model inside the stream rather than with a 404
+    return !/file does not exist|manifest unknown/i.test(error instanceof Error ? error.message : String(error));
+}
+
+export class DownloadManager {
+    private static readonly STORAGE_KEY = 'ollamaEnhanced.downloads';
+
+    private static storage: vscode.Memento | undefined;
+    private static getDefaultService: (() => OllamaService) | undefined;
+    private static tasks: DownloadTask[] = [];
+    private static active = new Map<string, ActiveDownload>();
+    private static services = new Map<string, OllamaService>();
+    private static waiters = new Map<string, ((task: DownloadTask) => void)[]>();
+    private static readonly changeEmitter = new vscode.EventEmitter<DownloadTask | undefined>();
+
+    /** Fired with the task whose progress or state changed, or without one when finished tasks were cleared */
+    static readonly onDidChange = DownloadManager.changeEmitter.event;
+
+    /**
+     * Restore the downloads that were still running when VS Code closed, resuming them if enabled
+     */
+    static initialize(context: vscode.ExtensionContext, getDefaultService: () => OllamaService): void {
+        this.storage = context.globalState;
+        this.getDefaultService = getDefaultService;
+
+        const stored = this.storage.get<string[]>(this.STORAGE_KEY, []);
+        if (!Array.isArray(stored) || stored.length === 0) {
+            return;
+        }
+
+        for (const model of stored) {
+            this.tasks.push(this.newTask(model, 'interrupted'));
+        }
+
+        if (vscode.workspace.getConfiguration('ollamaEnhanced').get<boolean>('downloads.resumeOnStartup', true)) {
+            stored.forEach(model => this.resume(model));
+        }
+    }
+
+    static getTasks(): DownloadTask[] {
+        return [...this.tasks];
+    }
+
+    /**
+     * Add a model to the download queue. Resolves once the download stops running,
+     * with the task in its final state; queueing a model that is already downloading joins that download.
+     */
+    static enqueue(model: string, service?: OllamaService): Promise<DownloadTask> {
+        const name = model.trim();
+        let task = this.tasks.find(candidate => candidate.model === name);
+
+        if (!task || FINISHED_STATES.includes(task.state)) {
+            this.tasks = this.tasks.filter(candidate => candidate !== task);
+            task = this.newTask(name, 'queued');
+            this.tasks.push(task);
+        }
+        if (service) {
+            this.services.set(name, service);
+        }
+
+        const promise = new Promise<DownloadTask>(resolve => {
+            const waiting = this.waiters.get(name) || [];
+            waiting.push(resolve);
+            this.waiters.set(name, waiting);
+        });
+
+        this.changed(task);
+        this.pump();
+        return promise;
+    }
+
+    /**
+     * Pull an interrupted, failed or cancelled download again; the server keeps the layers it already has
+     */
+    static resume(model: string): Promise<DownloadTask> {
+        return this.enqueue(model);
+    }
+
+    /**
+     * Cancel one download, whether it is running or still queued
+     */
+    static cancel(model: string): void {
+        const task = this.tasks.find(candidate => candidate.model === model);
+        if (!task) {
+            return;
+        }
+
+        const download = this.active.get(model);
+        if (download) {
+            download.controller.abort();
+        } else if (task.state === 'queued') {
+            this.finish(task, 'cancelled');
+        }
+    }
+
+    /**
+     * Forget a download that is no longer running, including an interrupted one that would otherwise be resumed
+     */
+    static remove(model: string): void {
+        if (this.active.has(model)) {
+            return;
+        }
+        this.tasks = this.tasks.filter(task => task.model !== model || task.state === 'queued');
+        this.save();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Forget the completed, failed and cancelled downloads; interrupted ones stay so they can be resumed
+     */
+    static clearFinished(): void {
+        this.tasks = this.tasks.filter(task => !FINISHED_STATES.includes(task.state) || task.state === 'interrupted');
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Bytes downloaded and total over all layers of a task
+     */
+    static getTotals(task: DownloadTask): { completed: number, total: number } {
+        return task.layers.reduce(
+            (totals, layer) => ({ completed: totals.completed + layer.completed, total: totals.total + layer.total }),
+            { completed: 0, total: 0 }
+        );
+    }
+
+    private static newTask(model: string, state: DownloadState): DownloadTask {
+        return { model, state, status: state === 'queued' ? 'Waiting' : 'Interrupted', layers: [], bytesPerSecond: 0, attempts: 0, queuedAt: Date.now() };
+    }
+
+    private static getMaxConcurrent(): number {
+        return Math.max(1, vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('downloads.maxConcurrent', 2));
+    }
+
+    /**
+     * Start queued downloads, oldest first, until the concurrency limit is reached
+     */
+    private static pump(): void {
+        for (const task of this.tasks) {
+            if (this.active.size >= this.getMaxConcurrent()) {
+                return;
+            }
+            if (task.state === 'queued') {
+                this.run(task);
+            }
+        }
+    }
+
+    private static async run(task: DownloadTask): Promise<void> {
+        const service = this.services.get(task.model) || this.getDefaultService?.();
+        if (!service) {
+            task.error = 'No Ollama server is available';
+            this.finish(task, 'failed');
+            return;
+        }
+
+        // Tracked so that the cancel command also stops downloads
+        const requestId = `pull:${task.model}`;
+        const controller = RequestTracker.createRequest(requestId);
+        const download: ActiveDownload = { controller, service, samples: new Map(), stalled: false };
+        this.active.set(task.model, download);
+
+        task.state = 'downloading';
+        task.status = 'Connecting';
+        task.attempts = 0;
+        task.error = undefined;
+        this.changed(task);
+
+        const policy = Resilience.getRetryPolicy();
+        try {
+            for (;;) {
+                task.attempts++;
+                download.stalled = false;
+                download.samples.clear();
+
+                try {
+                    // Each attempt takes its turn in the request queue and holds the slot until the stream ends
+                    await RequestScheduler.schedule(() => this.pullOnce(task, download), {
+                        priority: RequestPriority.Background,
+                        signal: controller.signal,
+                        onQueuePosition: position => {
+                            if (position > 0) {
+                                task.status = `Waiting in queue (position ${position})`;
+                                this.changed(task);
+                            }
+                        }
+                    });
+                    this.finish(task, 'completed');
+                    return;
+                } catch (error) {
+                    if (controller.signal.aborted && !download.stalled) {
+                        this.finish(task, 'cancelled');
+                        return;
+                    }
+
+                    task.error = error instanceof Error ? error.message : String(error);
+                    if (!canResume(error)) {
+                        this.finish(task, 'failed');
+                        return;
+                    }
+                    if (task.attempts > policy.maxRetries) {
+                        this.finish(task, 'interrupted');
+                        return;
+                    }
+
+                    // Pulling again continues from the layers the server already has
+                    const delay = Resilience.backoffDelay(task.attempts, policy);
+                    task.status = `Connection lost, resuming in ${Math.ceil(delay / 1000)}s`;
+                    this.changed(task);
+                    await new Promise<void>(resolve => {
+                        const timer = setTimeout(resolve, delay);
+                        RequestTracker.onAbort(controller.signal, () => {
+                            clearTimeout(timer);
+                            resolve();
+                        });
+                    });
+                    if (controller.signal.aborted) {
+                        this.finish(task, 'cancelled');
+                        return;
+                    }
+                }
+            }
+        } finally {
+            RequestTracker.completeRequest(requestId, controller);
+            this.active.delete(task.model);
+            this.pump();
+        }
+    }
+
+    /**
+     * Read one /api/pull stream to the end. Throws when the stream breaks, stalls or reports an error.
+     */
+    private static async pullOnce(task: DownloadTask, download: ActiveDownload): Promise<void> {
+        const stallTimeoutMs = Math.max(10, vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('downloads.stallTimeout', 120)) * 1000;
+        const attemptController = new AbortController();
+        const stopAttempt = RequestTracker.onAbort(download.controller.signal, () => attemptController.abort());
+
+        // Instead of a fixed limit on the whole download, give up when no progress arrives for a while
+        let stallTimer: NodeJS.Timeout | undefined;
+        const armStallTimer = () => {
+            if (stallTimer) {
+                clearTimeout(stallTimer);
+            }
+            stallTimer = setTimeout(() => {
+                download.stalled = true;
+                attemptController.abort();
+            }, stallTimeoutMs);
+        };
+
+        let succeeded = false;
+        let serverError: string | undefined;
+        try {
+            armStallTimer();
+            const stream = await download.service.openPullStream(task.model, attemptController.signal);
+
+            await new Promise<void>((resolve, reject) => {
+                readNdjsonStream<ProgressResponse>(stream, progress => {
+                    armStallTimer();
+                    if (progress.error) {
+                        serverError = progress.error;
+                        return;
+                    }
+                    if (progress.status === 'success') {
+                        succeeded = true;
+                    }
+                    this.applyProgress(task, download, progress);
+                }).then(resolve, reject);
+
+                // A destroyed stream never ends, so stop waiting as soon as the attempt is aborted
+                RequestTracker.onAbort(attemptController.signal, () => {
+                    stream.destroy();
+                    resolve();
+                });
+            });
+        } finally {
+            if (stallTimer) {
+                clearTimeout(stallTimer);
+            }
+            stopAttempt.dispose();
+        }
+
+        if (download.stalled) {
+            throw new Error(`Download stalled: no progress for ${stallTimeoutMs / 1000}s`);
+        }
+        if (attemptController.signal.aborted) {
+            throw new Error('Download cancelled');
+        }
+        if (serverError) {
+            throw new Error(serverError);
+        }
+        if (!succeeded) {
+            // The server closed the stream without finishing, e.g. because it restarted
+            throw new Error('Download interrupted: the connection closed before the pull finished');
+        }
+    }
+
+    private static applyProgress(task: DownloadTask, download: ActiveDownload, progress: ProgressResponse): void {
+        task.status = progress.status;
+
+        if (progress.digest && progress.total) {
+            let layer = task.layers.find(candidate => candidate.digest === progress.digest);
+            if (!layer) {
+                layer = { digest: progress.digest, total: progress.total, completed: 0, bytesPerSecond: 0 };
+                task.layers.push(layer);
+            }
+            layer.total = progress.total;
+            layer.completed = progress.completed || 0;
+            layer.bytesPerSecond = this.measureSpeed(download, layer.digest, layer.completed, layer.bytesPerSecond);
+            if (layer.completed >= layer.total) {
+                layer.bytesPerSecond = 0;
+            }
+        }
+
+        const totals = this.getTotals(task);
+        task.bytesPerSecond = this.measureSpeed(download, '', totals.completed, task.bytesPerSecond);
+        task.etaSeconds = task.bytesPerSecond > 0 && totals.total > 0
+            ? Math.round((totals.total - totals.completed) / task.bytesPerSecond)
+            : undefined;
+
+        this.changed(task);
+    }
+
+    /**
+     * Update a smoothed bytes-per-second rate at most once per second. The first sample of an attempt
+     * only sets the baseline, so bytes already on disk from an earlier attempt do not count as speed.
+     */
+    private static measureSpeed(download: ActiveDownload, key: string, bytes: number, previous: number): number {
+        const now = Date.now();
+        const sample = download.samples.get(key);
+        if (!sample) {
+            download.samples.set(key, { time: now, bytes });
+            return previous;
+        }
+
+        const elapsedSeconds = (now - sample.time) / 1000;
+        if (elapsedSeconds < 1) {
+            return previous;
+        }
+
+        const current = Math.max(0, bytes - sample.bytes) / elapsedSeconds;
+        download.samples.set(key, { time: now, bytes });
+        return previous > 0 ? previous * (1 - SPEED_SMOOTHING) + current * SPEED_SMOOTHING : current;
+    }
+
+    private static finish(task: DownloadTask, state: DownloadState): void {
+        task.state = state;
+        task.finishedAt = Date.now();
+        task.bytesPerSecond = 0;
+        task.etaSeconds = undefined;
+        if (state === 'completed') {
+            task.status = 'Downloaded';
+            task.error = undefined;
+            this.services.delete(task.model);
+        } else if (state === 'cancelled') {
+            task.status = 'Cancelled';
+        } else {
+            task.status = state === 'failed' ? 'Failed' : 'Interrupted';
+        }
+
+        this.changed(task);
+
+        const waiting = this.waiters.get(task.model) || [];
+        this.waiters.delete(task.model);
+        waiting.forEach(resolve => resolve(task));
+    }
+
+    private static changed(task: DownloadTask): void {
+        this.save();
+        this.changeEmitter.fire(task);
+    }
+
+    /**
+     * Remember the unfinished downloads, so they can be resumed after a restart
+     */
+    private static save(): void {
+        if (!this.storage) {
+            return;
+        }
+
+        const unfinished = this.tasks
+            .filter(task => task.state === 'queued' || task.state === 'downloading' || task.state === 'interrupted')
+            .map(task => task.model);
+        const stored = this.storage.get<string[]>(this.STORAGE_KEY, []);
+        if (JSON.stringify(stored) !== JSON.stringify(unfinished)) {
+            this.storage.update(this.STORAGE_KEY, unfinished).then(undefined, error => {
+                console.error('Failed to save the download queue:', error);
+            });
+        }
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * Webview that lists queued and running model downloads with per-layer progress
+ */
+import * as vscode from 'vscode';
+import { DownloadManager } from './downloadManager';
+
+/** Progress records arrive many times per second; the view is refreshed at most this often */
+const UPDATE_INTERVAL_MS = 250;
+
+export class DownloadsPanel {
+    public static currentPanel: DownloadsPanel | undefined;
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private updateTimer: NodeJS.Timeout | undefined;
+
+    public static createOrShow() {
+        if (DownloadsPanel.currentPanel) {
+            DownloadsPanel.currentPanel.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'ollamaDownloads',
+            'Ollama Downloads',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+
+        DownloadsPanel.currentPanel = new DownloadsPanel(panel);
+    }
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this.panel = panel;
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        DownloadManager.onDidChange(() => this.scheduleUpdate(), null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(message => {
+            switch (message.command) {
+                case 'ready':
+                    this.update();
+                    break;
+                case 'cancel':
+                    DownloadManager.cancel(message.model);
+                    break;
+                case 'resume':
+                    DownloadManager.resume(message.model);
+                    break;
+                case 'remove':
+                    DownloadManager.remove(message.model);
+                    break;
+                case 'clearFinished':
+                    DownloadManager.clearFinished();
+                    break;
+                case 'pull':
+                    vscode.commands.executeCommand('vscode-ollama-enhanced.pullModel');
+                    break;
+            }
+        }, null, this.disposables);
+
+        this.panel.webview.html = this.getHtml();
+    }
+
+    public dispose() {
+        DownloadsPanel.currentPanel = undefined;
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.panel.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private scheduleUpdate() {
+        if (!this.updateTimer) {
+            this.updateTimer = setTimeout(() => {
+                this.updateTimer = undefined;
+                this.update();
+            }, UPDATE_INTERVAL_MS);
+        }
+    }
+
+    private update() {
+        const downloads = DownloadManager.getTasks().reverse().map(task => ({
+            ...task,
+            ...DownloadManager.getTotals(task)
+        }));
+        this.panel.webview.postMessage({ command: 'update', downloads });
+    }
+
+    private getHtml(): string {
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Ollama Downloads</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    padding: 16px;
+                }
+                .toolbar {
+                    display: flex;
+                    gap: 8px;
+                    margin-bottom: 16px;
+                }
+                .download {
+                    border: 1px solid var(--vscode-panel-border);
+                    border-radius: 4px;
+                    padding: 10px 12px;
+                    margin-bottom: 12px;
+                }
+                .header {
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                }
+                .name {
+                    font-weight: 600;
+                    flex: 1;
+                }
+                .state, .status, .layer-name, .empty {
+                    color: var(--vscode-descriptionForeground);
+                }
+                .state.failed, .error {
+                    color: var(--vscode-errorForeground);
+                }
+                .status {
+                    margin: 6px 0;
+                    font-size: 0.9em;
+                }
+                .bar-track {
+                    height: 6px;
+                    background: var(--vscode-editorWidget-background);
+                    border-radius: 3px;
+                    overflow: hidden;
+                }
+                .bar-fill {
+                    height: 6px;
+                    background: var(--vscode-progressBar-background);
+                }
+                .layers {
+                    margin-top: 8px;
+                    display: grid;
+                    grid-template-columns: 9em 1fr 14em;
+                    gap: 4px 10px;
+                    align-items: center;
+                    font-size: 0.85em;
+                }
+                button {
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    padding: 4px 12px;
+                    border-radius: 4px;
+                    cursor: pointer;
+                }
+                button.primary {
+                    background: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+            </style>
+        </head>
+        <body>
+            <h1>Ollama Downloads</h1>
+            <div class="toolbar">
+                <button class="primary" data-command="pull">Pull a Model...</button>
+                <button data-command="clearFinished">Clear finished</button>
+            </div>
+            <div id="downloads"><p class="empty">No downloads yet.</p></div>
+            <script>
+                const vscode = acquireVsCodeApi();
+                const container = document.getElementById('downloads');
+
+                const escape = text => String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+                const size = bytes => bytes >= 1073741824 ? (bytes / 1073741824).toFixed(2) + ' GB' : (bytes / 1048576).toFixed(1) + ' MB';
+                const speed = bytesPerSecond => bytesPerSecond > 0 ? (bytesPerSecond / 1048576).toFixed(1) + ' MB/s' : '';
+                const duration = seconds => seconds === undefined || seconds === null ? '' :
+                    seconds >= 3600 ? Math.floor(seconds / 3600) + 'h ' + Math.floor((seconds % 3600) / 60) + 'm left' :
+                    seconds >= 60 ? Math.floor(seconds / 60) + 'm ' + (seconds % 60) + 's left' : seconds + 's left';
+                const bar = (completed, total) =>
+                    '<div class="bar-track"><div class="bar-fill" style="width:' + (total > 0 ? Math.min(100, completed / total * 100) : 0) + '%"></div></div>';
+
+                const actions = download => {
+                    const button = (command, label) => '<button data-command="' + command + '" data-model="' + escape(download.model) + '">' + label + '</button>';
+                    switch (download.state) {
+                        case 'queued':
+                        case 'downloading':
+                            return button('cancel', 'Cancel');
+                        case 'completed':
+                            return button('remove', 'Remove');
+                        default:
+                            return button('resume', download.state === 'interrupted' ? 'Resume' : 'Retry') + button('remove', 'Remove');
+                    }
+                };
+
+                const render = downloads => {
+                    if (downloads.length === 0) {
+                        container.innerHTML = '<p class="empty">No downloads yet.</p>';
+                        return;
+                    }
+                    container.innerHTML = downloads.map(download => {
+                        const percent = download.total > 0 ? Math.floor(download.completed / download.total * 100) + '%' : '';
+                        const summary = [download.status, download.total > 0 ? size(download.completed) + ' / ' + size(download.total) : '', percent,
+                            download.state === 'downloading' ? speed(download.bytesPerSecond) : '', download.state === 'downloading' ? duration(download.etaSeconds) : '']
+                            .filter(Boolean).join(' · ');
+                        const layers = download.state === 'downloading' && download.layers.length > 1
+                            ? '<div class="layers">' + download.layers.map(layer =>
+                                '<span class="layer-name">' + escape(layer.digest.replace('sha256:', '').substring(0, 12)) + '</span>' +
+                                bar(layer.completed, layer.total) +
+                                '<span>' + size(layer.completed) + ' / ' + size(layer.total) + (layer.bytesPerSecond > 0 ? ' · ' + speed(layer.bytesPerSecond) : '') + '</span>'
+                            ).join('') + '</div>'
+                            : '';
+                        return '<div class="download">' +
+                            '<div class="header"><span class="name">' + escape(download.model) + '</span>' +
+                            '<span class="state ' + download.state + '">' + download.state + '</span>' + actions(download) + '</div>' +
+                            '<div class="status">' + escape(summary) + '</div>' +
+                            (download.state === 'downloading' ? bar(download.completed, download.total) : '') +
+                            layers +
+                            (download.error && download.state !== 'completed' ? '<div class="status error">' + escape(download.error) + '</div>' : '') +
+                            '</div>';
+                    }).join('');
+                };
+
+                document.body.addEventListener('click', event => {
+                    const target = event.target.closest('button[data-command]');
+                    if (target) {
+                        vscode.postMessage({ command: target.dataset.command, model: target.dataset.model });
+                    }
+                });
+
+                window.addEventListener('message', event => {
+                    if (event.data.command === 'update') {
+                        render(event.data.downloads);
+                    }
+                });
+
+                vscode.postMessage({ command: 'ready' });
+            </script>
+        </body>
+        </html>`;
+    }
+}
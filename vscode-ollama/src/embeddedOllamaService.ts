@@ -3,8 +3,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as child_process from 'child_process';
-import axios from 'axios';
 import { spawn } from 'child_process';
+import { OllamaApiClient, OllamaApiError, GenerateResponse, ProgressResponse } from './ollamaApi';
+import { NdjsonDecoder } from './ndjson';
+import { RequestTracker } from './utils';
+import { ProxySettings } from './proxySettings';
 
 export interface EmbeddedModel {
     name: string;
@@ -25,6 +28,7 @@ export class EmbeddedOllamaService {
     private serviceChannel: vscode.OutputChannel;
     private apiPort = 9527; // Use a different port from the standard Ollama
     private readonly apiBaseUrl: string;
+    private readonly api: OllamaApiClient;
     
     private embeddedModels: EmbeddedModel[] = [
         {
@@ -70,6 +74,7 @@ export class EmbeddedOllamaService {
         // Use user home directory for models to ensure write permissions
         this.modelsPath = path.join(os.homedir(), '.vscode-ollama', 'models');
         this.apiBaseUrl = `http://localhost:${this.apiPort}`;
+        this.api = new OllamaApiClient(this.apiBaseUrl);
         
         // Ensure the models directory exists
         if (!fs.existsSync(this.modelsPath)) {
@@ -299,20 +304,30 @@ export class EmbeddedOllamaService {
                     
                     const tempFilePath = path.join(tempDir, path.basename(downloadUrl));
                     
+                    // Download through the same proxy as the rest of the extension
+                    const proxy = ProxySettings.resolve(downloadUrl);
+                    if (proxy) {
+                        this.serviceChannel.appendLine(`Using proxy ${proxy.url}`);
+                    }
+                    
                     // Create a child process to download the file
                     await new Promise<void>((resolve, reject) => {
                         let downloadProcess;
                         
                         if (platform === 'win32') {
                             // On Windows use PowerShell
+                            const proxyArguments = proxy ? ` -Proxy '${proxy.url}'` : '';
                             const psCommand = `
                                 [Net.ServicePointManager]::SecurityProtocol = [Net.SecurityProtocolType]::Tls12;
-                                Invoke-WebRequest -Uri '${downloadUrl}' -OutFile '${tempFilePath}'
+                                Invoke-WebRequest -Uri '${downloadUrl}' -OutFile '${tempFilePath}'${proxyArguments}
                             `;
                             downloadProcess = spawn('powershell', ['-Command', psCommand]);
                         } else {
                             // On Unix systems use curl
-                            downloadProcess = spawn('curl', ['-L', '-o', tempFilePath, downloadUrl]);
+                            const proxyArguments = proxy
+                                ? ['--proxy', proxy.url, ...(proxy.authorization ? ['--proxy-header', `Proxy-Authorization: ${proxy.authorization}`] : [])]
+                                : [];
+                            downloadProcess = spawn('curl', ['-L', ...proxyArguments, '-o', tempFilePath, downloadUrl]);
                         }
                         
                         downloadProcess.on('close', code => {
@@ -474,17 +489,12 @@ export class EmbeddedOllamaService {
                 
                 // First, check if there's already a server running on the port
                 try {
-                    const response = await axios.get(`${this.apiBaseUrl}/api/tags`, { 
-                        timeout: 1000,
-                        validateStatus: () => true
-                    });
+                    await this.api.tags({ timeout: 1000 });
                     
-                    if (response.status === 200) {
-                        this.serviceChannel.appendLine('Server already running on specified port');
-                        this.isRunning = true;
-                        progress.report({ message: "Server already running!" });
-                        return true;
-                    }
+                    this.serviceChannel.appendLine('Server already running on specified port');
+                    this.isRunning = true;
+                    progress.report({ message: "Server already running!" });
+                    return true;
                 } catch (error) {
                     // Expected error if server is not running
                     this.serviceChannel.appendLine('No existing server detected, starting new instance');
@@ -493,6 +503,8 @@ export class EmbeddedOllamaService {
                 // Create environment with custom model path
                 const env = {
                     ...process.env,
+                    // Model pulls by the server go through the VS Code proxy
+                    ...ProxySettings.getServerEnvironment(),
                     OLLAMA_MODELS: this.modelsPath,
                     // Use custom port to avoid conflicts with system Ollama
                     OLLAMA_HOST: `127.0.0.1:${this.apiPort}`
@@ -568,19 +580,12 @@ export class EmbeddedOllamaService {
                         progress.report({ message: `Connecting (attempt ${attempts + 1}/${maxAttempts})...` });
                         await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
                         
-                        const response = await axios.get(`${this.apiBaseUrl}/api/tags`, { 
-                            timeout: 2000, // Increase timeout
-                            validateStatus: () => true
-                        });
+                        await this.api.tags({ timeout: 2000 }); // Increase timeout
                         
-                        if (response.status === 200) {
-                            this.isRunning = true;
-                            this.serviceChannel.appendLine('Embedded Ollama server started successfully');
-                            progress.report({ message: "Server started successfully!" });
-                            return true;
-                        } else {
-                            lastError = `Server returned status ${response.status}`;
-                        }
+                        this.isRunning = true;
+                        this.serviceChannel.appendLine('Embedded Ollama server started successfully');
+                        progress.report({ message: "Server started successfully!" });
+                        return true;
                     } catch (error) {
                         // Log but keep trying
                         lastError = error instanceof Error ? error.message : String(error);
@@ -595,7 +600,7 @@ export class EmbeddedOllamaService {
                 // Attempt to kill the process
                 if (this.ollamaProcess && !this.ollamaProcess.killed) {
                     if (os.platform() === 'win32') {
-                        exec(`taskkill /pid ${this.ollamaProcess.pid} /T /F`);
+                        child_process.exec(`taskkill /pid ${this.ollamaProcess.pid} /T /F`);
                     } else {
                         this.ollamaProcess.kill('SIGKILL');
                     }
@@ -843,8 +848,7 @@ export class EmbeddedOllamaService {
             
             // Prepare parameters for model download
             const params = {
-                name: modelName,
-                stream: true,
+                model: modelName,
                 insecure: true // Allow non-verified certificates for download
             };
             
@@ -856,69 +860,57 @@ export class EmbeddedOllamaService {
             });
             
             // Call the Ollama API to pull the model
-            const response = await axios.post(
-                `${this.apiBaseUrl}/api/pull`,
-                params,
-                {
-                    responseType: 'stream',
-                    signal: abortController.signal
-                }
-            );
+            const stream = await this.api.pullStream(params, {
+                signal: abortController.signal,
+                timeout: 0 // Large downloads can take a long time
+            });
             
             progress.report({ message: `Downloading ${model.displayName} (This may take a while)...` });
             
             // Process the streaming response to track progress
             let downloadProgress = 0;
             
-            await new Promise<void>((resolve, reject) => {
-                response.data.on('data', (chunk: Buffer) => {
-                    try {
-                        const text = chunk.toString();
-                        const lines = text.split('\n').filter(Boolean);
-                        
-                        for (const line of lines) {
-                            try {
-                                const data = JSON.parse(line);
-                                
-                                // Check for progress information
-                                if (data.completed && data.total) {
-                                    const percent = Math.round((data.completed / data.total) * 100);
-                                    downloadProgress = percent;
-                                    
-                                    // Convert to more readable units
-                                    const downloadedMB = (data.completed / (1024 * 1024)).toFixed(1);
-                                    const totalMB = (data.total / (1024 * 1024)).toFixed(1);
-                                    
-                                    progress.report({ 
-                                        message: `Downloading ${model.displayName}: ${downloadedMB}MB / ${totalMB}MB (${percent}%)` 
-                                    });
-                                }
-                                
-                                // Check for other status updates
-                                if (data.status) {
-                                    progress.report({ message: data.status });
-                                    this.serviceChannel.appendLine(`Status update: ${data.status}`);
-                                    
-                                    // Check for completion
-                                    if (data.status.includes('done') || data.status.includes('complete')) {
-                                        this.serviceChannel.appendLine(`Model download completed: ${data.status}`);
-                                    }
-                                }
-                            } catch (e) {
-                                // Ignore JSON parsing errors
-                            }
-                        }
-                    } catch (e) {
-                        // Ignore data processing errors
+            const decoder = new NdjsonDecoder<ProgressResponse>();
+            
+            const handleProgress = (data: ProgressResponse) => {
+                // Check for progress information
+                if (data.completed && data.total) {
+                    const percent = Math.round((data.completed / data.total) * 100);
+                    downloadProgress = percent;
+                    
+                    // Convert to more readable units
+                    const downloadedMB = (data.completed / (1024 * 1024)).toFixed(1);
+                    const totalMB = (data.total / (1024 * 1024)).toFixed(1);
+                    
+                    progress.report({ 
+                        message: `Downloading ${model.displayName}: ${downloadedMB}MB / ${totalMB}MB (${percent}%)` 
+                    });
+                }
+                
+                // Check for other status updates
+                if (data.status) {
+                    progress.report({ message: data.status });
+                    this.serviceChannel.appendLine(`Status update: ${data.status}`);
+                    
+                    // Check for completion
+                    if (data.status.includes('done') || data.status.includes('complete')) {
+                        this.serviceChannel.appendLine(`Model download completed: ${data.status}`);
                     }
+                }
+            };
+            
+            await new Promise<void>((resolve, reject) => {
+                stream.on('data', (chunk: Buffer) => {
+                    decoder.push(chunk).forEach(handleProgress);
                 });
                 
-                response.data.on('error', (err: Error) => {
+                stream.on('error', (err: Error) => {
                     this.serviceChannel.appendLine(`Download stream error: ${err.message}`);
                     reject(err);
                 });
                 
-                response.data.on('end', () => {
+                stream.on('end', () => {
+                    decoder.flush().forEach(handleProgress);
                     this.serviceChannel.appendLine(`Download stream ended`);
                     
                     // Check if download was successful (at least partially completed)
@@ -944,7 +936,7 @@ export class EmbeddedOllamaService {
             this.serviceChannel.appendLine(`Model ${modelName} downloaded and installed successfully`);
             return true;
         } catch (error) {
-            if (error instanceof Error && error.name === 'AbortError') {
+            if (error instanceof OllamaApiError && error.isCancelled) {
                 this.serviceChannel.appendLine(`Model download cancelled by user`);
                 return false;
             }
@@ -964,7 +956,8 @@ export class EmbeddedOllamaService {
         options?: {
             stream?: boolean,
             maxTokens?: number,
-            temperature?: number
+            temperature?: number,
+            signal?: AbortSignal
         }
     ): Promise<string> {
         // Ensure server is running
@@ -983,8 +976,7 @@ export class EmbeddedOllamaService {
                 return this.streamingGeneration(modelName, prompt, onChunk!, options);
             } else {
                 // Non-streaming implementation
-                const response = await axios.post(
-                    `${this.apiBaseUrl}/api/generate`,
+                const response = await this.api.generate(
                     {
                         model: modelName,
                         prompt,
@@ -994,12 +986,13 @@ export class EmbeddedOllamaService {
                         }
                     },
                     {
-                        timeout: 30000
+                        timeout: 30000,
+                        signal: options?.signal
                     }
                 );
                 
-                if (response.data && response.data.response) {
-                    return response.data.response;
+                if (response && response.response) {
+                    return response.response;
                 } else {
                     throw new Error('Invalid response from Ollama API');
                 }
@@ -1019,68 +1012,72 @@ export class EmbeddedOllamaService {
         onChunk: (text: string) => void,
         options?: {
             maxTokens?: number,
-            temperature?: number
+            temperature?: number,
+            signal?: AbortSignal
         }
     ): Promise<string> {
+        // Collect the full response
+        let fullResponse = '';
+        
         try {
             // Send initial thinking message
             onChunk('_Thinking..._');
             
-            const response = await axios.post(
-                `${this.apiBaseUrl}/api/generate`,
+            const stream = await this.api.generateStream(
                 {
                     model: modelName,
                     prompt,
-                    stream: true,
                     options: {
                         num_predict: options?.maxTokens || 2048,
                         temperature: options?.temperature || 0.7
                     }
                 },
                 {
-                    responseType: 'stream',
-                    timeout: 30000
+                    timeout: 30000,
+                    signal: options?.signal
                 }
             );
             
             // Clear thinking message
             onChunk('');
             
-            // Collect the full response
-            let fullResponse = '';
-            
             // Process the streaming response
+            const decoder = new NdjsonDecoder<GenerateResponse>();
+            
+            const handleRecord = (data: GenerateResponse) => {
+                if (data.response) {
+                    fullResponse += data.response;
+                    onChunk(data.response);
+                }
+            };
+            
             return new Promise<string>((resolve, reject) => {
-                response.data.on('data', (chunk: Buffer) => {
-                    try {
-                        const text = chunk.toString();
-                        const lines = text.split('\n').filter(Boolean);
-                        
-                        for (const line of lines) {
-                            try {
-                                const data = JSON.parse(line);
-                                if (data.response) {
-                                    fullResponse += data.response;
-                                    onChunk(data.response);
-                                }
-                            } catch (e) {
-                                // Ignore parsing errors
-                            }
-                        }
-                    } catch (e) {
-                        // Ignore processing errors
-                    }
+                stream.on('data', (chunk: Buffer) => {
+                    decoder.push(chunk).forEach(handleRecord);
                 });
                 
-                response.data.on('end', () => {
+                stream.on('end', () => {
+                    decoder.flush().forEach(handleRecord);
                     resolve(fullResponse);
                 });
                 
-                response.data.on('error', (err: Error) => {
+                // Close the connection on cancellation and keep the partial reply
+                if (options?.signal) {
+                    RequestTracker.onAbort(options.signal, () => {
+                        stream.destroy();
+                        resolve(fullResponse);
+                    });
+                }
+                
+                stream.on('error', (err: Error) => {
                     reject(err);
                 });
             });
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return fullResponse;
+            }
+            
             this.serviceChannel.appendLine(`Streaming error: ${error instanceof Error ? error.message : String(error)}`);
             onChunk(`\n\n_Error: ${error instanceof Error ? error.message : String(error)}_`);
             throw error;
@@ -0,0 +1,308 @@
+/**
+ * Pool of Ollama hosts with per-host health, backoff and model lists
+ */
+import * as vscode from 'vscode';
+import type { Readable } from 'stream';
+import { ModelInfo, OllamaApiClient, OllamaApiError, sameModel } from './ollamaApi';
+import { EndpointSettings } from './endpointSettings';
+
+/**
+ * How requests are spread over healthy hosts, matching the `ollamaEnhanced.loadBalancing` setting
+ */
+export type LoadBalancingStrategy = 'failover' | 'leastBusy';
+
+export interface PoolEndpoint {
+    readonly url: string;
+    readonly api: OllamaApiClient;
+    /** Result of the last health check, or null if the host was never checked */
+    healthy: boolean | null;
+    checkedAt: number;
+    /** Consecutive failures, used for the backoff */
+    failures: number;
+    /** The host is skipped until this time after a failure */
+    retryAt: number;
+    /** Model names from the last /api/tags response, compared with `sameModel` since callers often leave out `:latest` */
+    models: string[] | null;
+    /** Requests and streams currently running on the host */
+    active: number;
+}
+
+/**
+ * Routes each request to a healthy host that has the requested model.
+ * A host that fails with a connection error, a timeout or a gateway error is marked down
+ * for an exponentially growing period and the request moves on to the next host.
+ */
+export class EndpointPool {
+    private static readonly BASE_BACKOFF = 5000;
+    private static readonly MAX_BACKOFF = 5 * 60 * 1000;
+
+    private readonly endpoints: PoolEndpoint[];
+    private readonly outputChannel?: vscode.OutputChannel;
+
+    constructor(urls: string[], outputChannel?: vscode.OutputChannel) {
+        const uniqueUrls = [...new Set(urls.map(url => EndpointSettings.normalizeUrl(url)))];
+        this.endpoints = uniqueUrls.map(url => ({
+            url,
+            api: new OllamaApiClient(url, { connection: () => EndpointSettings.getConnection(url) }),
+            healthy: null,
+            checkedAt: 0,
+            failures: 0,
+            retryAt: 0,
+            models: null,
+            active: 0
+        }));
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Build the pool from the primary API URL and `ollamaEnhanced.apiUrls`
+     */
+    static fromConfiguration(primaryUrl: string, outputChannel?: vscode.OutputChannel): EndpointPool {
+        const extraUrls = vscode.workspace.getConfiguration('ollamaEnhanced').get<string[]>('apiUrls', []);
+        const urls = [primaryUrl, ...(Array.isArray(extraUrls) ? extraUrls : [])]
+            .filter(url => typeof url === 'string' && url.trim() !== '');
+        return new EndpointPool(urls, outputChannel);
+    }
+
+    /**
+     * Whether an error means the host is unusable, as opposed to a problem with the request itself
+     */
+    static isFailoverError(error: unknown): boolean {
+        if (!(error instanceof OllamaApiError) || error.isCancelled) {
+            return false;
+        }
+        return error.isConnectionError || error.isTimeout ||
+            error.status === 502 || error.status === 503 || error.status === 504;
+    }
+
+    /**
+     * Whether the host answered that it does not have the model, which another host may still have
+     */
+    static isModelNotFound(error: unknown): boolean {
+        return error instanceof OllamaApiError && !error.isCancelled && error.status === 404;
+    }
+
+    get primary(): PoolEndpoint {
+        return this.endpoints[0];
+    }
+
+    get size(): number {
+        return this.endpoints.length;
+    }
+
+    get urls(): string[] {
+        return this.endpoints.map(endpoint => endpoint.url);
+    }
+
+    find(url: string): PoolEndpoint | undefined {
+        const normalized = EndpointSettings.normalizeUrl(url);
+        return this.endpoints.find(endpoint => endpoint.url === normalized);
+    }
+
+    /**
+     * Hosts to try for a model, best first.
+     * Hosts known to have the model come before unchecked ones, and hosts in backoff are
+     * only returned when every host is in backoff.
+     */
+    candidates(modelName?: string): PoolEndpoint[] {
+        const now = Date.now();
+        const available = this.endpoints.filter(endpoint => endpoint.retryAt <= now);
+
+        if (available.length === 0) {
+            return [...this.endpoints].sort((a, b) => a.retryAt - b.retryAt);
+        }
+
+        const strategy = vscode.workspace.getConfiguration('ollamaEnhanced').get<LoadBalancingStrategy>('loadBalancing', 'failover');
+        const modelRank = (endpoint: PoolEndpoint): number => {
+            if (!modelName || endpoint.models === null) {
+                return 1;
+            }
+            return this.hasModel(endpoint, modelName) ? 0 : 2;
+        };
+
+        return available
+            .map((endpoint, index) => ({ endpoint, index }))
+            .sort((a, b) =>
+                modelRank(a.endpoint) - modelRank(b.endpoint) ||
+                (strategy === 'leastBusy' ? a.endpoint.active - b.endpoint.active : 0) ||
+                a.index - b.index
+            )
+            .map(entry => entry.endpoint);
+    }
+
+    markHealthy(endpoint: PoolEndpoint, models?: ModelInfo[]): void {
+        if (endpoint.healthy === false) {
+            this.log(`${endpoint.url} is back up`);
+        }
+        endpoint.healthy = true;
+        endpoint.checkedAt = Date.now();
+        endpoint.failures = 0;
+        endpoint.retryAt = 0;
+        if (models) {
+            endpoint.models = models.map(model => model.name);
+        }
+    }
+
+    markDown(endpoint: PoolEndpoint, error: unknown): void {
+        endpoint.healthy = false;
+        endpoint.checkedAt = Date.now();
+        endpoint.failures++;
+
+        const backoff = Math.min(EndpointPool.BASE_BACKOFF * Math.pow(2, endpoint.failures - 1), EndpointPool.MAX_BACKOFF);
+        endpoint.retryAt = Date.now() + backoff;
+
+        this.log(`${endpoint.url} marked down for ${Math.round(backoff / 1000)}s: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    /**
+     * Cached health for a model: true if a recently checked host is up (and has the model),
+     * false if every host was recently found down, undefined if a new check is needed
+     */
+    getCachedHealth(modelName: string | undefined, ttl: number): boolean | undefined {
+        const now = Date.now();
+        const fresh = this.endpoints.filter(endpoint => endpoint.healthy !== null && now - endpoint.checkedAt < ttl);
+
+        const usable = fresh.some(endpoint =>
+            endpoint.healthy && (!modelName || this.hasModel(endpoint, modelName))
+        );
+        if (usable) {
+            return true;
+        }
+
+        if (fresh.length === this.endpoints.length && fresh.every(endpoint => endpoint.healthy === false)) {
+            return false;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Query /api/tags on the candidate hosts until one has the model (or any host answers when no model is given)
+     */
+    async probe(modelName: string | undefined, timeout: number): Promise<{ endpoint: PoolEndpoint, models: ModelInfo[] }> {
+        let fallback: { endpoint: PoolEndpoint, models: ModelInfo[] } | undefined;
+        let lastError: unknown;
+
+        for (const endpoint of this.candidates(modelName)) {
+            try {
+                const { models } = await endpoint.api.tags({ timeout });
+                this.markHealthy(endpoint, models);
+
+                if (!modelName || models.some(model => sameModel(model.name, modelName))) {
+                    return { endpoint, models };
+                }
+                fallback = fallback || { endpoint, models };
+            } catch (error) {
+                this.markDown(endpoint, error);
+                lastError = error;
+            }
+        }
+
+        if (fallback) {
+            return fallback;
+        }
+        throw lastError || new Error('No Ollama endpoint configured');
+    }
+
+    /**
+     * Models from every reachable host, de-duplicated by name
+     */
+    async listModels(timeout: number): Promise<ModelInfo[]> {
+        const now = Date.now();
+        const targets = this.endpoints.filter(endpoint => endpoint.retryAt <= now);
+        const results = await Promise.all((targets.length > 0 ? targets : this.endpoints).map(async endpoint => {
+            try {
+                const { models } = await endpoint.api.tags({ timeout });
+                this.markHealthy(endpoint, models);
+                return { models };
+            } catch (error) {
+                this.markDown(endpoint, error);
+                return { error };
+            }
+        }));
+
+        const succeeded = results.filter(result => result.models);
+        if (succeeded.length === 0) {
+            throw results[0]?.error || new Error('No Ollama endpoint configured');
+        }
+
+        const byName = new Map<string, ModelInfo>();
+        succeeded.forEach(result => (result.models || []).forEach(model => {
+            if (!byName.has(model.name)) {
+                byName.set(model.name, model);
+            }
+        }));
+        return [...byName.values()];
+    }
+
+    /**
+     * Run a request on the best host for the model, failing over to the next host on host errors.
+     * When a host does not have the model, the request moves on to the next host that lists it.
+     * A returned stream keeps its host counted as busy until the stream closes.
+     */
+    async run<T>(modelName: string | undefined, operation: (api: OllamaApiClient, endpoint: PoolEndpoint) => Promise<T>, signal?: AbortSignal): Promise<T> {
+        let lastError: unknown;
+        let modelMissing = false;
+
+        for (const endpoint of this.candidates(modelName)) {
+            if (modelMissing && modelName && !(endpoint.healthy !== false && this.hasModel(endpoint, modelName))) {
+                continue;
+            }
+
+            endpoint.active++;
+            let released = false;
+            const release = () => {
+                if (!released) {
+                    released = true;
+                    endpoint.active--;
+                }
+            };
+
+            try {
+                const result = await operation(endpoint.api, endpoint);
+
+                const stream = result as unknown as Readable;
+                if (stream && typeof stream.once === 'function' && typeof stream.destroy === 'function') {
+                    stream.once('close', release);
+                } else {
+                    release();
+                }
+
+                if (endpoint.healthy === false) {
+                    this.markHealthy(endpoint);
+                }
+                return result;
+            } catch (error) {
+                release();
+
+                if (!signal?.aborted && modelName && EndpointPool.isModelNotFound(error)) {
+                    // The host's model list was out of date
+                    endpoint.models = endpoint.models && endpoint.models.filter(model => !sameModel(model, modelName));
+                    modelMissing = true;
+                    lastError = error;
+                    continue;
+                }
+
+                if (signal?.aborted || !EndpointPool.isFailoverError(error)) {
+                    throw error;
+                }
+
+                this.markDown(endpoint, error);
+                lastError = error;
+            }
+        }
+
+        throw lastError || new Error('No Ollama endpoint configured');
+    }
+
+    private hasModel(endpoint: PoolEndpoint, modelName: string): boolean {
+        return endpoint.models !== null && endpoint.models.some(model => sameModel(model, modelName));
+    }
+
+    private log(message: string): void {
+        console.log(`[EndpointPool] ${message}`);
+        if (this.outputChannel) {
+            this.outputChannel.appendLine(`[EndpointPool] ${message}`);
+        }
+    }
+}
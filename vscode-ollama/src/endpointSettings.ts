@@ -0,0 +1,159 @@
+/**
+ * Connection settings for remote Ollama servers: extra headers, secret auth headers, TLS and proxy options
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as tls from 'tls';
+import { OllamaConnectionOptions } from './ollamaApi';
+import { ProxyConfig, ProxySettings } from './proxySettings';
+
+/**
+ * One entry of the `ollamaEnhanced.endpoints` setting
+ */
+export interface EndpointConfig {
+    url: string;
+    /** Plain headers sent with every request; use secret headers for tokens */
+    headers?: Record<string, string>;
+    /** Path to a PEM file with additional CA certificates */
+    caCertificate?: string;
+    /** Set to false to accept self-signed or otherwise invalid certificates */
+    rejectUnauthorized?: boolean;
+    /** Proxy URL for this server, or false to connect directly; overrides `http.proxy` */
+    proxy?: string | false;
+}
+
+/**
+ * Resolves the headers and HTTPS agent for an endpoint.
+ * Secret headers live in SecretStorage, keyed by the normalized endpoint URL.
+ */
+export class EndpointSettings {
+    private static readonly SECRET_KEY_PREFIX = 'ollamaEnhanced.endpointHeaders:';
+    private static secrets: vscode.SecretStorage | undefined;
+    private static agents = new Map<string, https.Agent>();
+
+    /**
+     * Must be called on activation before secret headers can be read or stored
+     */
+    static initialize(context: vscode.ExtensionContext): void {
+        this.secrets = context.secrets;
+    }
+
+    static normalizeUrl(url: string): string {
+        return url.trim().replace(/\/+$/, '');
+    }
+
+    /**
+     * Endpoints configured in `ollamaEnhanced.endpoints`, ignoring entries without a URL
+     */
+    static getConfiguredEndpoints(): EndpointConfig[] {
+        const endpoints = vscode.workspace.getConfiguration('ollamaEnhanced').get<EndpointConfig[]>('endpoints', []);
+        return (Array.isArray(endpoints) ? endpoints : [])
+            .filter(endpoint => endpoint && typeof endpoint.url === 'string' && endpoint.url.trim() !== '')
+            .map(endpoint => ({ ...endpoint, url: this.normalizeUrl(endpoint.url) }));
+    }
+
+    static findEndpoint(url: string): EndpointConfig | undefined {
+        const normalized = this.normalizeUrl(url);
+        return this.getConfiguredEndpoints().find(endpoint => endpoint.url === normalized);
+    }
+
+    /**
+     * Headers, agent and proxy to use for a request to `url`.
+     * Read on every request so new tokens and settings apply without restarting.
+     */
+    static async getConnection(url: string): Promise<OllamaConnectionOptions> {
+        const endpoint = this.findEndpoint(url);
+        const secretHeaders = await this.getSecretHeaders(url);
+        const proxy = ProxySettings.resolve(url, endpoint?.proxy);
+        const isHttps = url.startsWith('https:');
+
+        // Plain HTTP goes to the proxy with the full URL; HTTPS is tunneled by the agent
+        const proxyHeaders: Record<string, string> = proxy && !isHttps && proxy.authorization
+            ? { 'Proxy-Authorization': proxy.authorization }
+            : {};
+
+        return {
+            headers: { ...proxyHeaders, ...(endpoint?.headers || {}), ...secretHeaders },
+            httpsAgent: isHttps ? this.getAgent(endpoint, proxy) : undefined,
+            proxy: proxy && !isHttps ? ProxySettings.toAxiosProxy(proxy) : false
+        };
+    }
+
+    static async getSecretHeaders(url: string): Promise<Record<string, string>> {
+        if (!this.secrets) {
+            return {};
+        }
+
+        const stored = await this.secrets.get(this.secretKey(url));
+        if (!stored) {
+            return {};
+        }
+
+        try {
+            const headers = JSON.parse(stored);
+            return headers && typeof headers === 'object' ? headers : {};
+        } catch {
+            return {};
+        }
+    }
+
+    static async setSecretHeader(url: string, name: string, value: string): Promise<void> {
+        if (!this.secrets) {
+            throw new Error('Secret storage is not available');
+        }
+
+        const headers = await this.getSecretHeaders(url);
+        headers[name] = value;
+        await this.secrets.store(this.secretKey(url), JSON.stringify(headers));
+    }
+
+    static async clearSecretHeaders(url: string): Promise<void> {
+        if (this.secrets) {
+            await this.secrets.delete(this.secretKey(url));
+        }
+    }
+
+    /**
+     * Drop cached agents so changed certificate settings are picked up
+     */
+    static clearAgentCache(): void {
+        this.agents.forEach(agent => agent.destroy());
+        this.agents.clear();
+    }
+
+    private static secretKey(url: string): string {
+        return `${this.SECRET_KEY_PREFIX}${this.normalizeUrl(url)}`;
+    }
+
+    private static getAgent(endpoint: EndpointConfig | undefined, proxy: ProxyConfig | undefined): https.Agent | undefined {
+        const caCertificate = endpoint?.caCertificate;
+        // Through a proxy, http.proxyStrictSSL can also turn certificate checks off
+        const rejectUnauthorized = endpoint?.rejectUnauthorized !== false && (!proxy || proxy.strictSSL);
+        if (!caCertificate && rejectUnauthorized && !proxy) {
+            return undefined;
+        }
+
+        const cacheKey = `${caCertificate || ''}|${rejectUnauthorized}|${proxy ? `${proxy.url}|${proxy.authorization || ''}` : ''}`;
+        let agent = this.agents.get(cacheKey);
+
+        if (!agent) {
+            let ca: string[] | undefined;
+            if (caCertificate) {
+                try {
+                    // Node replaces the default roots when `ca` is given, so keep them alongside the custom CA
+                    ca = [...tls.rootCertificates, fs.readFileSync(caCertificate, 'utf8')];
+                } catch (error) {
+                    throw new Error(`Cannot read CA certificate ${caCertificate}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+
+            agent = proxy
+                ? ProxySettings.createTunnelingAgent(proxy, { ca, rejectUnauthorized })
+                : new https.Agent({ ca, rejectUnauthorized, keepAlive: true });
+            this.agents.set(cacheKey, agent);
+        }
+
+        return agent;
+    }
+}
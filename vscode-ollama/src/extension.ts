@@ -2,9 +2,27 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { OllamaService } from './ollamaService';
+import { LoadedModel, OllamaService } from './ollamaService';
 import { OllamaPanel } from './ollamaPanel';
 import { OllamaManager, OllamaMode } from './ollamaManager';
+import { RequestTracker } from './utils';
+import { ProviderModel } from './providers/modelProvider';
+import { EndpointSettings } from './endpointSettings';
+import { RequestPriority, RequestScheduler, RequestSupersededError } from './requestScheduler';
+import {
+    EDIT_PROPOSAL_SCHEMA, EditProposal, REVIEW_FINDINGS_SCHEMA, ReviewFindings, StructuredOutputError
+} from './structuredOutput';
+import { UsageStats } from './usageStats';
+import { UsageDashboard } from './usageDashboard';
+import { ResponseCache, ResponseCacheEntry } from './responseCache';
+import { ModelsTreeProvider, ModelTreeItem } from './modelsView';
+import { ModelManager } from './modelManager';
+import { Modelfile, ModelfileDiagnostics, MODELFILE_LANGUAGE } from './modelfile';
+import { DownloadManager, DownloadTask } from './downloadManager';
+import { DownloadsPanel } from './downloadsPanel';
+import { ModelCapabilities } from './modelCapabilities';
+import { ModelRouter, RoutedTask } from './modelRouter';
+import { getGitRepository } from './git';
 
 // Create global output channels that are available even if extension fails to activate
 // IMPORTANT: These need to be exported and defined at the module level for VS Code to register them
@@ -94,6 +112,14 @@ export function ensureOutputChannelsCreated() {
     }
 }
 
+/**
+ * Returned from activate
+ */
+export interface OllamaEnhancedApi {
+    ollamaManager: OllamaManager;
+    getPanel(): OllamaPanel | undefined;
+}
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('Activating Ollama Extension...');
     
@@ -110,13 +136,28 @@ export function activate(context: vscode.ExtensionContext) {
     MAIN_OUTPUT_CHANNEL.appendLine(`Extension Mode: ${context.extensionMode === vscode.ExtensionMode.Development ? 'Development' : 'Production'}`);
     
     try {
+        // Secret endpoint headers are read from SecretStorage on each request
+        EndpointSettings.initialize(context);
+        
+        // Token and timing totals for the usage dashboard
+        UsageStats.initialize(context);
+        
+        // Replies to deterministic requests, reused when the same prompt runs again
+        ResponseCache.initialize(context);
+        
         // Initialize the Ollama manager
         MAIN_OUTPUT_CHANNEL.appendLine('Initializing Ollama manager...');
         // Pass the extension path and output channels to the manager
         const ollamaManager = new OllamaManager(context.extensionPath, SERVICE_OUTPUT_CHANNEL, API_OUTPUT_CHANNEL);
         
         // For backward compatibility, keep a reference to the system Ollama service
-        const ollamaService = ollamaManager['systemService'];
+        const ollamaService = ollamaManager.getSystemService();
+        
+        // Model downloads; ones interrupted by closing VS Code are picked up again
+        DownloadManager.initialize(context, () => ollamaManager.getSystemService());
+        
+        // What each model can do, for picking models automatically
+        ModelCapabilities.initialize(() => ollamaManager.getSystemService());
         
         // Add error handler to the global error handling
         process.on('uncaughtException', (error) => {
@@ -265,23 +306,9 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }
         
-        // Show progress for downloading the model
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Downloading ${modelName} model...`,
-            cancellable: false
-        }, async (progress) => {
-            try {
-                progress.report({ message: 'Downloading and installing model...' });
-                
-                // Use protected method
-                await ollamaService['pullModel'](modelName);
-                
-                vscode.window.showInformationMessage(`Successfully installed ${modelName} model!`);
-            } catch (error) {
-                vscode.window.showErrorMessage(`Failed to install model: ${error instanceof Error ? error.message : String(error)}`);
-            }
-        });
+        // The download runs in the background; the Downloads panel shows its progress
+        DownloadManager.enqueue(modelName, ollamaManager.getSystemService());
+        DownloadsPanel.createOrShow();
     });
     
     // Register command to install embedded models
@@ -319,6 +346,13 @@ export function activate(context: vscode.ExtensionContext) {
                     detail: 'Automatic mode that tries to use system Ollama first, then falls back to embedded if needed',
                     mode: OllamaMode.Auto,
                     picked: currentMode === OllamaMode.Auto
+                },
+                { 
+                    label: 'Mock Ollama', 
+                    description: 'Use a local fake server with scripted replies',
+                    detail: 'For demos and tests without Ollama; replies come from ollamaEnhanced.mock.scriptPath or echo the prompt',
+                    mode: OllamaMode.Mock,
+                    picked: currentMode === OllamaMode.Mock
                 }
             ];
             
@@ -337,18 +371,14 @@ export function activate(context: vscode.ExtensionContext) {
     // Register command to list and select Ollama models
     const listModelsCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.listModels', async () => {
         try {
-            const models = await ollamaService.listModels();
+            const models = await ollamaManager.getProvider().listModels();
             
             if (models.length === 0) {
                 // The service will handle showing an error and suggesting to install
                 return;
             }
             
-            const modelItems = models.map(model => ({
-                label: model.name,
-                detail: `Size: ${(model.size / 1024 / 1024 / 1024).toFixed(2)} GB`,
-                description: `Modified: ${new Date(model.modified_at).toLocaleString()}`
-            }));
+            const modelItems = models.map(toModelQuickPickItem);
             
             const selectedModel = await vscode.window.showQuickPick(modelItems, {
                 placeHolder: 'Select an Ollama model to use',
@@ -358,7 +388,7 @@ export function activate(context: vscode.ExtensionContext) {
             
             if (selectedModel) {
                 // Create the chat panel with the selected model
-                OllamaPanel.createOrShow(ollamaService);
+                OllamaPanel.createOrShow(ollamaManager, context);
                 if (OllamaPanel.currentPanel) {
                     OllamaPanel.currentPanel.setModel(selectedModel.label);
                 }
@@ -373,18 +403,14 @@ export function activate(context: vscode.ExtensionContext) {
     // Register command to run a model directly (opens the chat panel)
     const runModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.runModel', async () => {
         try {
-            const models = await ollamaService.listModels();
+            const models = await ollamaManager.getProvider().listModels();
             
             if (models.length === 0) {
                 // The service will handle showing an error and suggesting to install
                 return;
             }
             
-            const modelItems = models.map(model => ({
-                label: model.name,
-                detail: `Size: ${(model.size / 1024 / 1024 / 1024).toFixed(2)} GB`,
-                description: `Modified: ${new Date(model.modified_at).toLocaleString()}`
-            }));
+            const modelItems = models.map(toModelQuickPickItem);
             
             const selectedModel = await vscode.window.showQuickPick(modelItems, {
                 placeHolder: 'Select an Ollama model to use',
@@ -394,7 +420,7 @@ export function activate(context: vscode.ExtensionContext) {
             
             if (selectedModel) {
                 // Create the chat panel with the selected model
-                OllamaPanel.createOrShow(ollamaService);
+                OllamaPanel.createOrShow(ollamaManager, context);
                 if (OllamaPanel.currentPanel) {
                     OllamaPanel.currentPanel.setModel(selectedModel.label);
                 }
@@ -408,15 +434,15 @@ export function activate(context: vscode.ExtensionContext) {
     
     // Code editing and context menu commands
     const explainCodeCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.explainCode', async () => {
-        await executeCodeAction('Explain what this code does in detail:');
+        await executeCodeAction('Explain what this code does in detail:', 'explainCode', 'explain');
     });
     
     const improveCodeCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.improveCode', async () => {
-        await executeCodeAction('Improve this code. Consider performance, readability, and best practices:');
+        await executeCodeAction('Improve this code. Consider performance, readability, and best practices:', 'improveCode', 'explain');
     });
     
     const generateDocumentationCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.generateDocumentation', async () => {
-        await executeCodeAction('Generate comprehensive documentation for this code:');
+        await executeCodeAction('Generate comprehensive documentation for this code:', 'generateDocumentation', 'documentation');
     });
     
     // Command to add selected text as reference/context to the chat
@@ -448,7 +474,7 @@ export function activate(context: vscode.ExtensionContext) {
         
         try {
             // Make sure Ollama panel is visible
-            OllamaPanel.createOrShow(ollamaService);
+            OllamaPanel.createOrShow(ollamaManager, context);
             
             if (OllamaPanel.currentPanel) {
                 // Send the reference to the panel
@@ -476,7 +502,7 @@ export function activate(context: vscode.ExtensionContext) {
     );
     
     // Define function to execute code actions with selected text
-    const executeCodeAction = async (prompt: string) => {
+    const executeCodeAction = async (prompt: string, usageCommand: string, task: RoutedTask) => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
             vscode.window.showErrorMessage('No active text editor');
@@ -500,31 +526,22 @@ export function activate(context: vscode.ExtensionContext) {
         
         try {
             // Check for Ollama and models
-            const models = await ollamaService.listModels();
+            const models = await ollamaManager.getProvider().listModels();
             if (models.length === 0) {
                 return; // Service will handle errors
             }
             
-            // Use default model if configured, otherwise ask user to select
-            const configDefaultModel = vscode.workspace.getConfiguration('ollama').get('defaultModel') as string;
-            let modelToUse = configDefaultModel;
+            // Use the model configured for the task, otherwise ask user to select
+            let modelToUse = await ModelRouter.resolve(task, models, { automatic: false });
             
             if (!modelToUse) {
-                // Get models optimized for code
-                const codeModels = models.filter(model => 
-                    model.name.toLowerCase().includes('code') || 
-                    model.name.toLowerCase().includes('starcoder') ||
-                    model.name.toLowerCase().includes('codellama')
-                );
+                // Get models suited to code, best first
+                const codeModels = await ModelCapabilities.selectForTask(models, 'code');
                 
-                // If no code models, use all models
-                const modelsToShow = codeModels.length > 0 ? codeModels : models;
+                // If no code models, offer every model that can chat
+                const modelsToShow = codeModels.length > 0 ? codeModels : await ModelCapabilities.selectForTask(models, 'chat');
                 
-                const modelItems = modelsToShow.map(model => ({
-                    label: model.name,
-                    detail: `Size: ${(model.size / 1024 / 1024 / 1024).toFixed(2)} GB`,
-                    description: `Modified: ${new Date(model.modified_at).toLocaleString()}`
-                }));
+                const modelItems = modelsToShow.map(toModelQuickPickItem);
                 
                 const selectedModel = await vscode.window.showQuickPick(modelItems, {
                     placeHolder: 'Select a model for code analysis',
@@ -547,7 +564,7 @@ export function activate(context: vscode.ExtensionContext) {
             const fullPrompt = `${prompt}\n\nLanguage: ${fileExtension.replace('.', '') || 'Unknown'}\nCode:\n\`\`\`\n${selectedText}\n\`\`\``;
             
             // Create or show the OllamaPanel to display results
-            OllamaPanel.createOrShow(ollamaService);
+            OllamaPanel.createOrShow(ollamaManager, context);
             if (OllamaPanel.currentPanel) {
                 // Set the model to use
                 OllamaPanel.currentPanel.setModel(modelToUse);
@@ -555,7 +572,7 @@ export function activate(context: vscode.ExtensionContext) {
                 // Send the prompt to the panel with a delay to ensure context is captured
                 setTimeout(() => {
                     if (OllamaPanel.currentPanel) {
-                        OllamaPanel.currentPanel.sendPrompt(fullPrompt);
+                        OllamaPanel.currentPanel.sendPrompt(fullPrompt, usageCommand);
                     }
                 }, 500); // Small delay to ensure panel is ready
             }
@@ -711,6 +728,19 @@ export function activate(context: vscode.ExtensionContext) {
             const isInstalled = await ollamaService.checkOllamaInstalled();
             MAIN_OUTPUT_CHANNEL.appendLine(`Initial Ollama check result: ${isInstalled ? 'running' : 'not running'}`);
             
+            // Load the default model in the background so the first request doesn't pay for a cold start
+            // `ollama.defaultModel` is the model the chat and code actions fall back to
+            const modelToPreload = vscode.workspace.getConfiguration('ollama').get<string>('defaultModel');
+            if (isInstalled && modelToPreload && vscode.workspace.getConfiguration('ollamaEnhanced').get<boolean>('preloadDefaultModel', false)) {
+                MAIN_OUTPUT_CHANNEL.appendLine(`Preloading default model ${modelToPreload}...`);
+                RequestScheduler.schedule(() => ollamaService.preloadModel(modelToPreload), {
+                    priority: RequestPriority.Background,
+                    key: 'preload'
+                }).catch(error => {
+                    MAIN_OUTPUT_CHANNEL.appendLine(`Could not preload ${modelToPreload}: ${error instanceof Error ? error.message : String(error)}`);
+                });
+            }
+            
             // Update status bar after the check
             checkOllamaStatus(statusBarItem, ollamaService, MAIN_OUTPUT_CHANNEL);
         } catch (error) {
@@ -730,24 +760,49 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('ollama.apiUrl') || 
+                e.affectsConfiguration('ollamaEnhanced.apiUrls') ||
                 e.affectsConfiguration('ollama.defaultModel') ||
                 e.affectsConfiguration('ollama.includeProjectContext') ||
                 e.affectsConfiguration('ollama.showFileExplorer')) {
                     
                 // Recreate the Ollama service with the new URL
                 // This will pick up the new configuration value
-                const newOllamaService = new OllamaService(SERVICE_OUTPUT_CHANNEL, API_OUTPUT_CHANNEL);
+                const newOllamaService = ollamaManager.reloadSystemService();
                 
                 // If there's an active panel, dispose and recreate it
                 if (OllamaPanel.currentPanel) {
                     OllamaPanel.currentPanel.dispose();
-                    OllamaPanel.createOrShow(newOllamaService);
+                    OllamaPanel.createOrShow(ollamaManager, context);
                 }
                 
                 // Update status bar
                 MAIN_OUTPUT_CHANNEL.appendLine('Configuration changed, updating Ollama status...');
                 checkOllamaStatus(statusBarItem, newOllamaService, MAIN_OUTPUT_CHANNEL);
             }
+            
+            // The Models view marks the default model
+            if (e.affectsConfiguration('ollama.defaultModel')) {
+                modelsTreeProvider.refresh();
+            }
+            
+            if (e.affectsConfiguration('ollamaEnhanced.modelCapabilities')) {
+                ModelCapabilities.clear();
+                modelsTreeProvider.refresh();
+            }
+            
+            // Certificate files, TLS verification or proxies may have changed
+            if (e.affectsConfiguration('ollamaEnhanced.endpoints') || e.affectsConfiguration('http')) {
+                EndpointSettings.clearAgentCache();
+            }
+            
+            // Switching backends changes which models the chat panel can offer
+            if (e.affectsConfiguration('ollamaEnhanced.provider') ||
+                e.affectsConfiguration('ollamaEnhanced.openAiCompatible')) {
+                MAIN_OUTPUT_CHANNEL.appendLine(`Chat provider changed to ${ollamaManager.getProvider().displayName}`);
+                if (OllamaPanel.currentPanel) {
+                    OllamaPanel.currentPanel.refreshModels();
+                }
+            }
         })
     );
     
@@ -817,30 +872,13 @@ ${precedingText}
         
         try {
             // Get models
-            const models = await ollamaService.listModels();
+            const models = await ollamaManager.getProvider().listModels();
             if (models.length === 0) return;
             
-            // Use default model or code-optimized model
-            const configDefaultModel = vscode.workspace.getConfiguration('ollama').get('defaultModel') as string;
-            let modelToUse = configDefaultModel;
-            
+            // Use the completion model from the settings, otherwise the best suited installed model
+            const modelToUse = await ModelRouter.resolve('completion', models);
             if (!modelToUse) {
-                // Get code-optimized models
-                const codeModels = models.filter(model => 
-                    model.name.toLowerCase().includes('code') || 
-                    model.name.toLowerCase().includes('starcoder') ||
-                    model.name.toLowerCase().includes('codellama')
-                );
-                
-                // If there are code-optimized models, use the first one
-                if (codeModels.length > 0) {
-                    modelToUse = codeModels[0].name;
-                } else if (models.length > 0) {
-                    // Otherwise use the first available model
-                    modelToUse = models[0].name;
-                } else {
-                    return;
-                }
+                return;
             }
             
             // Show progress indicator
@@ -854,9 +892,27 @@ ${precedingText}
                 
                 progress.report({ message: 'Thinking...' });
                 
+                // Cancelling the notification closes the HTTP request
+                const requestController = RequestTracker.createRequestForToken('completion', token);
+                
                 try {
                     // Generate completion using non-streaming mode for better control
-                    const completion = await ollamaService.generateCompletion(modelToUse, prompt);
+                    // Completions jump ahead of queued chat and background requests
+                    const completion = await RequestScheduler.schedule(() => ollamaManager.getProvider().generate(modelToUse, prompt, {
+                        signal: requestController.signal,
+                        usageCommand: 'completeCode'
+                    }), {
+                        priority: RequestPriority.Interactive,
+                        key: 'completion',
+                        signal: requestController.signal,
+                        onQueuePosition: position => {
+                            if (position > 0) {
+                                progress.report({ message: `Waiting in queue (position ${position})...` });
+                            } else {
+                                progress.report({ message: 'Thinking...' });
+                            }
+                        }
+                    });
                     
                     // If completion is generated, insert it at cursor position
                     if (completion && !token.isCancellationRequested) {
@@ -870,7 +926,11 @@ ${precedingText}
                         });
                     }
                 } catch (error) {
-                    vscode.window.showErrorMessage(`Code completion failed: ${error instanceof Error ? error.message : String(error)}`);
+                    if (!requestController.signal.aborted && !(error instanceof RequestSupersededError)) {
+                        vscode.window.showErrorMessage(`Code completion failed: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                } finally {
+                    RequestTracker.completeRequest('completion', requestController);
                 }
             });
         } catch (error) {
@@ -878,6 +938,616 @@ ${precedingText}
         }
     });
 
+    // Register command to write a commit message for the changes in a Git repository
+    const generateCommitMessageCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.generateCommitMessage', async (sourceControl?: vscode.SourceControl) => {
+        const repository = await getGitRepository(sourceControl?.rootUri);
+        if (!repository) {
+            vscode.window.showErrorMessage('No Git repository is open.');
+            return;
+        }
+        
+        try {
+            // Describe the staged changes, or all changes when nothing is staged
+            const diff = await repository.diff(true) || await repository.diff(false);
+            if (!diff.trim()) {
+                vscode.window.showInformationMessage('There are no changes to describe.');
+                return;
+            }
+            
+            const models = await ollamaManager.getProvider().listModels();
+            const model = await ModelRouter.resolve('commitMessage', models);
+            if (!model) {
+                vscode.window.showInformationMessage('No model is installed that can write commit messages.');
+                return;
+            }
+            
+            // Large diffs are cut short; the start is enough for a summary line
+            const maxDiffLength = 12000;
+            const prompt = `Write a git commit message for the following changes. Start with a summary line of at most 72 characters in the imperative mood; ` +
+                `add a blank line and a short explanation only if the change needs one. Only return the commit message.
+
+\`\`\`diff
+${diff.length > maxDiffLength ? diff.substring(0, maxDiffLength) + '\n[diff truncated]' : diff}
+\`\`\``;
+            
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Writing commit message with ${model}...`,
+                cancellable: true
+            }, async (_progress, token) => {
+                const requestController = RequestTracker.createRequestForToken('commitMessage', token);
+                try {
+                    const message = await RequestScheduler.schedule(() => ollamaManager.getProvider().generate(model, prompt, {
+                        signal: requestController.signal,
+                        usageCommand: 'generateCommitMessage'
+                    }), {
+                        priority: RequestPriority.Interactive,
+                        key: 'commitMessage',
+                        signal: requestController.signal
+                    });
+                    
+                    if (message && !token.isCancellationRequested) {
+                        repository.inputBox.value = message
+                            .replace(/^```[\w]*\n?/m, '')
+                            .replace(/\n?```$/m, '')
+                            .trim();
+                    }
+                } catch (error) {
+                    if (!requestController.signal.aborted && !(error instanceof RequestSupersededError)) {
+                        vscode.window.showErrorMessage(`Commit message failed: ${error instanceof Error ? error.message : String(error)}`);
+                    }
+                } finally {
+                    RequestTracker.completeRequest('commitMessage', requestController);
+                }
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Commit message error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    // Register command to cancel every in-flight chat, completion and download
+    const cancelRequestCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.cancelRequest', () => {
+        if (RequestTracker.activeCount === 0) {
+            vscode.window.showInformationMessage('There is no Ollama request to cancel.');
+            return;
+        }
+        
+        MAIN_OUTPUT_CHANNEL.appendLine(`Cancelling ${RequestTracker.activeCount} Ollama request(s)`);
+        RequestTracker.abortAll();
+    });
+
+    // Register commands to manage secret headers (e.g. bearer tokens) for remote endpoints
+    const setEndpointAuthHeaderCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.setEndpointAuthHeader', async () => {
+        const url = await pickEndpointUrl('Select the endpoint that requires authentication');
+        if (!url) {
+            return;
+        }
+        
+        const headerName = await vscode.window.showInputBox({
+            prompt: `Header name to send to ${url}`,
+            value: 'Authorization',
+            validateInput: value => /^[A-Za-z0-9-]+$/.test(value.trim()) ? null : 'Enter a valid header name'
+        });
+        if (!headerName) {
+            return;
+        }
+        
+        const headerValue = await vscode.window.showInputBox({
+            prompt: `Value for ${headerName.trim()} (stored in VS Code secret storage)`,
+            placeHolder: headerName.trim().toLowerCase() === 'authorization' ? 'Bearer <token>' : undefined,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (!headerValue) {
+            return;
+        }
+        
+        try {
+            await EndpointSettings.setSecretHeader(url, headerName.trim(), headerValue);
+            MAIN_OUTPUT_CHANNEL.appendLine(`Stored secret header ${headerName.trim()} for ${url}`);
+            vscode.window.showInformationMessage(`Saved ${headerName.trim()} header for ${url}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save endpoint header: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    
+    const clearEndpointCredentialsCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.clearEndpointCredentials', async () => {
+        const url = await pickEndpointUrl('Select the endpoint whose secret headers should be removed');
+        if (!url) {
+            return;
+        }
+        
+        await EndpointSettings.clearSecretHeaders(url);
+        MAIN_OUTPUT_CHANNEL.appendLine(`Cleared secret headers for ${url}`);
+        vscode.window.showInformationMessage(`Removed stored credentials for ${url}`);
+    });
+    
+    // Register commands to inspect, load and unload models in server memory
+    // Models view in the activity bar; the service is looked up on each use because a changed API URL replaces it
+    const modelsTreeProvider = new ModelsTreeProvider(() => ollamaManager.getSystemService());
+    const modelsTreeView = vscode.window.createTreeView('ollamaEnhanced.models', {
+        treeDataProvider: modelsTreeProvider,
+        showCollapseAll: true
+    });
+    
+    const refreshModelsViewCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.refreshModelsView', () => {
+        modelsTreeProvider.refresh();
+    });
+    
+    const deleteModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.deleteModel', async (item: ModelTreeItem) => {
+        const confirmed = await vscode.window.showWarningMessage(
+            `Delete ${item.model.name} from the Ollama server?`,
+            { modal: true, detail: 'The model has to be pulled again to use it.' },
+            'Delete'
+        );
+        if (confirmed !== 'Delete') {
+            return;
+        }
+        
+        try {
+            await ollamaManager.getSystemService().deleteModel(item.model.name);
+            vscode.window.setStatusBarMessage(`Deleted ${item.model.name}`, 3000);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete ${item.model.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        modelsTreeProvider.refresh();
+    });
+    
+    const copyModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.copyModel', async (item: ModelTreeItem) => {
+        const destination = await promptForModelName(ollamaManager.getSystemService(), `Copy ${item.model.name} as`, `${item.model.name.split(':')[0]}-copy`);
+        if (!destination) {
+            return;
+        }
+        
+        try {
+            await ollamaManager.getSystemService().copyModel(item.model.name, destination);
+            vscode.window.setStatusBarMessage(`Copied ${item.model.name} to ${destination}`, 3000);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to copy ${item.model.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        modelsTreeProvider.refresh();
+    });
+    
+    const renameModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.renameModel', async (item: ModelTreeItem) => {
+        const service = ollamaManager.getSystemService();
+        const destination = await promptForModelName(service, `Rename ${item.model.name} to`, item.model.name);
+        if (!destination) {
+            return;
+        }
+        
+        try {
+            await ModelsTreeProvider.renameModel(service, item.model.name, destination);
+            vscode.window.setStatusBarMessage(`Renamed ${item.model.name} to ${destination}`, 3000);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to rename ${item.model.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        modelsTreeProvider.refresh();
+    });
+    
+    const setDefaultModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.setDefaultModel', async (item: ModelTreeItem) => {
+        await vscode.workspace.getConfiguration('ollama').update('defaultModel', item.model.name, vscode.ConfigurationTarget.Global);
+        vscode.window.setStatusBarMessage(`${item.model.name} is the default model`, 3000);
+    });
+    
+    const showModelfileCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.showModelfile', async (item: ModelTreeItem) => {
+        try {
+            const content = await modelsTreeProvider.getModelfile(item.model.name);
+            const document = await vscode.workspace.openTextDocument({ content, language: MODELFILE_LANGUAGE });
+            await vscode.window.showTextDocument(document, { preview: true });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to read the Modelfile of ${item.model.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    
+    // Custom models built from a Modelfile
+    const modelManager = new ModelManager(() => ollamaManager.getSystemService(), MAIN_OUTPUT_CHANNEL);
+    const modelfileDiagnostics = new ModelfileDiagnostics();
+    const modelsChangedListener = modelManager.onDidChangeModels(() => {
+        modelsTreeProvider.refresh();
+        if (OllamaPanel.currentPanel) {
+            OllamaPanel.currentPanel.refreshModels();
+        }
+    });
+    
+    const createModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.createModel', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== MODELFILE_LANGUAGE) {
+            // Start from a template rather than failing when no Modelfile is open
+            const baseModel = vscode.workspace.getConfiguration('ollama').get<string>('defaultModel') || 'llama3.2';
+            const document = await vscode.workspace.openTextDocument({ content: Modelfile.starter(baseModel), language: MODELFILE_LANGUAGE });
+            await vscode.window.showTextDocument(document);
+            vscode.window.showInformationMessage('Edit the Modelfile, then run "Create Model" again to build it.');
+            return;
+        }
+        
+        const modelfileText = editor.document.getText();
+        const errors = Modelfile.parse(modelfileText).issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            vscode.window.showErrorMessage(`Fix the ${errors.length} error(s) in the Modelfile first, see the Problems panel.`);
+            return;
+        }
+        
+        // A Modelfile saved as e.g. reviewer.modelfile suggests the name "reviewer"
+        const fileName = editor.document.isUntitled ? '' : path.basename(editor.document.fileName).replace(/\.modelfile$/i, '');
+        const name = (await vscode.window.showInputBox({
+            prompt: 'Name of the new model',
+            value: fileName && fileName.toLowerCase() !== 'modelfile' ? fileName : 'my-assistant',
+            validateInput: input => ModelsTreeProvider.validateModelName(input, [])
+        }))?.trim();
+        if (!name) {
+            return;
+        }
+        
+        const existing = (await modelManager.listModels(true)).map(model => model.name);
+        if (existing.includes(name) || existing.includes(`${name}:latest`)) {
+            const overwrite = await vscode.window.showWarningMessage(`${name} already exists. Replace it?`, { modal: true }, 'Replace');
+            if (overwrite !== 'Replace') {
+                return;
+            }
+        }
+        
+        try {
+            const created = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Creating ${name}`,
+                cancellable: true
+            }, async (progress, token) => {
+                // Tracked so that the cancel command also stops it
+                const requestId = `create:${name}`;
+                const controller = RequestTracker.createRequestForToken(requestId, token);
+                try {
+                    return await modelManager.createModel(name, modelfileText, status => progress.report({ message: status.status }), controller.signal);
+                } finally {
+                    RequestTracker.completeRequest(requestId, controller);
+                }
+            });
+            if (!created) {
+                return;
+            }
+            
+            const choice = await vscode.window.showInformationMessage(`Created model ${created.name}`, 'Chat with It', 'Set as Default');
+            if (choice === 'Set as Default') {
+                await vscode.workspace.getConfiguration('ollama').update('defaultModel', created.name, vscode.ConfigurationTarget.Global);
+            } else if (choice === 'Chat with It') {
+                OllamaPanel.createOrShow(ollamaManager, context);
+                if (OllamaPanel.currentPanel) {
+                    OllamaPanel.currentPanel.setModel(created.name);
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to create ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    
+    // Downloads: a status bar summary while they run, and a message when each one ends
+    const downloadStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    downloadStatusItem.command = 'vscode-ollama-enhanced.showDownloads';
+    let lastDownloadStates = new Map<string, string>();
+    
+    const announceDownload = (task: DownloadTask) => {
+        switch (task.state) {
+            case 'completed':
+                ModelCapabilities.clear(task.model);
+                modelsTreeProvider.refresh();
+                if (OllamaPanel.currentPanel) {
+                    OllamaPanel.currentPanel.refreshModels();
+                }
+                vscode.window.showInformationMessage(`Downloaded ${task.model}`);
+                break;
+            case 'failed':
+                vscode.window.showErrorMessage(`Failed to download ${task.model}: ${task.error}`, 'Retry', 'Browse Models').then(selection => {
+                    if (selection === 'Retry') {
+                        DownloadManager.resume(task.model);
+                    } else if (selection === 'Browse Models') {
+                        vscode.env.openExternal(vscode.Uri.parse('https://ollama.com/library'));
+                    }
+                });
+                break;
+            case 'interrupted':
+                vscode.window.showWarningMessage(`Download of ${task.model} was interrupted: ${task.error}`, 'Resume').then(selection => {
+                    if (selection === 'Resume') {
+                        DownloadManager.resume(task.model);
+                    }
+                });
+                break;
+        }
+    };
+    
+    const downloadListener = DownloadManager.onDidChange(task => {
+        const tasks = DownloadManager.getTasks();
+        const running = tasks.filter(candidate => candidate.state === 'downloading' || candidate.state === 'queued');
+        if (running.length > 0) {
+            const totals = running.map(candidate => DownloadManager.getTotals(candidate))
+                .reduce((sum, item) => ({ completed: sum.completed + item.completed, total: sum.total + item.total }), { completed: 0, total: 0 });
+            const percent = totals.total > 0 ? ` ${Math.floor(totals.completed / totals.total * 100)}%` : '';
+            downloadStatusItem.text = `$(cloud-download) ${running.length === 1 ? running[0].model : `${running.length} downloads`}${percent}`;
+            downloadStatusItem.tooltip = running.map(candidate => `${candidate.model}: ${candidate.status}`).join('\n');
+            downloadStatusItem.show();
+        } else {
+            downloadStatusItem.hide();
+        }
+        
+        // Only the change into a final state is announced, not every progress update
+        if (task && lastDownloadStates.get(task.model) !== task.state) {
+            announceDownload(task);
+        }
+        lastDownloadStates = new Map(tasks.map(candidate => [candidate.model, candidate.state]));
+    });
+    
+    const showDownloadsCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.showDownloads', () => {
+        DownloadsPanel.createOrShow();
+    });
+    
+    const showLoadedModelsCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.showLoadedModels', async () => {
+        const service = ollamaManager.getSystemService();
+        try {
+            const selected = await pickLoadedModel(service, 'Models loaded in memory - select one to unload it');
+            if (!selected) {
+                return;
+            }
+            
+            const action = await vscode.window.showInformationMessage(
+                `${selected.model.name} uses ${formatMemory(selected.model.size)}.`,
+                'Unload'
+            );
+            if (action === 'Unload') {
+                await service.unloadModel(selected.model.name, selected.endpoint);
+                vscode.window.setStatusBarMessage(`Unloaded ${selected.model.name}`, 3000);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to list loaded models: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    
+    const unloadModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.unloadModel', async () => {
+        const service = ollamaManager.getSystemService();
+        try {
+            const selected = await pickLoadedModel(service, 'Select a model to unload from memory');
+            if (selected) {
+                await service.unloadModel(selected.model.name, selected.endpoint);
+                vscode.window.setStatusBarMessage(`Unloaded ${selected.model.name}`, 3000);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to unload model: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    
+    const preloadModelCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.preloadModel', async () => {
+        const service = ollamaManager.getSystemService();
+        try {
+            const models = await service.listModels();
+            if (models.length === 0) {
+                return;
+            }
+            
+            const selectedModel = await vscode.window.showQuickPick(models.map(toModelQuickPickItem), {
+                placeHolder: 'Select a model to load into memory'
+            });
+            if (!selectedModel) {
+                return;
+            }
+            
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Loading ${selectedModel.label} into memory...`
+            }, () => service.preloadModel(selectedModel.label));
+            
+            vscode.window.setStatusBarMessage(`${selectedModel.label} is loaded`, 3000);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to preload model: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+    
+    // Register commands that ask the model for JSON instead of markdown
+    const reviewDiagnostics = vscode.languages.createDiagnosticCollection('ollama-review');
+
+    const reviewCodeCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.reviewCode', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const range = editor.selection.isEmpty
+            ? new vscode.Range(0, 0, editor.document.lineCount, 0)
+            : new vscode.Range(editor.selection.start.line, 0, editor.selection.end.line + 1, 0);
+        const code = editor.document.getText(range);
+        const numberedCode = code.split('\n').map((line, index) => `${index + 1}: ${line}`).join('\n');
+
+        try {
+            const service = ollamaManager.getSystemService();
+            const model = await pickStructuredModel(service);
+            if (!model) {
+                return;
+            }
+
+            const result = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Reviewing code with ${model}...`
+            }, progress => RequestScheduler.schedule(() => service.generateStructured<ReviewFindings>(
+                model,
+                `Review the following ${editor.document.languageId} code for bugs, risky patterns and readability problems. ` +
+                `Each line starts with its line number. Report each problem with the line it occurs on.\n\n${numberedCode}`,
+                REVIEW_FINDINGS_SCHEMA,
+                { usageCommand: 'reviewCode' }
+            ), {
+                priority: RequestPriority.Interactive,
+                onQueuePosition: position => {
+                    if (position > 0) {
+                        progress.report({ message: `Waiting in queue (position ${position})...` });
+                    }
+                }
+            }));
+
+            const severities = {
+                error: vscode.DiagnosticSeverity.Error,
+                warning: vscode.DiagnosticSeverity.Warning,
+                info: vscode.DiagnosticSeverity.Information
+            };
+            const diagnostics = result.findings.map(finding => {
+                const line = Math.min(
+                    range.start.line + Math.max(0, finding.line - 1),
+                    editor.document.lineCount - 1
+                );
+                const diagnostic = new vscode.Diagnostic(
+                    editor.document.lineAt(line).range,
+                    finding.suggestion ? `${finding.message}\nSuggestion: ${finding.suggestion}` : finding.message,
+                    severities[finding.severity]
+                );
+                diagnostic.source = 'Ollama review';
+                return diagnostic;
+            });
+
+            reviewDiagnostics.set(editor.document.uri, diagnostics);
+            vscode.window.showInformationMessage(
+                diagnostics.length > 0 ? `Review found ${diagnostics.length} issue(s), see the Problems panel.` : 'Review found no issues.'
+            );
+        } catch (error) {
+            if (error instanceof StructuredOutputError) {
+                API_OUTPUT_CHANNEL.appendLine(`Rejected review output: ${error.rawResponse}`);
+            }
+            vscode.window.showErrorMessage(`Code review failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    const suggestEditsCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.suggestEdits', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.selection.isEmpty) {
+            vscode.window.showInformationMessage('Select the code you want edits for.');
+            return;
+        }
+
+        const instruction = await vscode.window.showInputBox({
+            prompt: 'What should be changed?',
+            placeHolder: 'e.g. Add error handling'
+        });
+        if (!instruction) {
+            return;
+        }
+
+        const selection = editor.selection;
+        const document = editor.document;
+        const code = document.getText(selection);
+
+        try {
+            const service = ollamaManager.getSystemService();
+            const model = await pickStructuredModel(service);
+            if (!model) {
+                return;
+            }
+
+            const proposal = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Generating edits with ${model}...`
+            }, progress => RequestScheduler.schedule(() => service.generateStructured<EditProposal>(
+                model,
+                `${instruction}\n\nPropose edits to the following ${document.languageId} code. ` +
+                `Each edit replaces an exact, unique piece of the original code.\n\n${code}`,
+                EDIT_PROPOSAL_SCHEMA,
+                { usageCommand: 'suggestEdits' }
+            ), {
+                priority: RequestPriority.Interactive,
+                onQueuePosition: position => {
+                    if (position > 0) {
+                        progress.report({ message: `Waiting in queue (position ${position})...` });
+                    }
+                }
+            }));
+
+            // Only edits whose original text can be found in the selection can be applied
+            const applicable = proposal.edits
+                .map(edit => ({ edit, offset: code.indexOf(edit.originalCode) }))
+                .filter(entry => entry.edit.originalCode !== '' && entry.offset !== -1);
+            if (applicable.length === 0) {
+                vscode.window.showInformationMessage(`No applicable edits proposed. ${proposal.summary}`);
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(applicable.map(entry => ({
+                label: entry.edit.description,
+                detail: entry.edit.newCode.split('\n')[0],
+                picked: true,
+                entry
+            })), {
+                canPickMany: true,
+                placeHolder: proposal.summary
+            });
+            if (!picked || picked.length === 0) {
+                return;
+            }
+
+            const selectionStart = document.offsetAt(selection.start);
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            picked.forEach(({ entry }) => {
+                const start = document.positionAt(selectionStart + entry.offset);
+                const end = document.positionAt(selectionStart + entry.offset + entry.edit.originalCode.length);
+                workspaceEdit.replace(document.uri, new vscode.Range(start, end), entry.edit.newCode);
+            });
+
+            if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+                vscode.window.showErrorMessage('Could not apply the edits - some of them overlap.');
+            }
+        } catch (error) {
+            if (error instanceof StructuredOutputError) {
+                API_OUTPUT_CHANNEL.appendLine(`Rejected edit proposal: ${error.rawResponse}`);
+            }
+            vscode.window.showErrorMessage(`Suggest edits failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    });
+
+    const showUsageDashboardCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.showUsageDashboard', () => {
+        UsageDashboard.createOrShow();
+    });
+    
+    const setSessionGenerationOptionsCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.setSessionGenerationOptions', async () => {
+        if (!OllamaPanel.currentPanel) {
+            vscode.window.showInformationMessage('Open a chat with "Ollama Enhanced: Run Model" first.');
+            return;
+        }
+        await OllamaPanel.currentPanel.editSessionGenerationOptions();
+    });
+    
+    const inspectResponseCacheCommand = vscode.commands.registerCommand('vscode-ollama-enhanced.inspectResponseCache', async () => {
+        const entries = await ResponseCache.list();
+        const totalSize = entries.reduce((total, item) => total + item.size, 0);
+        
+        const items: (vscode.QuickPickItem & { entry?: ResponseCacheEntry })[] = [
+            {
+                label: '$(trash) Clear response cache',
+                description: `${entries.length} entries, ${(totalSize / 1024).toFixed(1)} KB`
+            },
+            ...entries.map(({ entry, size, lastUsed }) => ({
+                label: `${entry.command} · ${entry.model}`,
+                description: `${(size / 1024).toFixed(1)} KB, last used ${new Date(lastUsed).toLocaleString()}`,
+                detail: entry.promptPreview.replace(/\s+/g, ' '),
+                entry
+            }))
+        ];
+        
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: ResponseCache.isEnabled()
+                ? 'Select a cached reply to view it'
+                : 'The response cache is disabled (ollamaEnhanced.responseCache.enabled)',
+            matchOnDetail: true
+        });
+        if (!selected) {
+            return;
+        }
+        
+        if (!selected.entry) {
+            await ResponseCache.clear();
+            vscode.window.setStatusBarMessage('Response cache cleared', 3000);
+            return;
+        }
+        
+        const entry = selected.entry;
+        const document = await vscode.workspace.openTextDocument({
+            language: 'markdown',
+            content: `<!-- ${entry.command} with ${entry.model}, cached ${new Date(entry.createdAt).toLocaleString()} -->\n` +
+                `<!-- Options: ${JSON.stringify(entry.options)} -->\n\n${entry.content}`
+        });
+        await vscode.window.showTextDocument(document);
+    });
+    
     // Add commands to context
     context.subscriptions.push(
         debugCommand,
@@ -892,6 +1562,32 @@ ${precedingText}
         generateDocumentationCommand,
         addAsReferenceCommand,
         completeCodeCommand,
+        generateCommitMessageCommand,
+        cancelRequestCommand,
+        setEndpointAuthHeaderCommand,
+        clearEndpointCredentialsCommand,
+        modelsTreeView,
+        refreshModelsViewCommand,
+        deleteModelCommand,
+        copyModelCommand,
+        renameModelCommand,
+        setDefaultModelCommand,
+        showModelfileCommand,
+        modelfileDiagnostics,
+        modelsChangedListener,
+        createModelCommand,
+        downloadStatusItem,
+        downloadListener,
+        showDownloadsCommand,
+        showLoadedModelsCommand,
+        unloadModelCommand,
+        preloadModelCommand,
+        reviewCodeCommand,
+        suggestEditsCommand,
+        reviewDiagnostics,
+        showUsageDashboardCommand,
+        setSessionGenerationOptionsCommand,
+        inspectResponseCacheCommand,
         completionProvider,
         statusBarItem
     );
@@ -919,8 +1615,9 @@ ${precedingText}
     MAIN_OUTPUT_CHANNEL.appendLine('Ollama extension activation completed successfully');
     MAIN_OUTPUT_CHANNEL.show(true); // Show the output channel (preserves focus)
     
-    // Export ollamaManager for proper cleanup during deactivation
-    return { ollamaManager };
+    // Export ollamaManager for proper cleanup during deactivation, and the chat panel for the integration tests
+    const api: OllamaEnhancedApi = { ollamaManager, getPanel: () => OllamaPanel.currentPanel };
+    return api;
     
     } catch (error) {
         // Log any errors during activation
@@ -947,6 +1644,104 @@ ${precedingText}
     }
 }
 
+// Ask which endpoint to configure, offering every known server URL plus a custom one
+async function pickEndpointUrl(placeHolder: string): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration();
+    const candidates = [
+        ...EndpointSettings.getConfiguredEndpoints().map(endpoint => endpoint.url),
+        config.get<string>('ollama.apiUrl'),
+        config.get<string>('ollamaEnhanced.apiUrl'),
+        config.get<string>('ollamaEnhanced.openAiCompatible.baseUrl')
+    ].filter((url): url is string => !!url).map(url => EndpointSettings.normalizeUrl(url));
+    
+    const otherUrl = 'Other URL...';
+    const picked = await vscode.window.showQuickPick([...new Set(candidates), otherUrl], { placeHolder });
+    
+    if (picked !== otherUrl) {
+        return picked;
+    }
+    
+    const url = await vscode.window.showInputBox({
+        prompt: 'Endpoint URL',
+        placeHolder: 'https://ollama.example.com',
+        validateInput: value => /^https?:\/\/\S+$/.test(value.trim()) ? null : 'Enter an http:// or https:// URL'
+    });
+    return url ? EndpointSettings.normalizeUrl(url) : undefined;
+}
+
+// Ask which loaded model to act on; returns undefined when nothing is loaded or the pick is dismissed
+async function pickLoadedModel(ollamaService: OllamaService, placeHolder: string): Promise<LoadedModel | undefined> {
+    const loaded = await ollamaService.listLoadedModels();
+    if (loaded.length === 0) {
+        vscode.window.showInformationMessage('No models are loaded in memory.');
+        return undefined;
+    }
+    
+    const showEndpoint = new Set(loaded.map(entry => entry.endpoint)).size > 1;
+    const items = loaded.map(entry => {
+        const gpuShare = entry.model.size > 0 ? Math.round((entry.model.size_vram / entry.model.size) * 100) : 0;
+        const expiresAt = new Date(entry.model.expires_at);
+        // keep_alive -1 is reported as an expiry far in the future
+        const expiry = expiresAt.getFullYear() > 2100
+            ? 'Stays loaded until unloaded'
+            : `Unloads at ${expiresAt.toLocaleTimeString()}`;
+        
+        return {
+            label: entry.model.name,
+            description: `${formatMemory(entry.model.size)} (${gpuShare > 0 ? `${gpuShare}% GPU` : 'CPU'})`,
+            detail: showEndpoint ? `${expiry} - ${entry.endpoint}` : expiry,
+            entry
+        };
+    });
+    
+    const selected = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true });
+    return selected?.entry;
+}
+
+// Ask for the name of a new model, rejecting names that are invalid or already installed
+async function promptForModelName(ollamaService: OllamaService, prompt: string, value: string): Promise<string | undefined> {
+    const existing = (await ollamaService.listModels()).map(model => model.name);
+    const name = await vscode.window.showInputBox({
+        prompt,
+        value,
+        validateInput: input => ModelsTreeProvider.validateModelName(input, existing)
+    });
+    return name?.trim();
+}
+
+// Model for structured output: the code explanation model from the settings, otherwise ask.
+// Structured output needs Ollama's format parameter, so this always uses the Ollama service.
+async function pickStructuredModel(ollamaService: OllamaService): Promise<string | undefined> {
+    const models = await RequestScheduler.schedule(() => ollamaService.listModels(), { priority: RequestPriority.Interactive });
+    if (models.length === 0) {
+        vscode.window.showInformationMessage('No Ollama models are installed.');
+        return undefined;
+    }
+
+    const routed = await ModelRouter.resolve('explain', models, { automatic: false });
+    if (routed) {
+        return routed;
+    }
+
+    const selected = await vscode.window.showQuickPick(models.map(toModelQuickPickItem), {
+        placeHolder: 'Select a model'
+    });
+    return selected?.label;
+}
+
+function formatMemory(bytes: number): string {
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+// Quick pick entry for a model; size and date are only shown when the provider reports them
+function toModelQuickPickItem(model: ProviderModel): vscode.QuickPickItem {
+    return {
+        label: model.name,
+        detail: model.size !== undefined ? `Size: ${(model.size / 1024 / 1024 / 1024).toFixed(2)} GB` : undefined,
+        description: model.modified_at ? `Modified: ${new Date(model.modified_at).toLocaleString()}` : undefined
+    };
+}
+
 // Check if Ollama is installed and running, update status bar accordingly
 async function checkOllamaStatus(statusBarItem: vscode.StatusBarItem, ollamaService: OllamaService, outputChannel: vscode.OutputChannel) {
     outputChannel.appendLine(`Checking Ollama status at ${new Date().toISOString()}...`);
@@ -978,7 +1773,11 @@ async function checkOllamaStatus(statusBarItem: vscode.StatusBarItem, ollamaServ
         console.log("Checking Ollama status...");
         
         // Try to check if Ollama is installed and running
-        const isInstalled = await ollamaService.checkOllamaInstalled();
+        // Status polling waits behind completions and chat, and a newer poll replaces a queued one
+        const isInstalled = await RequestScheduler.schedule(() => ollamaService.checkOllamaInstalled(), {
+            priority: RequestPriority.Background,
+            key: 'statusCheck'
+        });
         
         // Clear the timeout since we got a response
         clearTimeout(statusCheckTimeout);
@@ -992,7 +1791,10 @@ async function checkOllamaStatus(statusBarItem: vscode.StatusBarItem, ollamaServ
             
             // Try to get available models to show more information
             try {
-                const models = await ollamaService.listModels();
+                const models = await RequestScheduler.schedule(() => ollamaService.listModels(), {
+                    priority: RequestPriority.Background,
+                    key: 'statusModels'
+                });
                 if (models.length > 0) {
                     const defaultModel = vscode.workspace.getConfiguration('ollama').get('defaultModel') as string;
                     if (defaultModel && models.some(m => m.name === defaultModel)) {
@@ -1017,6 +1819,11 @@ async function checkOllamaStatus(statusBarItem: vscode.StatusBarItem, ollamaServ
         // Clear the timeout since we got an error
         clearTimeout(statusCheckTimeout);
         
+        // A newer status check is already queued and will update the status bar
+        if (e instanceof RequestSupersededError) {
+            return;
+        }
+        
         console.error("Error checking Ollama status:", e);
         statusBarItem.text = "$(error) Ollama: Error";
         statusBarItem.tooltip = `Error checking Ollama status: ${e instanceof Error ? e.message : String(e)}. Click to retry.`;
@@ -1032,6 +1839,10 @@ export function deactivate() {
     console.log('Deactivating Ollama Extension...');
     
     try {
+        // Stop any generation or download that is still running, and drop queued requests
+        RequestTracker.abortAll();
+        RequestScheduler.clearQueue();
+        
         // Dispose of any resources when the extension is deactivated
         if (OllamaPanel.currentPanel) {
             console.log('Disposing OllamaPanel...');
@@ -0,0 +1,150 @@
+/**
+ * Ollama model options from settings, per-command overrides and chat sessions
+ */
+import * as vscode from 'vscode';
+import { OllamaOptions } from './ollamaApi';
+
+type OptionType = 'integer' | 'number' | 'boolean' | 'stringArray';
+
+interface OptionSpec {
+    type: OptionType;
+    minimum?: number;
+    maximum?: number;
+}
+
+/**
+ * Every option accepted in the `options` field of Ollama requests, with its valid range
+ */
+const OPTION_SPECS: Record<string, OptionSpec> = {
+    // Sampling
+    temperature: { type: 'number', minimum: 0, maximum: 2 },
+    top_k: { type: 'integer', minimum: 0 },
+    top_p: { type: 'number', minimum: 0, maximum: 1 },
+    min_p: { type: 'number', minimum: 0, maximum: 1 },
+    typical_p: { type: 'number', minimum: 0, maximum: 1 },
+    seed: { type: 'integer' },
+    stop: { type: 'stringArray' },
+    mirostat: { type: 'integer', minimum: 0, maximum: 2 },
+    mirostat_tau: { type: 'number', minimum: 0 },
+    mirostat_eta: { type: 'number', minimum: 0 },
+    // Repetition
+    repeat_penalty: { type: 'number', minimum: 0 },
+    repeat_last_n: { type: 'integer', minimum: -1 },
+    presence_penalty: { type: 'number', minimum: -2, maximum: 2 },
+    frequency_penalty: { type: 'number', minimum: -2, maximum: 2 },
+    penalize_newline: { type: 'boolean' },
+    // Length and context; -1 generates until the model stops, -2 until the context is full
+    num_predict: { type: 'integer', minimum: -2 },
+    num_ctx: { type: 'integer', minimum: 256 },
+    num_keep: { type: 'integer', minimum: -1 },
+    // Runtime
+    num_batch: { type: 'integer', minimum: 1 },
+    num_thread: { type: 'integer', minimum: 1 },
+    num_gpu: { type: 'integer', minimum: -1 },
+    main_gpu: { type: 'integer', minimum: 0 },
+    use_mmap: { type: 'boolean' },
+    numa: { type: 'boolean' }
+};
+
+export class GenerationOptions {
+    /** Validation messages already shown, so a bad setting warns once instead of on every request */
+    private static reportedErrors = new Set<string>();
+
+    static readonly NAMES = Object.keys(OPTION_SPECS);
+
+    /**
+     * Keep the valid options of `value` and describe the rest
+     */
+    static validate(value: unknown): { options: OllamaOptions, errors: string[] } {
+        const options: OllamaOptions = {};
+        const errors: string[] = [];
+
+        if (value === undefined || value === null) {
+            return { options, errors };
+        }
+        if (typeof value !== 'object' || Array.isArray(value)) {
+            return { options, errors: ['Generation options must be an object'] };
+        }
+
+        for (const [name, optionValue] of Object.entries(value as Record<string, unknown>)) {
+            const spec = OPTION_SPECS[name];
+            if (!spec) {
+                errors.push(`Unknown option '${name}'`);
+                continue;
+            }
+
+            const error = this.checkValue(optionValue, spec);
+            if (error) {
+                errors.push(`'${name}' ${error}`);
+            } else {
+                options[name] = optionValue;
+            }
+        }
+
+        return { options, errors };
+    }
+
+    /**
+     * Options for a request: `ollamaEnhanced.generationOptions`, then the overrides for the command
+     * in `ollamaEnhanced.commandGenerationOptions`, then the caller's overrides (e.g. a chat session's)
+     */
+    static resolve(command: string, overrides?: OllamaOptions): OllamaOptions {
+        const config = vscode.workspace.getConfiguration('ollamaEnhanced');
+        const commandOptions = config.get<Record<string, unknown>>('commandGenerationOptions', {}) || {};
+
+        return {
+            ...this.validated(config.get('generationOptions'), 'ollamaEnhanced.generationOptions'),
+            ...this.validated(commandOptions[command], `ollamaEnhanced.commandGenerationOptions.${command}`),
+            ...this.validated(overrides, `${command} overrides`)
+        };
+    }
+
+    /**
+     * Short description of options for logs and tooltips, e.g. `seed=42, temperature=0.2`
+     */
+    static describe(options: OllamaOptions): string {
+        return Object.keys(options)
+            .sort()
+            .filter(name => options[name] !== undefined)
+            .map(name => `${name}=${JSON.stringify(options[name])}`)
+            .join(', ');
+    }
+
+    private static validated(value: unknown, source: string): OllamaOptions {
+        const { options, errors } = this.validate(value);
+        if (errors.length > 0) {
+            const message = `Ignoring invalid generation options in ${source}: ${errors.join('; ')}`;
+            if (!this.reportedErrors.has(message)) {
+                this.reportedErrors.add(message);
+                console.warn(message);
+                vscode.window.showWarningMessage(message);
+            }
+        }
+        return options;
+    }
+
+    private static checkValue(value: unknown, spec: OptionSpec): string | undefined {
+        switch (spec.type) {
+            case 'boolean':
+                return typeof value === 'boolean' ? undefined : 'must be true or false';
+            case 'stringArray':
+                return Array.isArray(value) && value.every(item => typeof item === 'string')
+                    ? undefined
+                    : 'must be a list of strings';
+            default:
+                if (typeof value !== 'number' || !Number.isFinite(value)) {
+                    return 'must be a number';
+                }
+                if (spec.type === 'integer' && !Number.isInteger(value)) {
+                    return 'must be a whole number';
+                }
+                if (spec.minimum !== undefined && value < spec.minimum) {
+                    return `must be at least ${spec.minimum}`;
+                }
+                if (spec.maximum !== undefined && value > spec.maximum) {
+                    return `must be at most ${spec.maximum}`;
+                }
+                return undefined;
+        }
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Access to repositories through the API of VS Code's built-in Git extension
+ */
+import * as vscode from 'vscode';
+
+/**
+ * The parts of a Git extension repository that the extension uses
+ */
+export interface GitRepository {
+    rootUri: vscode.Uri;
+    inputBox: { value: string };
+    /** Unified diff of the staged changes when `cached` is true, otherwise of the unstaged changes */
+    diff(cached?: boolean): Promise<string>;
+}
+
+interface GitExtension {
+    getAPI(version: 1): { repositories: GitRepository[] };
+}
+
+/**
+ * The repository with the given root, otherwise the one containing the active file or the only one open
+ */
+export async function getGitRepository(rootUri?: vscode.Uri): Promise<GitRepository | undefined> {
+    const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+    if (!extension) {
+        return undefined;
+    }
+
+    const { repositories } = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+    if (rootUri) {
+        return repositories.find(repository => repository.rootUri.toString() === rootUri.toString());
+    }
+
+    const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+    return repositories.find(repository => activeFile?.startsWith(repository.rootUri.fsPath)) || repositories[0];
+}
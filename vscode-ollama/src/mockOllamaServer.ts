@@ -0,0 +1,591 @@
+/**
+ * Local fake Ollama server for offline demos and integration tests
+ */
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { ChatMessage, GenerationStats, ModelInfo, ProgressResponse, ToolCall } from './ollamaApi';
+
+/**
+ * API routes the mock server answers
+ */
+export type MockEndpoint = 'tags' | 'generate' | 'chat' | 'pull' | 'show' | 'ps' | 'version' | 'copy' | 'delete' | 'create';
+
+export interface MockModel {
+    name: string;
+    size?: number;
+    digest?: string;
+    family?: string;
+    contextLength?: number;
+    /** Reported by /api/show, e.g. `tools` or `vision` */
+    capabilities?: string[];
+    /** Returned by /api/show; models created through /api/create keep their request */
+    modelfile?: string;
+}
+
+/**
+ * A scripted reply for generate and chat requests whose prompt (or latest user message) matches `match`
+ */
+export interface MockReply {
+    /** Regular expression, case-insensitive; a reply without one matches every prompt */
+    match?: string;
+    content: string;
+    /** Tool calls sent with the reply, for chat requests */
+    toolCalls?: ToolCall[];
+}
+
+/**
+ * A failure injected into the next requests to an endpoint
+ */
+export interface MockFailure {
+    endpoint: MockEndpoint | '*';
+    /** HTTP status of the error response (default 500) */
+    status?: number;
+    /** Message in the `error` field of the response */
+    error?: string;
+    /** Wait before failing, e.g. longer than the request timeout to simulate a stalled server */
+    delayMs?: number;
+    /** For streamed responses, send this many chunks before failing with an `error` record */
+    afterChunks?: number;
+    /** Close the connection without a response instead of sending an error */
+    disconnect?: boolean;
+    /** Number of requests that fail (default 1, 0 for every request until cleared) */
+    times?: number;
+}
+
+/**
+ * Models, replies and failures of the mock server, as set in the file of `ollamaEnhanced.mock.scriptPath`
+ */
+export interface MockScript {
+    models?: MockModel[];
+    replies?: MockReply[];
+    /** Reply when no scripted reply matches; by default the prompt is echoed back */
+    defaultReply?: string;
+    /** Delay between streamed chunks */
+    chunkDelayMs?: number;
+    failures?: MockFailure[];
+}
+
+/**
+ * A request received by the mock server, for assertions in tests
+ */
+export interface MockRequestRecord {
+    endpoint: MockEndpoint;
+    method: string;
+    body: Record<string, unknown> | undefined;
+    receivedAt: number;
+}
+
+const DEFAULT_MODELS: MockModel[] = [
+    { name: 'mock-llama:latest', family: 'llama', contextLength: 8192, capabilities: ['completion', 'tools'] },
+    { name: 'mock-coder:7b', family: 'qwen2', contextLength: 32768, capabilities: ['completion'] },
+    { name: 'mock-vision:latest', family: 'llava', contextLength: 4096, capabilities: ['completion', 'vision'] }
+];
+
+export class MockOllamaServer {
+    private server: http.Server | null = null;
+    private script: MockScript = {};
+    private models: MockModel[] = [];
+    private failures: (MockFailure & { remaining: number })[] = [];
+    private readonly outputChannel?: vscode.OutputChannel;
+
+    /** Every request received since the server started or was last reset */
+    readonly requests: MockRequestRecord[] = [];
+
+    constructor(script: MockScript = {}, outputChannel?: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.setScript(script);
+    }
+
+    /**
+     * Load the script from `ollamaEnhanced.mock.scriptPath`, or use the built-in models and echo replies
+     */
+    static fromConfiguration(outputChannel?: vscode.OutputChannel): MockOllamaServer {
+        let scriptPath = vscode.workspace.getConfiguration('ollamaEnhanced').get<string>('mock.scriptPath', '');
+        let script: MockScript = {};
+
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (scriptPath && !path.isAbsolute(scriptPath) && folder) {
+            scriptPath = path.join(folder.uri.fsPath, scriptPath);
+        }
+
+        if (scriptPath) {
+            try {
+                script = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as MockScript;
+            } catch (error) {
+                const message = `Could not load mock script ${scriptPath}: ${error instanceof Error ? error.message : String(error)}`;
+                outputChannel?.appendLine(message);
+                vscode.window.showWarningMessage(message);
+            }
+        }
+
+        return new MockOllamaServer(script, outputChannel);
+    }
+
+    get url(): string {
+        const address = this.server?.address() as AddressInfo | null;
+        if (!address) {
+            throw new Error('Mock Ollama server is not running');
+        }
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    get isRunning(): boolean {
+        return this.server !== null && this.server.listening;
+    }
+
+    /**
+     * Listen on the loopback interface; port 0 picks a free port. Resolves with the base URL.
+     */
+    start(port = 0): Promise<string> {
+        if (this.server) {
+            return Promise.resolve(this.url);
+        }
+
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((request, response) => {
+                this.handleRequest(request, response).catch(error => {
+                    this.log(`Mock request failed: ${error instanceof Error ? error.message : String(error)}`);
+                    if (!response.headersSent) {
+                        this.sendJson(response, 500, { error: 'mock server error' });
+                    } else {
+                        response.destroy();
+                    }
+                });
+            });
+
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                server.off('error', reject);
+                this.server = server;
+                this.log(`Mock Ollama server listening on ${this.url}`);
+                resolve(this.url);
+            });
+        });
+    }
+
+    stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (!server) {
+            return Promise.resolve();
+        }
+
+        return new Promise(resolve => {
+            server.close(() => resolve());
+            // Open streams would otherwise keep the server alive
+            (server as http.Server & { closeAllConnections?: () => void }).closeAllConnections?.();
+        });
+    }
+
+    /**
+     * Replace the models, replies and failures; models pulled since the last script are forgotten
+     */
+    setScript(script: MockScript): void {
+        this.script = script;
+        this.models = (script.models && script.models.length > 0 ? script.models : DEFAULT_MODELS).map(model => ({ ...model }));
+        this.failures = [];
+        for (const failure of script.failures || []) {
+            this.injectFailure(failure);
+        }
+    }
+
+    injectFailure(failure: MockFailure): void {
+        this.failures.push({ ...failure, remaining: failure.times === undefined ? 1 : failure.times });
+    }
+
+    /**
+     * Clear injected failures and recorded requests
+     */
+    reset(): void {
+        this.failures = [];
+        this.requests.length = 0;
+    }
+
+    private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        const endpoint = this.getEndpoint(request.method, request.url);
+        if (!endpoint) {
+            this.sendJson(response, 404, { error: `mock server does not implement ${request.method} ${request.url}` });
+            return;
+        }
+
+        const body = await this.readBody(request);
+        this.requests.push({ endpoint, method: request.method || 'GET', body, receivedAt: Date.now() });
+        this.log(`${request.method} ${request.url}${body && body.model ? ` (${body.model})` : ''}`);
+
+        const failure = this.takeFailure(endpoint);
+        if (failure && failure.afterChunks === undefined) {
+            await this.sleep(failure.delayMs);
+            this.sendFailure(response, failure);
+            return;
+        }
+
+        switch (endpoint) {
+            case 'version':
+                this.sendJson(response, 200, { version: '0.0.0-mock' });
+                return;
+            case 'tags':
+                this.sendJson(response, 200, { models: this.models.map(model => this.toModelInfo(model)) });
+                return;
+            case 'ps':
+                this.sendJson(response, 200, { models: [] });
+                return;
+            case 'show':
+                this.handleShow(response, body);
+                return;
+            case 'pull':
+                await this.handlePull(response, body, failure);
+                return;
+            case 'copy':
+                this.handleCopy(response, body);
+                return;
+            case 'delete':
+                this.handleDelete(response, body);
+                return;
+            case 'create':
+                await this.handleCreate(response, body, failure);
+                return;
+            default:
+                await this.handleGeneration(endpoint, response, body, failure);
+        }
+    }
+
+    private handleShow(response: http.ServerResponse, body: Record<string, unknown> | undefined): void {
+        const model = this.findModel(body?.model);
+        if (!model) {
+            this.sendModelNotFound(response, body?.model);
+            return;
+        }
+
+        const family = model.family || 'llama';
+        this.sendJson(response, 200, {
+            modelfile: model.modelfile || `FROM ${model.name}`,
+            parameters: '',
+            template: '{{ .Prompt }}',
+            details: { format: 'gguf', family, families: [family], parameter_size: '7B', quantization_level: 'Q4_0' },
+            model_info: {
+                'general.architecture': family,
+                [`${family}.context_length`]: model.contextLength || 4096
+            },
+            capabilities: model.capabilities || ['completion']
+        });
+    }
+
+    private handleCopy(response: http.ServerResponse, body: Record<string, unknown> | undefined): void {
+        const source = this.findModel(body?.source);
+        if (!source) {
+            this.sendModelNotFound(response, body?.source);
+            return;
+        }
+        if (typeof body?.destination !== 'string' || !body.destination) {
+            this.sendJson(response, 400, { error: 'destination is required' });
+            return;
+        }
+
+        const destination = body.destination.includes(':') ? body.destination : `${body.destination}:latest`;
+        this.replaceModel({ ...source, name: destination });
+        this.sendJson(response, 200, {});
+    }
+
+    private handleDelete(response: http.ServerResponse, body: Record<string, unknown> | undefined): void {
+        const model = this.findModel(body?.model);
+        if (!model) {
+            this.sendModelNotFound(response, body?.model);
+            return;
+        }
+
+        this.models = this.models.filter(candidate => candidate !== model);
+        this.sendJson(response, 200, {});
+    }
+
+    private async handleCreate(response: http.ServerResponse, body: Record<string, unknown> | undefined, failure: MockFailure | undefined): Promise<void> {
+        const name = typeof body?.model === 'string' ? body.model : '';
+        if (!name) {
+            this.sendJson(response, 400, { error: 'model is required' });
+            return;
+        }
+
+        // Newer clients send `from`, older ones only the Modelfile text
+        const modelfile = typeof body?.modelfile === 'string' ? body.modelfile : '';
+        const from = typeof body?.from === 'string' ? body.from : /^\s*FROM\s+(\S+)/im.exec(modelfile)?.[1];
+        const base = this.findModel(from);
+        if (!base) {
+            this.sendModelNotFound(response, from || '');
+            return;
+        }
+
+        const progress: ProgressResponse[] = [
+            { status: 'using existing layer sha256:' + this.digestFor(base.name).substring(7) },
+            { status: 'creating new layer sha256:' + this.digestFor(name).substring(7) },
+            { status: 'writing manifest' },
+            { status: 'success' }
+        ];
+
+        const fullName = name.includes(':') ? name : `${name}:latest`;
+        const created: MockModel = { ...base, name: fullName, digest: undefined, modelfile: modelfile || `FROM ${base.name}` };
+
+        if (body?.stream === false) {
+            if (failure) {
+                await this.sleep(failure.delayMs);
+                this.sendFailure(response, failure);
+                return;
+            }
+            this.replaceModel(created);
+            this.sendJson(response, 200, { status: 'success' });
+            return;
+        }
+
+        const completed = await this.streamRecords(response, progress, failure);
+        if (completed) {
+            this.replaceModel(created);
+        }
+    }
+
+    private async handlePull(response: http.ServerResponse, body: Record<string, unknown> | undefined, failure: MockFailure | undefined): Promise<void> {
+        const name = typeof body?.model === 'string' ? body.model : typeof body?.name === 'string' ? body.name : '';
+        if (!name) {
+            this.sendJson(response, 400, { error: 'model is required' });
+            return;
+        }
+
+        const total = 4 * 1024 * 1024;
+        const progress: ProgressResponse[] = [
+            { status: 'pulling manifest' },
+            ...[1, 2, 3, 4].map(step => ({ status: `pulling ${this.digestFor(name).substring(7, 19)}`, digest: this.digestFor(name), total, completed: (total / 4) * step })),
+            { status: 'verifying sha256 digest' },
+            { status: 'writing manifest' },
+            { status: 'success' }
+        ];
+
+        if (body?.stream === false) {
+            if (failure) {
+                await this.sleep(failure.delayMs);
+                this.sendFailure(response, failure);
+                return;
+            }
+            this.addModel(name);
+            this.sendJson(response, 200, { status: 'success' });
+            return;
+        }
+
+        const completed = await this.streamRecords(response, progress, failure);
+        if (completed) {
+            this.addModel(name);
+        }
+    }
+
+    private async handleGeneration(endpoint: 'generate' | 'chat', response: http.ServerResponse, body: Record<string, unknown> | undefined, failure: MockFailure | undefined): Promise<void> {
+        const model = this.findModel(body?.model);
+        if (!model) {
+            this.sendModelNotFound(response, body?.model);
+            return;
+        }
+
+        const prompt = endpoint === 'chat' ? this.getLatestUserMessage(body?.messages) : String(body?.prompt || '');
+        const reply = this.findReply(prompt);
+        const toolCalls = endpoint === 'chat' && body?.tools ? reply.toolCalls : undefined;
+        const createdAt = () => new Date().toISOString();
+
+        const pieces = reply.content.match(/\S+\s*|\s+/g) || [];
+        const stats: GenerationStats = {
+            done: true,
+            done_reason: 'stop',
+            total_duration: (pieces.length + 5) * 1e6,
+            load_duration: 1e6,
+            prompt_eval_count: Math.ceil(prompt.length / 4),
+            prompt_eval_duration: 2e6,
+            eval_count: pieces.length,
+            eval_duration: Math.max(1, pieces.length) * 1e6
+        };
+
+        const toRecord = (content: string, extra: Record<string, unknown> = {}) => endpoint === 'chat'
+            ? { model: model.name, created_at: createdAt(), message: { role: 'assistant', content, ...extra }, done: false }
+            : { model: model.name, created_at: createdAt(), response: content, done: false };
+
+        if (body?.stream === false) {
+            const record = toRecord(reply.content, toolCalls ? { tool_calls: toolCalls } : {});
+            this.sendJson(response, 200, { ...record, ...stats });
+            return;
+        }
+
+        const records: Record<string, unknown>[] = pieces.map(piece => toRecord(piece));
+        if (toolCalls) {
+            records.push(toRecord('', { tool_calls: toolCalls }));
+        }
+        records.push({ ...toRecord(''), ...stats });
+
+        await this.streamRecords(response, records, failure);
+    }
+
+    /**
+     * Write newline-delimited JSON records with the scripted delay; false when an injected failure interrupted the stream
+     */
+    private async streamRecords(response: http.ServerResponse, records: object[], failure: MockFailure | undefined): Promise<boolean> {
+        response.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+
+        for (let i = 0; i < records.length; i++) {
+            if (failure && i === failure.afterChunks) {
+                await this.sleep(failure.delayMs);
+                if (failure.disconnect) {
+                    response.destroy();
+                } else {
+                    response.end(JSON.stringify({ error: failure.error || 'mock stream failure' }) + '\n');
+                }
+                return false;
+            }
+
+            if (i > 0) {
+                await this.sleep(this.script.chunkDelayMs);
+            }
+            if (response.destroyed) {
+                // The client cancelled the request
+                return false;
+            }
+            response.write(JSON.stringify(records[i]) + '\n');
+        }
+
+        response.end();
+        return true;
+    }
+
+    private sendFailure(response: http.ServerResponse, failure: MockFailure): void {
+        if (failure.disconnect) {
+            response.destroy();
+            return;
+        }
+        this.sendJson(response, failure.status || 500, { error: failure.error || 'mock failure' });
+    }
+
+    private sendModelNotFound(response: http.ServerResponse, model: unknown): void {
+        this.sendJson(response, 404, { error: `model "${String(model)}" not found, try pulling it first` });
+    }
+
+    private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    }
+
+    private takeFailure(endpoint: MockEndpoint): MockFailure | undefined {
+        const index = this.failures.findIndex(failure => failure.endpoint === endpoint || failure.endpoint === '*');
+        if (index === -1) {
+            return undefined;
+        }
+
+        const failure = this.failures[index];
+        if (failure.remaining > 0 && --failure.remaining === 0) {
+            this.failures.splice(index, 1);
+        }
+        return failure;
+    }
+
+    private findReply(prompt: string): MockReply {
+        for (const reply of this.script.replies || []) {
+            try {
+                if (!reply.match || new RegExp(reply.match, 'i').test(prompt)) {
+                    return reply;
+                }
+            } catch {
+                this.log(`Ignoring mock reply with invalid pattern: ${reply.match}`);
+            }
+        }
+
+        if (this.script.defaultReply !== undefined) {
+            return { content: this.script.defaultReply };
+        }
+
+        const preview = prompt.length > 80 ? `${prompt.substring(0, 80)}...` : prompt;
+        return { content: `Mock reply to: ${preview}` };
+    }
+
+    private getLatestUserMessage(messages: unknown): string {
+        if (!Array.isArray(messages)) {
+            return '';
+        }
+        const latest = (messages as ChatMessage[]).filter(message => message.role === 'user').pop();
+        return latest ? latest.content : '';
+    }
+
+    private findModel(name: unknown): MockModel | undefined {
+        if (typeof name !== 'string') {
+            return undefined;
+        }
+        const fullName = name.includes(':') ? name : `${name}:latest`;
+        return this.models.find(model => model.name === name || model.name === fullName);
+    }
+
+    private replaceModel(model: MockModel): void {
+        this.models = this.models.filter(candidate => candidate.name !== model.name);
+        this.models.push(model);
+    }
+
+    private addModel(name: string): void {
+        if (!this.findModel(name)) {
+            this.models.push({ name: name.includes(':') ? name : `${name}:latest` });
+        }
+    }
+
+    private toModelInfo(model: MockModel): ModelInfo {
+        const family = model.family || 'llama';
+        return {
+            name: model.name,
+            model: model.name,
+            modified_at: new Date(0).toISOString(),
+            size: model.size || 4 * 1024 * 1024 * 1024,
+            digest: model.digest || this.digestFor(model.name),
+            details: { format: 'gguf', family, families: [family], parameter_size: '7B', quantization_level: 'Q4_0' }
+        };
+    }
+
+    /**
+     * Stable fake digest, so that response cache keys stay the same across runs
+     */
+    private digestFor(name: string): string {
+        let hash = 0;
+        for (const char of name) {
+            hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+        }
+        return `sha256:${hash.toString(16).padStart(8, '0').repeat(8)}`;
+    }
+
+    private getEndpoint(method: string | undefined, url: string | undefined): MockEndpoint | undefined {
+        const route = (url || '').split('?')[0];
+        const routes: Record<string, [string, MockEndpoint]> = {
+            '/api/version': ['GET', 'version'],
+            '/api/tags': ['GET', 'tags'],
+            '/api/ps': ['GET', 'ps'],
+            '/api/show': ['POST', 'show'],
+            '/api/pull': ['POST', 'pull'],
+            '/api/generate': ['POST', 'generate'],
+            '/api/chat': ['POST', 'chat'],
+            '/api/copy': ['POST', 'copy'],
+            '/api/delete': ['DELETE', 'delete'],
+            '/api/create': ['POST', 'create']
+        };
+        return routes[route] && routes[route][0] === method ? routes[route][1] : undefined;
+    }
+
+    private readBody(request: http.IncomingMessage): Promise<Record<string, unknown> | undefined> {
+        return new Promise(resolve => {
+            let data = '';
+            request.on('data', (chunk: Buffer) => { data += chunk.toString(); });
+            request.on('end', () => {
+                try {
+                    resolve(data ? JSON.parse(data) : undefined);
+                } catch {
+                    resolve(undefined);
+                }
+            });
+            request.on('error', () => resolve(undefined));
+        });
+    }
+
+    private sleep(ms: number | undefined): Promise<void> {
+        return ms && ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+    }
+
+    private log(message: string): void {
+        this.outputChannel?.appendLine(`[mock] ${message}`);
+    }
+}
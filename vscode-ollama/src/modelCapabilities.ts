@@ -0,0 +1,280 @@
+/**
+ * What each model can do, from the server's /api/show metadata, a table of known models and user settings
+ */
+import * as vscode from 'vscode';
+import type { OllamaService } from './ollamaService';
+import { TokenBudget } from './tokenBudget';
+
+/**
+ * `code` and `thinking` describe what a model is good at; the others are what the server can do with it.
+ * `insert` means the model can fill in the middle, which suits inline completion.
+ */
+export type ModelCapability = 'completion' | 'code' | 'tools' | 'vision' | 'thinking' | 'insert' | 'embedding';
+
+/**
+ * What a model is used for when it is picked automatically
+ */
+export type ModelTask = 'chat' | 'code' | 'completion' | 'vision' | 'tools' | 'embedding';
+
+export interface ModelProfile {
+    model: string;
+    capabilities: ModelCapability[];
+    families: string[];
+    contextLength?: number;
+    /** Capabilities that the server or the settings rule out, as opposed to merely not knowing about them */
+    excluded: ModelCapability[];
+}
+
+const CAPABILITIES: ModelCapability[] = ['completion', 'code', 'tools', 'vision', 'thinking', 'insert', 'embedding'];
+
+/** Capabilities that /api/show lists; when it lists any, the ones it leaves out are missing */
+const SERVER_CAPABILITIES: ModelCapability[] = ['completion', 'tools', 'vision', 'thinking', 'insert', 'embedding'];
+
+/**
+ * Known models by base name (without namespace and tag). The longest matching prefix wins,
+ * so `qwen2.5-coder` takes precedence over `qwen2.5`.
+ */
+const KNOWN_MODELS: Record<string, ModelCapability[]> = {
+    // Code models
+    'codellama': ['code', 'insert'],
+    'codegemma': ['code', 'insert'],
+    'codeqwen': ['code'],
+    'codestral': ['code', 'insert'],
+    'codegeex4': ['code'],
+    'deepseek-coder': ['code', 'insert'],
+    'deepseek-coder-v2': ['code', 'insert'],
+    'devstral': ['code', 'tools'],
+    'granite-code': ['code'],
+    'opencoder': ['code'],
+    'qwen2.5-coder': ['code', 'insert', 'tools'],
+    'qwen3-coder': ['code', 'tools'],
+    'stable-code': ['code', 'insert'],
+    'starcoder': ['code', 'insert'],
+    'starcoder2': ['code', 'insert'],
+    'yi-coder': ['code'],
+    // Reasoning models, which also handle code well but think before answering
+    'deepseek-r1': ['thinking', 'code'],
+    'qwq': ['thinking', 'code', 'tools'],
+    'qwen3': ['thinking', 'code', 'tools'],
+    'phi4-reasoning': ['thinking', 'code'],
+    'gpt-oss': ['thinking', 'code', 'tools'],
+    // General models with tool calling
+    'llama3.1': ['tools'],
+    'llama3.2': ['tools'],
+    'llama3.3': ['tools'],
+    'qwen2.5': ['tools'],
+    'mistral': ['tools'],
+    'mistral-nemo': ['tools'],
+    'mixtral': ['tools'],
+    'command-r': ['tools'],
+    'hermes3': ['tools'],
+    'granite3.3': ['tools'],
+    // Vision models
+    'llava': ['vision'],
+    'bakllava': ['vision'],
+    'moondream': ['vision'],
+    'minicpm-v': ['vision'],
+    'llama3.2-vision': ['vision'],
+    'llama4': ['vision', 'tools'],
+    'qwen2.5vl': ['vision'],
+    'gemma3': ['vision'],
+    'mistral-small3.1': ['vision', 'tools'],
+    // Embedding models, which cannot chat
+    'nomic-embed-text': ['embedding'],
+    'mxbai-embed-large': ['embedding'],
+    'all-minilm': ['embedding'],
+    'bge-m3': ['embedding'],
+    'snowflake-arctic-embed': ['embedding']
+};
+
+/**
+ * `user/qwen2.5-coder:7b-instruct` -> `qwen2.5-coder`
+ */
+function baseName(model: string): string {
+    const withoutTag = model.toLowerCase().split(':')[0];
+    return withoutTag.substring(withoutTag.lastIndexOf('/') + 1);
+}
+
+function isCapability(value: string): value is ModelCapability {
+    return (CAPABILITIES as string[]).includes(value);
+}
+
+export class ModelCapabilities {
+    private static getService: () => OllamaService | undefined = () => undefined;
+    private static profiles = new Map<string, Promise<ModelProfile>>();
+    private static reportedSettingErrors = new Set<string>();
+
+    /**
+     * Set where /api/show metadata comes from; without a service only the known-model table and settings are used
+     */
+    static initialize(getService: () => OllamaService | undefined): void {
+        this.getService = getService;
+    }
+
+    /**
+     * Forget cached profiles, e.g. after a model was pulled again or the settings changed
+     */
+    static clear(model?: string): void {
+        if (model) {
+            this.profiles.delete(model);
+        } else {
+            this.profiles.clear();
+        }
+    }
+
+    /**
+     * The combined capabilities of a model. Metadata that cannot be fetched is skipped rather than failing.
+     */
+    static getProfile(model: string): Promise<ModelProfile> {
+        let profile = this.profiles.get(model);
+        if (!profile) {
+            profile = this.buildProfile(model);
+            this.profiles.set(model, profile);
+        }
+        return profile;
+    }
+
+    static async has(model: string, capability: ModelCapability): Promise<boolean> {
+        return (await this.getProfile(model)).capabilities.includes(capability);
+    }
+
+    /**
+     * Whether the model is known not to have a capability; unknown models are given the benefit of the doubt
+     */
+    static async lacks(model: string, capability: ModelCapability): Promise<boolean> {
+        return (await this.getProfile(model)).excluded.includes(capability);
+    }
+
+    /**
+     * The models suited to a task, best first. Empty when none is suited, so callers can fall back to any model.
+     */
+    static async selectForTask<T extends { name: string }>(models: T[], task: ModelTask): Promise<T[]> {
+        const profiles = await Promise.all(models.map(model => this.getProfile(model.name)));
+        const scored = models
+            .map((model, index) => ({ model, score: this.score(profiles[index], task) }))
+            .filter(candidate => candidate.score > 0);
+
+        // Stable sort, so equally suited models keep the server's order
+        return scored
+            .map((candidate, index) => ({ ...candidate, index }))
+            .sort((a, b) => b.score - a.score || a.index - b.index)
+            .map(candidate => candidate.model);
+    }
+
+    /**
+     * Suitability of a model for a task; 0 means unsuitable
+     */
+    private static score(profile: ModelProfile, task: ModelTask): number {
+        const has = (capability: ModelCapability) => profile.capabilities.includes(capability);
+        if (task === 'embedding') {
+            return has('embedding') ? 1 : 0;
+        }
+        if (has('embedding') && !has('completion')) {
+            return 0;
+        }
+
+        switch (task) {
+            case 'chat':
+                return 1;
+            case 'code':
+                return has('code') ? 2 : 0;
+            case 'completion':
+                // Inline completion wants the code right away, without a reasoning preamble
+                if (!has('code') && !has('insert')) {
+                    return 0;
+                }
+                return 1 + (has('insert') ? 2 : 0) + (has('thinking') ? 0 : 1);
+            case 'vision':
+                return has('vision') ? 1 : 0;
+            case 'tools':
+                return has('tools') ? 1 : 0;
+        }
+    }
+
+    private static async buildProfile(model: string): Promise<ModelProfile> {
+        const capabilities = new Set<ModelCapability>(this.lookupKnown(model));
+        const excluded = new Set<ModelCapability>();
+        let families: string[] = [];
+        let contextLength: number | undefined;
+
+        const service = this.getService();
+        if (service) {
+            try {
+                const show = await service.showModel(model);
+                families = show.details?.families || (show.details?.family ? [show.details.family] : []);
+                contextLength = TokenBudget.getModelContextLength(show);
+
+                const reported = (show.capabilities || []).filter(isCapability);
+                if (reported.length > 0) {
+                    reported.forEach(capability => capabilities.add(capability));
+                    // The server is authoritative for what it can do with the model
+                    SERVER_CAPABILITIES
+                        .filter(capability => !reported.includes(capability))
+                        .forEach(capability => {
+                            capabilities.delete(capability);
+                            excluded.add(capability);
+                        });
+                }
+                // BERT-style families only produce embeddings
+                if (families.some(family => /bert/i.test(family)) && !reported.includes('completion')) {
+                    capabilities.add('embedding');
+                }
+            } catch {
+                // Not an Ollama model (e.g. from an OpenAI-compatible server) or the server is unreachable;
+                // the profile is not kept, so the metadata is fetched again next time
+                this.profiles.delete(model);
+            }
+        }
+
+        for (const entry of this.lookupSettings(model)) {
+            const capability = entry.replace(/^-/, '') as ModelCapability;
+            if (entry.startsWith('-')) {
+                capabilities.delete(capability);
+                excluded.add(capability);
+            } else {
+                capabilities.add(capability);
+                excluded.delete(capability);
+            }
+        }
+
+        return {
+            model,
+            capabilities: CAPABILITIES.filter(capability => capabilities.has(capability)),
+            families,
+            contextLength,
+            excluded: CAPABILITIES.filter(capability => excluded.has(capability))
+        };
+    }
+
+    private static lookupKnown(model: string): ModelCapability[] {
+        const name = baseName(model);
+        const match = Object.keys(KNOWN_MODELS)
+            .filter(known => name === known || name.startsWith(known))
+            .sort((a, b) => b.length - a.length)[0];
+        return match ? KNOWN_MODELS[match] : [];
+    }
+
+    /**
+     * Overrides from `ollamaEnhanced.modelCapabilities`, keyed by full name, name without tag or base name;
+     * the most specific key wins. A `-` prefix removes a capability.
+     */
+    private static lookupSettings(model: string): string[] {
+        const overrides = vscode.workspace.getConfiguration('ollamaEnhanced').get<Record<string, unknown>>('modelCapabilities', {});
+        const keys = [model, model.split(':')[0], baseName(model)];
+        const key = keys.find(candidate => Array.isArray(overrides[candidate]));
+        if (!key) {
+            return [];
+        }
+
+        const entries = (overrides[key] as unknown[]).filter((entry): entry is string => typeof entry === 'string');
+        const invalid = entries.filter(entry => !isCapability(entry.replace(/^-/, '')));
+        if (invalid.length > 0 && !this.reportedSettingErrors.has(key)) {
+            this.reportedSettingErrors.add(key);
+            vscode.window.showWarningMessage(
+                `Ignoring unknown capabilities for ${key} in ollamaEnhanced.modelCapabilities: ${invalid.join(', ')}. ` +
+                `Use ${CAPABILITIES.join(', ')}.`
+            );
+        }
+        return entries.filter(entry => !invalid.includes(entry));
+    }
+}
@@ -3,7 +3,12 @@
  */
 import * as vscode from 'vscode';
 import { OllamaService, OllamaModel } from './ollamaService';
-import { ConfigHelper, ErrorUtility, Logger } from './utils';
+import { ProgressResponse } from './ollamaApi';
+import { Modelfile } from './modelfile';
+import { ModelCapabilities } from './modelCapabilities';
+import { ModelRouter } from './modelRouter';
+import { RequestPriority, RequestScheduler } from './requestScheduler';
+import { ErrorUtility, Logger } from './utils';
 
 export interface ModelQuickPickItem extends vscode.QuickPickItem {
     model: OllamaModel;
@@ -14,13 +19,22 @@ export interface ModelQuickPickItem extends vscode.QuickPickItem {
  */
 export class ModelManager {
     private outputChannel: vscode.OutputChannel;
-    private ollamaService: OllamaService;
+    private readonly getService: () => OllamaService;
     private modelListCache: OllamaModel[] | null = null;
+    /** Service the cached list came from; a changed API URL replaces the service */
+    private cacheService: OllamaService | undefined;
     private readonly modelCacheTTL = 30 * 1000; // 30 seconds
     private lastCacheTime = 0;
+    private readonly modelsChangedEmitter = new vscode.EventEmitter<OllamaModel[]>();
 
-    constructor(ollamaService: OllamaService, outputChannel?: vscode.OutputChannel) {
-        this.ollamaService = ollamaService;
+    /** Fires with the new model list after a model is created */
+    readonly onDidChangeModels = this.modelsChangedEmitter.event;
+
+    /**
+     * @param getService Looked up on each use, since a changed API URL replaces the service
+     */
+    constructor(getService: () => OllamaService, outputChannel?: vscode.OutputChannel) {
+        this.getService = getService;
         this.outputChannel = outputChannel || vscode.window.createOutputChannel('Ollama Models');
     }
 
@@ -30,16 +44,21 @@ export class ModelManager {
     async listModels(forceRefresh = false): Promise<OllamaModel[]> {
         // Check cache first
         const now = Date.now();
-        if (!forceRefresh && this.modelListCache && (now - this.lastCacheTime < this.modelCacheTTL)) {
+        const service = this.getService();
+        if (!forceRefresh && this.modelListCache && this.cacheService === service && (now - this.lastCacheTime < this.modelCacheTTL)) {
             this.log(`Using cached model list (${this.modelListCache.length} models)`);
             return this.modelListCache;
         }
 
         try {
-            const models = await this.ollamaService.listModels();
+            if (forceRefresh) {
+                service.clearModelListCache();
+            }
+            const models = await RequestScheduler.schedule(() => service.listModels(), { priority: RequestPriority.Background });
             
             // Update cache
             this.modelListCache = models;
+            this.cacheService = service;
             this.lastCacheTime = now;
             
             this.log(`Retrieved ${models.length} models from server`);
@@ -51,18 +70,42 @@ export class ModelManager {
         }
     }
 
+    /**
+     * Create a model from Modelfile text and add it to the model list
+     */
+    async createModel(
+        name: string,
+        modelfileText: string,
+        onStatus?: (progress: ProgressResponse) => void,
+        signal?: AbortSignal
+    ): Promise<OllamaModel | undefined> {
+        const parsed = Modelfile.parse(modelfileText);
+        const errors = parsed.issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(`The Modelfile has ${errors.length} error(s), first on line ${errors[0].line + 1}: ${errors[0].message}`);
+        }
+
+        this.log(`Creating model ${name} from ${parsed.from}`);
+        await this.getService().createModel(Modelfile.toCreateRequest(name, modelfileText, parsed), onStatus, signal);
+        if (signal?.aborted) {
+            this.log(`Creating model ${name} was cancelled`, 'warn');
+            return undefined;
+        }
+
+        const models = await this.listModels(true);
+        ModelCapabilities.clear(name);
+        this.modelsChangedEmitter.fire(models);
+
+        const fullName = name.includes(':') ? name : `${name}:latest`;
+        return models.find(model => model.name === name || model.name === fullName);
+    }
+
     /**
      * Find code-optimized models from the available models
      */
     async getCodeOptimizedModels(): Promise<OllamaModel[]> {
         const models = await this.listModels();
-        
-        // Filter for models suited for code tasks
-        return models.filter(model => 
-            model.name.toLowerCase().includes('code') || 
-            model.name.toLowerCase().includes('starcoder') ||
-            model.name.toLowerCase().includes('codellama')
-        );
+        return ModelCapabilities.selectForTask(models, 'code');
     }
 
     /**
@@ -109,12 +152,12 @@ export class ModelManager {
      * Get the default model or prompt user to select one
      */
     async resolveModel(promptIfNotFound = true, preferCodeModels = false): Promise<string | undefined> {
-        // First try from configuration
-        const configDefaultModel = ConfigHelper.getDefaultModel();
+        // First try the installed models from the per-task settings
+        const configuredModel = await ModelRouter.resolve(preferCodeModels ? 'explain' : 'chat', await this.listModels(), { automatic: false });
         
-        if (configDefaultModel) {
-            this.log(`Using configured default model: ${configDefaultModel}`);
-            return configDefaultModel;
+        if (configuredModel) {
+            this.log(`Using configured model: ${configuredModel}`);
+            return configuredModel;
         }
         
         // If we prefer code models, try to find one
@@ -144,7 +187,7 @@ export class ModelManager {
         const models = await this.listModels(true);
         
         if (models.length === 0) {
-            await this.ollamaService.checkAndSuggestModels([]);
+            await this.getService().checkAndSuggestModels([]);
         }
     }
 
@@ -0,0 +1,138 @@
+/**
+ * Picks the model for each kind of request from the per-task model settings
+ */
+import * as vscode from 'vscode';
+import { ModelCapabilities, ModelTask } from './modelCapabilities';
+import { DownloadManager } from './downloadManager';
+import { sameModel } from './ollamaApi';
+
+/**
+ * Kinds of request that can be routed to their own models
+ */
+export type RoutedTask = 'completion' | 'chat' | 'explain' | 'documentation' | 'commitMessage' | 'embedding';
+
+const TASK_LABELS: Record<RoutedTask, string> = {
+    completion: 'inline completion',
+    chat: 'chat',
+    explain: 'code explanation',
+    documentation: 'documentation',
+    commitMessage: 'commit messages',
+    embedding: 'embeddings'
+};
+
+/** Every routed task, i.e. every `ollamaEnhanced.models.*` setting */
+export const ROUTED_TASKS = Object.keys(TASK_LABELS) as RoutedTask[];
+
+/** Capability used to pick a model when none of the configured ones is installed */
+const CAPABILITY_TASKS: Record<RoutedTask, ModelTask> = {
+    completion: 'completion',
+    chat: 'chat',
+    explain: 'code',
+    documentation: 'code',
+    commitMessage: 'chat',
+    embedding: 'embedding'
+};
+
+/** Tasks whose list falls back to the chat models before the default model */
+const CHAT_FALLBACK: RoutedTask[] = ['explain', 'documentation', 'commitMessage'];
+
+export interface RouteOptions {
+    /** Model chosen for this request, e.g. the model of the chat session; used when it is installed */
+    preferred?: string;
+    /**
+     * Pick the best suited installed model when no model is configured for the task (default: true).
+     * Callers that would rather ask the user pass false; configured models that are missing still fall back.
+     */
+    automatic?: boolean;
+}
+
+export class ModelRouter {
+    private static reportedFallbacks = new Set<string>();
+
+    /**
+     * The configured models for a task in order of preference, without duplicates
+     */
+    static getConfiguredModels(task: RoutedTask): string[] {
+        const lists = [this.readList(task)];
+        if (CHAT_FALLBACK.includes(task)) {
+            lists.push(this.readList('chat'));
+        }
+        if (task !== 'embedding') {
+            const defaultModel = vscode.workspace.getConfiguration('ollama').get<string>('defaultModel');
+            lists.push(defaultModel ? [defaultModel] : []);
+        }
+
+        const models: string[] = [];
+        for (const model of lists.flat()) {
+            if (!models.some(existing => sameModel(existing, model))) {
+                models.push(model);
+            }
+        }
+        return models;
+    }
+
+    /**
+     * The model to use for a task, from the installed models. Configured models that are not installed are
+     * skipped, so a missing model falls back to the next one instead of failing the request.
+     * Undefined when no installed model is suited, or when nothing is configured and `automatic` is false.
+     */
+    static async resolve<T extends { name: string }>(task: RoutedTask, models: T[], options: RouteOptions = {}): Promise<string | undefined> {
+        const configured = this.getConfiguredModels(task);
+        const candidates = options.preferred ? [options.preferred, ...configured] : configured;
+        const missing: string[] = [];
+
+        for (const candidate of candidates) {
+            const installed = models.find(model => sameModel(model.name, candidate));
+            if (installed) {
+                this.reportFallback(task, missing, installed.name);
+                return installed.name;
+            }
+            missing.push(candidate);
+        }
+
+        if (configured.length === 0 && options.automatic === false) {
+            return undefined;
+        }
+
+        // Any model that can chat is better than none, except for embeddings
+        let [best] = await ModelCapabilities.selectForTask(models, CAPABILITY_TASKS[task]);
+        if (!best && task !== 'embedding') {
+            [best] = await ModelCapabilities.selectForTask(models, 'chat');
+        }
+        if (best) {
+            this.reportFallback(task, missing, best.name);
+        }
+        return best?.name;
+    }
+
+    private static readList(task: RoutedTask): string[] {
+        const value = vscode.workspace.getConfiguration('ollamaEnhanced.models').get<string | string[]>(task);
+        const list = Array.isArray(value) ? value : [value];
+        return list
+            .filter((model): model is string => typeof model === 'string')
+            .map(model => model.trim())
+            .filter(model => model.length > 0);
+    }
+
+    /**
+     * Tell the user once per session when a configured model is skipped, offering to download it
+     */
+    private static reportFallback(task: RoutedTask, missing: string[], used: string): void {
+        const first = missing[0];
+        const key = `${task}:${first}:${used}`;
+        if (!first || this.reportedFallbacks.has(key)) {
+            return;
+        }
+        this.reportedFallbacks.add(key);
+
+        vscode.window.showInformationMessage(
+            `${first} is not installed, using ${used} for ${TASK_LABELS[task]} instead.`,
+            'Download'
+        ).then(selection => {
+            if (selection === 'Download') {
+                DownloadManager.enqueue(first);
+                vscode.commands.executeCommand('vscode-ollama-enhanced.showDownloads');
+            }
+        });
+    }
+}
@@ -0,0 +1,260 @@
+/**
+ * Modelfile parsing and syntax checks for the Modelfile language mode
+ */
+import * as vscode from 'vscode';
+import { ChatMessage, CreateRequest, OllamaOptions } from './ollamaApi';
+import { GenerationOptions } from './generationOptions';
+
+export const MODELFILE_LANGUAGE = 'modelfile';
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant'];
+
+export interface ModelfileIssue {
+    /** Zero-based line of the instruction */
+    line: number;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * The instructions of a Modelfile, in the shape of an /api/create request
+ */
+export interface ParsedModelfile {
+    from?: string;
+    system?: string;
+    template?: string;
+    parameters: OllamaOptions;
+    license: string[];
+    messages: ChatMessage[];
+    issues: ModelfileIssue[];
+}
+
+/**
+ * Strip `"""` or `"` quotes around an instruction argument
+ */
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    if (trimmed.length >= 6 && trimmed.startsWith('"""') && trimmed.endsWith('"""')) {
+        return trimmed.slice(3, -3).replace(/^\r?\n/, '').replace(/\r?\n$/, '');
+    }
+    if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+        return trimmed.slice(1, -1);
+    }
+    return trimmed;
+}
+
+/**
+ * PARAMETER values are untyped in the Modelfile; numbers and booleans are converted so they can be validated
+ */
+function parseParameterValue(value: string): string | number | boolean {
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    return value;
+}
+
+/**
+ * Weights and adapters from local files have to be uploaded as blobs first, which the extension does not do
+ */
+function isLocalFile(value: string): boolean {
+    return /^(\.{1,2}[\\/]|[\\/]|~|[a-zA-Z]:\\)/.test(value) || /\.(gguf|safetensors|bin)$/i.test(value);
+}
+
+export class Modelfile {
+    /**
+     * Starting point for a new Modelfile
+     */
+    static starter(baseModel: string): string {
+        return [
+            '# Base model the assistant is built on',
+            `FROM ${baseModel}`,
+            '',
+            '# Instructions included in every chat',
+            'SYSTEM """',
+            'You are an assistant for this project.',
+            '"""',
+            '',
+            'PARAMETER temperature 0.7',
+            'PARAMETER num_ctx 8192',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Parse a Modelfile, collecting every syntax problem instead of stopping at the first
+     */
+    static parse(text: string): ParsedModelfile {
+        const result: ParsedModelfile = { parameters: {}, license: [], messages: [], issues: [] };
+        const lines = text.split(/\r?\n/);
+        const error = (line: number, message: string) => result.issues.push({ line, message, severity: 'error' });
+        const warning = (line: number, message: string) => result.issues.push({ line, message, severity: 'warning' });
+        let hasFrom = false;
+
+        for (let index = 0; index < lines.length; index++) {
+            const line = lines[index].trim();
+            if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const startLine = index;
+            const match = /^(\S+)\s*([\s\S]*)$/.exec(line);
+            const instruction = match ? match[1].toUpperCase() : '';
+            let args = match ? match[2] : '';
+
+            // A """ string continues until the line that closes it
+            const open = args.indexOf('"""');
+            if (open !== -1 && args.indexOf('"""', open + 3) === -1) {
+                while (++index < lines.length && !lines[index].includes('"""')) {
+                    args += '\n' + lines[index];
+                }
+                if (index >= lines.length) {
+                    error(startLine, 'Unterminated """ string');
+                    break;
+                }
+                args += '\n' + lines[index].substring(0, lines[index].indexOf('"""') + 3);
+            }
+
+            switch (instruction) {
+                case 'FROM': {
+                    const from = unquote(args);
+                    hasFrom = true;
+                    if (!from) {
+                        error(startLine, 'FROM needs a model name');
+                    } else if (result.from) {
+                        error(startLine, 'Only one FROM instruction is allowed');
+                    } else {
+                        result.from = from;
+                        if (isLocalFile(from)) {
+                            warning(startLine, 'Local model files are not uploaded; use `ollama create` to build from weights on disk');
+                        }
+                    }
+                    break;
+                }
+                case 'PARAMETER': {
+                    const parameter = /^(\S+)\s+([\s\S]+)$/.exec(args.trim());
+                    if (!parameter) {
+                        error(startLine, 'PARAMETER needs a name and a value');
+                        break;
+                    }
+
+                    const name = parameter[1];
+                    const raw = unquote(parameter[2]);
+                    // `stop` may be repeated, each line adding one stop sequence
+                    const value = name === 'stop'
+                        ? [...((result.parameters.stop as string[] | undefined) || []), raw]
+                        : parseParameterValue(raw);
+                    const { errors } = GenerationOptions.validate({ [name]: value });
+                    if (errors.length > 0) {
+                        error(startLine, errors[0]);
+                        break;
+                    }
+                    if (name !== 'stop' && name in result.parameters) {
+                        warning(startLine, `'${name}' replaces the value set earlier`);
+                    }
+                    result.parameters[name] = value;
+                    break;
+                }
+                case 'SYSTEM':
+                case 'TEMPLATE': {
+                    const value = unquote(args);
+                    const key = instruction === 'SYSTEM' ? 'system' : 'template';
+                    if (!value) {
+                        error(startLine, `${instruction} needs a value`);
+                        break;
+                    }
+                    if (result[key] !== undefined) {
+                        warning(startLine, `${instruction} replaces the one set earlier`);
+                    }
+                    result[key] = value;
+                    break;
+                }
+                case 'LICENSE':
+                    result.license.push(unquote(args));
+                    break;
+                case 'MESSAGE': {
+                    const message = /^(\S+)\s+([\s\S]+)$/.exec(args.trim());
+                    if (!message) {
+                        error(startLine, 'MESSAGE needs a role and the message text');
+                    } else if (!MESSAGE_ROLES.includes(message[1].toLowerCase())) {
+                        error(startLine, `Unknown message role '${message[1]}', use ${MESSAGE_ROLES.join(', ')}`);
+                    } else {
+                        result.messages.push({ role: message[1].toLowerCase() as ChatMessage['role'], content: unquote(message[2]) });
+                    }
+                    break;
+                }
+                case 'ADAPTER':
+                    warning(startLine, 'Adapter files are not uploaded; use `ollama create` for models with adapters');
+                    break;
+                case 'REQUIRES':
+                    break;
+                default:
+                    error(startLine, `Unknown instruction '${match ? match[1] : line}'`);
+            }
+        }
+
+        if (!hasFrom) {
+            error(0, 'Missing FROM instruction with the base model');
+        }
+
+        return result;
+    }
+
+    /**
+     * Build the /api/create request for a Modelfile
+     */
+    static toCreateRequest(model: string, text: string, parsed = Modelfile.parse(text)): CreateRequest {
+        return {
+            model,
+            from: parsed.from,
+            system: parsed.system,
+            template: parsed.template,
+            parameters: Object.keys(parsed.parameters).length > 0 ? parsed.parameters : undefined,
+            license: parsed.license.length > 0 ? parsed.license : undefined,
+            messages: parsed.messages.length > 0 ? parsed.messages : undefined,
+            // Older servers only read the Modelfile text
+            modelfile: text
+        };
+    }
+}
+
+/**
+ * Shows Modelfile syntax problems in the Problems panel while the file is edited
+ */
+export class ModelfileDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection(MODELFILE_LANGUAGE);
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.update(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.collection.delete(document.uri))
+        );
+        vscode.workspace.textDocuments.forEach(document => this.update(document));
+    }
+
+    private update(document: vscode.TextDocument): void {
+        if (document.languageId !== MODELFILE_LANGUAGE) {
+            return;
+        }
+
+        const diagnostics = Modelfile.parse(document.getText()).issues.map(issue => {
+            const diagnostic = new vscode.Diagnostic(
+                document.lineAt(Math.min(issue.line, document.lineCount - 1)).range,
+                issue.message,
+                issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'Modelfile';
+            return diagnostic;
+        });
+        this.collection.set(document.uri, diagnostics);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.collection.dispose();
+    }
+}
@@ -0,0 +1,206 @@
+/**
+ * Ollama Models view: installed models with their details from /api/show
+ */
+import * as vscode from 'vscode';
+import { OllamaModel, OllamaService } from './ollamaService';
+import { ShowResponse } from './ollamaApi';
+import { TokenBudget } from './tokenBudget';
+import { ModelCapabilities } from './modelCapabilities';
+import { ROUTED_TASKS } from './modelRouter';
+import { RequestPriority, RequestScheduler } from './requestScheduler';
+
+/**
+ * An installed model; expanding it shows its details
+ */
+export class ModelTreeItem extends vscode.TreeItem {
+    readonly model: OllamaModel;
+
+    constructor(model: OllamaModel, isDefault: boolean) {
+        super(model.name, vscode.TreeItemCollapsibleState.Collapsed);
+        this.model = model;
+        this.id = `model:${model.name}`;
+        this.contextValue = isDefault ? 'ollamaModel.default' : 'ollamaModel';
+        this.iconPath = new vscode.ThemeIcon(isDefault ? 'star-full' : 'hubot');
+
+        const details = model.details || {};
+        this.description = [details.parameter_size, details.quantization_level, formatSize(model.size)]
+            .filter(Boolean)
+            .join(' · ');
+
+        const tooltip = new vscode.MarkdownString(`**${model.name}**${isDefault ? ' (default)' : ''}\n\n`);
+        tooltip.appendMarkdown(`Size: ${formatSize(model.size)}\n\nModified: ${new Date(model.modified_at).toLocaleString()}`);
+        this.tooltip = tooltip;
+    }
+}
+
+/**
+ * One detail of a model, e.g. its context length
+ */
+class ModelDetailItem extends vscode.TreeItem {
+    constructor(label: string, value: string, tooltip?: string) {
+        super(label, vscode.TreeItemCollapsibleState.None);
+        this.description = value;
+        this.tooltip = tooltip || `${label}: ${value}`;
+        this.contextValue = 'ollamaModelDetail';
+    }
+}
+
+type ModelsTreeNode = ModelTreeItem | ModelDetailItem;
+
+function formatSize(bytes: number): string {
+    if (!bytes) {
+        return '';
+    }
+    return bytes >= 1024 * 1024 * 1024
+        ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+        : `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+function withTag(name: string): string {
+    return name && !name.includes(':') ? `${name}:latest` : name;
+}
+
+/**
+ * Apply `rename` to a setting in the user and the workspace settings, so a workspace value does not hide the change
+ */
+async function renameInSetting(config: vscode.WorkspaceConfiguration, key: string, rename: (value: unknown) => unknown): Promise<void> {
+    const inspected = config.inspect(key);
+    const scopes: [unknown, vscode.ConfigurationTarget][] = [
+        [inspected?.globalValue, vscode.ConfigurationTarget.Global],
+        [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace]
+    ];
+    for (const [value, target] of scopes) {
+        const renamed = rename(value);
+        if (value !== undefined && JSON.stringify(renamed) !== JSON.stringify(value)) {
+            await config.update(key, renamed, target);
+        }
+    }
+}
+
+export class ModelsTreeProvider implements vscode.TreeDataProvider<ModelsTreeNode> {
+    private readonly changeEmitter = new vscode.EventEmitter<ModelsTreeNode | undefined>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    /** /api/show responses of expanded models, until the next refresh */
+    private readonly details = new Map<string, Promise<ShowResponse>>();
+    private readonly getService: () => OllamaService;
+
+    constructor(getService: () => OllamaService) {
+        this.getService = getService;
+    }
+
+    /**
+     * Reload the model list from the servers
+     */
+    refresh(): void {
+        this.details.clear();
+        this.getService().clearModelListCache();
+        ModelCapabilities.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * The Modelfile of a model, as reported by /api/show
+     */
+    async getModelfile(model: string): Promise<string> {
+        const show = await this.getDetails(model);
+        return show.modelfile || `FROM ${model}\n`;
+    }
+
+    /**
+     * Model names are `name` or `name:tag`, optionally with a namespace such as `user/name:tag`
+     */
+    static validateModelName(name: string, existing: string[]): string | undefined {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            return 'Enter a model name';
+        }
+        if (!/^[a-zA-Z0-9][\w.-]*(\/[\w.-]+)*(:[\w.-]+)?$/.test(trimmed)) {
+            return 'Use letters, digits, ".", "-" and "_", with an optional ":tag"';
+        }
+        const fullName = withTag(trimmed);
+        if (existing.map(withTag).includes(fullName)) {
+            return `${fullName} already exists`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Ollama has no rename: the model is copied and the original deleted once the copy exists.
+     * The default model and the per-task model lists follow the new name.
+     */
+    static async renameModel(service: OllamaService, source: string, destination: string): Promise<void> {
+        await service.copyModel(source, destination);
+        await service.deleteModel(source);
+
+        const rename = (value: unknown) => typeof value === 'string' && withTag(value) === withTag(source) ? destination : value;
+        await renameInSetting(vscode.workspace.getConfiguration('ollama'), 'defaultModel', rename);
+        const routes = vscode.workspace.getConfiguration('ollamaEnhanced.models');
+        for (const task of ROUTED_TASKS) {
+            await renameInSetting(routes, task, value => Array.isArray(value) ? value.map(rename) : rename(value));
+        }
+    }
+
+    getTreeItem(element: ModelsTreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: ModelsTreeNode): Promise<ModelsTreeNode[]> {
+        if (!element) {
+            const models = await RequestScheduler.schedule(() => this.getService().listModels(), { priority: RequestPriority.Background });
+            // The default model is often configured without its ":latest" tag
+            const defaultModel = withTag(vscode.workspace.getConfiguration('ollama').get<string>('defaultModel') || '');
+            return [...models]
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(model => new ModelTreeItem(model, withTag(model.name) === defaultModel));
+        }
+
+        if (element instanceof ModelTreeItem) {
+            return this.getDetailItems(element.model);
+        }
+
+        return [];
+    }
+
+    private async getDetailItems(model: OllamaModel): Promise<ModelDetailItem[]> {
+        let show: ShowResponse;
+        try {
+            show = await this.getDetails(model.name);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return [new ModelDetailItem('Details unavailable', message, message)];
+        }
+
+        const details = { ...model.details, ...show.details };
+        const contextLength = TokenBudget.getModelContextLength(show);
+        const items = [
+            new ModelDetailItem('Family', details.family || 'unknown', details.families?.length ? `Families: ${details.families.join(', ')}` : undefined),
+            new ModelDetailItem('Parameters', details.parameter_size || 'unknown'),
+            new ModelDetailItem('Quantization', details.quantization_level || 'unknown'),
+            new ModelDetailItem('Context length', contextLength ? `${contextLength.toLocaleString()} tokens` : 'unknown')
+        ];
+
+        const { capabilities } = await ModelCapabilities.getProfile(model.name);
+        if (capabilities.length > 0) {
+            items.push(new ModelDetailItem('Capabilities', capabilities.join(', ')));
+        }
+        items.push(new ModelDetailItem('Size', formatSize(model.size) || 'unknown'));
+        if (model.digest) {
+            items.push(new ModelDetailItem('Digest', model.digest.replace(/^sha256:/, '').substring(0, 12), model.digest));
+        }
+
+        return items;
+    }
+
+    private getDetails(model: string): Promise<ShowResponse> {
+        let details = this.details.get(model);
+        if (!details) {
+            const service = this.getService();
+            details = RequestScheduler.schedule(() => service.showModel(model), { priority: RequestPriority.Background });
+            // A failed lookup is retried the next time the model is expanded
+            details.catch(() => this.details.delete(model));
+            this.details.set(model, details);
+        }
+        return details;
+    }
+}
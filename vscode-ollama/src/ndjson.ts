@@ -0,0 +1,172 @@
+/**
+ * Line-based decoding for streaming responses: Ollama's newline-delimited JSON
+ * and the server-sent events used by OpenAI-compatible servers
+ */
+import { StringDecoder } from 'string_decoder';
+import type { Readable } from 'stream';
+
+/**
+ * Splits a byte stream into lines.
+ * Network chunks can end in the middle of a line (or of a multi-byte character),
+ * so the trailing partial line is buffered until the rest of it arrives.
+ */
+class LineBuffer {
+    private buffer = '';
+    private readonly textDecoder = new StringDecoder('utf8');
+
+    push(chunk: Buffer | string): string[] {
+        this.buffer += typeof chunk === 'string' ? chunk : this.textDecoder.write(chunk);
+
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() || '';
+        return lines;
+    }
+
+    flush(): string[] {
+        const rest = this.buffer + this.textDecoder.end();
+        this.buffer = '';
+        return [rest];
+    }
+}
+
+/**
+ * Incremental NDJSON decoder
+ */
+export class NdjsonDecoder<T = unknown> {
+    private readonly lines = new LineBuffer();
+    private readonly onParseError?: (line: string, error: unknown) => void;
+
+    constructor(onParseError?: (line: string, error: unknown) => void) {
+        this.onParseError = onParseError;
+    }
+
+    /**
+     * Decode a chunk and return every record completed by it
+     */
+    push(chunk: Buffer | string): T[] {
+        return this.parseLines(this.lines.push(chunk));
+    }
+
+    /**
+     * Decode whatever is left once the stream has ended
+     */
+    flush(): T[] {
+        return this.parseLines(this.lines.flush());
+    }
+
+    private parseLines(lines: string[]): T[] {
+        const records: T[] = [];
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed) {
+                continue;
+            }
+
+            try {
+                records.push(JSON.parse(trimmed) as T);
+            } catch (error) {
+                if (this.onParseError) {
+                    this.onParseError(trimmed, error);
+                }
+            }
+        }
+
+        return records;
+    }
+}
+
+/**
+ * Incremental decoder for the JSON `data:` fields of a server-sent event stream.
+ * Comments and other fields are skipped, and the `[DONE]` sentinel marks the end of the stream.
+ */
+export class SseDecoder<T = unknown> {
+    private readonly lines = new LineBuffer();
+    private readonly onParseError?: (line: string, error: unknown) => void;
+    private finished = false;
+
+    constructor(onParseError?: (line: string, error: unknown) => void) {
+        this.onParseError = onParseError;
+    }
+
+    /**
+     * Whether the `[DONE]` sentinel has been received
+     */
+    get done(): boolean {
+        return this.finished;
+    }
+
+    push(chunk: Buffer | string): T[] {
+        return this.parseLines(this.lines.push(chunk));
+    }
+
+    flush(): T[] {
+        return this.parseLines(this.lines.flush());
+    }
+
+    private parseLines(lines: string[]): T[] {
+        const events: T[] = [];
+
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (this.finished || !trimmed.startsWith('data:')) {
+                continue;
+            }
+
+            const data = trimmed.substring('data:'.length).trim();
+            if (data === '[DONE]') {
+                this.finished = true;
+                continue;
+            }
+
+            try {
+                events.push(JSON.parse(data) as T);
+            } catch (error) {
+                if (this.onParseError) {
+                    this.onParseError(data, error);
+                }
+            }
+        }
+
+        return events;
+    }
+}
+
+/**
+ * Read an NDJSON stream to the end, calling `onRecord` for each decoded record
+ */
+export function readNdjsonStream<T = unknown>(
+    stream: Readable,
+    onRecord: (record: T) => void,
+    onParseError?: (line: string, error: unknown) => void
+): Promise<void> {
+    const decoder = new NdjsonDecoder<T>(onParseError);
+
+    return new Promise<void>((resolve, reject) => {
+        // An `onRecord` that throws rejects the promise instead of escaping from the stream listener
+        const decode = (records: () => T[]) => {
+            try {
+                records().forEach(onRecord);
+                return true;
+            } catch (error) {
+                stream.destroy();
+                reject(error);
+                return false;
+            }
+        };
+
+        stream.on('data', (chunk: Buffer) => {
+            decode(() => decoder.push(chunk));
+        });
+
+        stream.on('end', () => {
+            if (decode(() => decoder.flush())) {
+                resolve();
+            }
+        });
+
+        stream.on('error', (err: Error) => {
+            reject(err);
+        });
+    });
+}
@@ -0,0 +1,563 @@
+/**
+ * Typed client for the Ollama REST API
+ */
+import axios from 'axios';
+import type { AxiosRequestConfig } from 'axios';
+import type { Readable } from 'stream';
+import type { Agent as HttpsAgent } from 'https';
+
+/**
+ * Model parameters accepted in the `options` field of generate, chat and embed requests
+ */
+export interface OllamaOptions {
+    num_ctx?: number;
+    num_predict?: number;
+    temperature?: number;
+    top_k?: number;
+    top_p?: number;
+    min_p?: number;
+    repeat_penalty?: number;
+    repeat_last_n?: number;
+    seed?: number;
+    stop?: string[];
+    [key: string]: unknown;
+}
+
+/**
+ * A single message in an /api/chat conversation
+ */
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    /** Tools the model asked to call, on assistant messages */
+    tool_calls?: ToolCall[];
+    /** Name of the tool whose result a `tool` message carries */
+    tool_name?: string;
+    /** Base64-encoded images for vision models */
+    images?: string[];
+}
+
+/**
+ * A function the model may call during a chat turn, described by a JSON schema for its arguments
+ */
+export interface ToolDefinition {
+    type: 'function';
+    function: {
+        name: string;
+        description: string;
+        parameters: Record<string, unknown>;
+    };
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+    function: {
+        name: string;
+        arguments: Record<string, unknown>;
+    };
+}
+
+export interface ModelDetails {
+    parent_model?: string;
+    format?: string;
+    family?: string;
+    families?: string[] | null;
+    parameter_size?: string;
+    quantization_level?: string;
+}
+
+export interface ModelInfo {
+    name: string;
+    model?: string;
+    modified_at: string;
+    size: number;
+    digest?: string;
+    details?: ModelDetails;
+}
+
+/**
+ * `llama3.2` and `llama3.2:latest` name the same model
+ */
+export function sameModel(a: string, b: string): boolean {
+    const withTag = (name: string) => name.includes(':') ? name : `${name}:latest`;
+    return withTag(a) === withTag(b);
+}
+
+export interface RunningModel extends ModelInfo {
+    expires_at: string;
+    size_vram: number;
+}
+
+export interface VersionResponse {
+    version: string;
+}
+
+export interface TagsResponse {
+    models: ModelInfo[];
+}
+
+export interface PsResponse {
+    models: RunningModel[];
+}
+
+export interface ShowRequest {
+    model: string;
+    verbose?: boolean;
+}
+
+export interface ShowResponse {
+    license?: string;
+    modelfile?: string;
+    parameters?: string;
+    template?: string;
+    system?: string;
+    details?: ModelDetails;
+    model_info?: Record<string, unknown>;
+    capabilities?: string[];
+    modified_at?: string;
+}
+
+export interface GenerateRequest {
+    model: string;
+    prompt: string;
+    suffix?: string;
+    system?: string;
+    template?: string;
+    context?: number[];
+    images?: string[];
+    format?: 'json' | Record<string, unknown>;
+    raw?: boolean;
+    keep_alive?: string | number;
+    options?: OllamaOptions;
+}
+
+/**
+ * Timing and token statistics reported on the final record of generate and chat responses
+ */
+export interface GenerationStats {
+    done: boolean;
+    done_reason?: string;
+    total_duration?: number;
+    load_duration?: number;
+    prompt_eval_count?: number;
+    prompt_eval_duration?: number;
+    eval_count?: number;
+    eval_duration?: number;
+}
+
+/**
+ * Summary of a finished generation, derived from its final stats record
+ */
+export interface GenerationMetrics {
+    promptEvalCount: number;
+    evalCount: number;
+    evalDurationMs: number;
+    totalDurationMs: number;
+    /** Time spent loading the model into memory, 0 when it was already loaded */
+    loadDurationMs: number;
+    promptEvalDurationMs: number;
+    /** Model load plus prompt processing, i.e. the wait before the first output token */
+    timeToFirstTokenMs: number;
+    tokensPerSecond: number;
+    doneReason?: string;
+    /** The reply stopped because it reached the num_predict limit */
+    truncated: boolean;
+}
+
+/**
+ * Convert the nanosecond timings of a final stats record into generation metrics
+ */
+export function getGenerationMetrics(stats: GenerationStats): GenerationMetrics {
+    const evalCount = stats.eval_count || 0;
+    const evalDuration = stats.eval_duration || 0;
+    const loadDurationMs = Math.round((stats.load_duration || 0) / 1e6);
+    const promptEvalDurationMs = Math.round((stats.prompt_eval_duration || 0) / 1e6);
+
+    return {
+        promptEvalCount: stats.prompt_eval_count || 0,
+        evalCount,
+        evalDurationMs: Math.round(evalDuration / 1e6),
+        totalDurationMs: Math.round((stats.total_duration || 0) / 1e6),
+        loadDurationMs,
+        promptEvalDurationMs,
+        timeToFirstTokenMs: loadDurationMs + promptEvalDurationMs,
+        tokensPerSecond: evalDuration > 0 ? evalCount / (evalDuration / 1e9) : 0,
+        doneReason: stats.done_reason,
+        truncated: stats.done_reason === 'length'
+    };
+}
+
+export interface GenerateResponse extends GenerationStats {
+    model: string;
+    created_at: string;
+    response: string;
+    context?: number[];
+    /** Set on a streamed record when generation fails part-way */
+    error?: string;
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: ChatMessage[];
+    tools?: ToolDefinition[];
+    format?: 'json' | Record<string, unknown>;
+    keep_alive?: string | number;
+    options?: OllamaOptions;
+}
+
+export interface ChatResponse extends GenerationStats {
+    model: string;
+    created_at: string;
+    message: ChatMessage;
+    /** Set on a streamed record when generation fails part-way */
+    error?: string;
+}
+
+export interface EmbedRequest {
+    model: string;
+    input: string | string[];
+    truncate?: boolean;
+    keep_alive?: string | number;
+    options?: OllamaOptions;
+}
+
+export interface EmbedResponse {
+    model: string;
+    embeddings: number[][];
+    total_duration?: number;
+    load_duration?: number;
+    prompt_eval_count?: number;
+}
+
+export interface PullRequest {
+    model: string;
+    insecure?: boolean;
+}
+
+export interface PushRequest {
+    model: string;
+    insecure?: boolean;
+}
+
+export interface CreateRequest {
+    model: string;
+    from?: string;
+    modelfile?: string;
+    files?: Record<string, string>;
+    adapters?: Record<string, string>;
+    template?: string;
+    system?: string;
+    parameters?: OllamaOptions;
+    license?: string | string[];
+    messages?: ChatMessage[];
+    quantize?: string;
+}
+
+/**
+ * Status record streamed by pull, push and create
+ */
+export interface ProgressResponse {
+    status: string;
+    digest?: string;
+    total?: number;
+    completed?: number;
+    error?: string;
+}
+
+export interface CopyRequest {
+    source: string;
+    destination: string;
+}
+
+export interface DeleteRequest {
+    model: string;
+}
+
+/**
+ * Per-request options shared by every client method
+ */
+export interface OllamaRequestOptions {
+    /** Timeout in milliseconds for the request (or for the response headers of a stream) */
+    timeout?: number;
+    /** Signal used to cancel the request */
+    signal?: AbortSignal;
+}
+
+/**
+ * Connection details resolved before each request, e.g. auth headers and a custom TLS agent
+ */
+export interface OllamaConnectionOptions {
+    headers?: Record<string, string>;
+    httpsAgent?: HttpsAgent;
+    /** Proxy for plain HTTP requests; HTTPS requests are tunneled by `httpsAgent` */
+    proxy?: AxiosRequestConfig['proxy'];
+}
+
+export interface OllamaClientOptions {
+    /** Default timeout in milliseconds */
+    timeout?: number;
+    headers?: Record<string, string>;
+    /** Called before every request so credentials and TLS settings can change at runtime */
+    connection?: () => Promise<OllamaConnectionOptions>;
+}
+
+export interface OllamaStreamOptions extends OllamaRequestOptions {
+    /** Called as bytes of the streamed response arrive */
+    onDownloadProgress?: (loaded: number, total?: number) => void;
+}
+
+/**
+ * Error raised for every failed Ollama API request
+ */
+export class OllamaApiError extends Error {
+    readonly endpoint: string;
+    /** HTTP status, when the server responded */
+    readonly status?: number;
+    /** Network error code such as ECONNREFUSED, ECONNABORTED or ERR_CANCELED */
+    readonly code?: string;
+    /** Error text returned by Ollama in the `error` field of the response body */
+    readonly serverMessage?: string;
+
+    constructor(message: string, endpoint: string, details: { status?: number, code?: string, serverMessage?: string } = {}) {
+        super(message);
+        this.name = 'OllamaApiError';
+        this.endpoint = endpoint;
+        this.status = details.status;
+        this.code = details.code;
+        this.serverMessage = details.serverMessage;
+    }
+
+    /** The server could not be reached at all */
+    get isConnectionError(): boolean {
+        return this.code === 'ECONNREFUSED' || this.code === 'ENOTFOUND' ||
+            this.code === 'ETIMEDOUT' || this.code === 'ECONNRESET' || this.code === 'EHOSTUNREACH';
+    }
+
+    get isTimeout(): boolean {
+        return this.code === 'ECONNABORTED' || this.code === 'ETIMEDOUT';
+    }
+
+    get isCancelled(): boolean {
+        return this.code === 'ERR_CANCELED';
+    }
+}
+
+/**
+ * Thin typed wrapper around every Ollama endpoint.
+ * Streaming endpoints resolve to the raw NDJSON response stream once headers are received.
+ */
+export class OllamaApiClient {
+    private static readonly DEFAULT_TIMEOUT = 30000;
+
+    readonly baseUrl: string;
+    private readonly defaultTimeout: number;
+    private readonly headers: Record<string, string>;
+    private readonly connection?: () => Promise<OllamaConnectionOptions>;
+
+    constructor(baseUrl: string, options: OllamaClientOptions = {}) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.defaultTimeout = options.timeout || OllamaApiClient.DEFAULT_TIMEOUT;
+        this.headers = options.headers || {};
+        this.connection = options.connection;
+    }
+
+    /**
+     * Get the Ollama server version
+     */
+    async version(options?: OllamaRequestOptions): Promise<VersionResponse> {
+        return this.request<VersionResponse>('GET', '/api/version', undefined, options);
+    }
+
+    /**
+     * List locally installed models
+     */
+    async tags(options?: OllamaRequestOptions): Promise<TagsResponse> {
+        const data = await this.request<TagsResponse>('GET', '/api/tags', undefined, options);
+        if (!data || !Array.isArray(data.models)) {
+            throw new OllamaApiError('Invalid response from Ollama API (missing models list)', '/api/tags');
+        }
+        return data;
+    }
+
+    /**
+     * Show details, parameters and template of a model
+     */
+    async show(request: ShowRequest, options?: OllamaRequestOptions): Promise<ShowResponse> {
+        return this.request<ShowResponse>('POST', '/api/show', request, options);
+    }
+
+    /**
+     * List models currently loaded into memory
+     */
+    async ps(options?: OllamaRequestOptions): Promise<PsResponse> {
+        return this.request<PsResponse>('GET', '/api/ps', undefined, options);
+    }
+
+    async generate(request: GenerateRequest, options?: OllamaRequestOptions): Promise<GenerateResponse> {
+        return this.request<GenerateResponse>('POST', '/api/generate', { ...request, stream: false }, options);
+    }
+
+    async generateStream(request: GenerateRequest, options?: OllamaStreamOptions): Promise<Readable> {
+        return this.stream('/api/generate', { ...request, stream: true }, options);
+    }
+
+    async chat(request: ChatRequest, options?: OllamaRequestOptions): Promise<ChatResponse> {
+        return this.request<ChatResponse>('POST', '/api/chat', { ...request, stream: false }, options);
+    }
+
+    async chatStream(request: ChatRequest, options?: OllamaStreamOptions): Promise<Readable> {
+        return this.stream('/api/chat', { ...request, stream: true }, options);
+    }
+
+    async embed(request: EmbedRequest, options?: OllamaRequestOptions): Promise<EmbedResponse> {
+        return this.request<EmbedResponse>('POST', '/api/embed', request, options);
+    }
+
+    /**
+     * Download a model and wait for the final status
+     */
+    async pull(request: PullRequest, options?: OllamaRequestOptions): Promise<ProgressResponse> {
+        return this.request<ProgressResponse>('POST', '/api/pull', { ...request, stream: false }, options);
+    }
+
+    async pullStream(request: PullRequest, options?: OllamaStreamOptions): Promise<Readable> {
+        return this.stream('/api/pull', { ...request, stream: true }, options);
+    }
+
+    async push(request: PushRequest, options?: OllamaRequestOptions): Promise<ProgressResponse> {
+        return this.request<ProgressResponse>('POST', '/api/push', { ...request, stream: false }, options);
+    }
+
+    async pushStream(request: PushRequest, options?: OllamaStreamOptions): Promise<Readable> {
+        return this.stream('/api/push', { ...request, stream: true }, options);
+    }
+
+    async create(request: CreateRequest, options?: OllamaRequestOptions): Promise<ProgressResponse> {
+        return this.request<ProgressResponse>('POST', '/api/create', { ...request, stream: false }, options);
+    }
+
+    async createStream(request: CreateRequest, options?: OllamaStreamOptions): Promise<Readable> {
+        return this.stream('/api/create', { ...request, stream: true }, options);
+    }
+
+    async copy(request: CopyRequest, options?: OllamaRequestOptions): Promise<void> {
+        await this.request<unknown>('POST', '/api/copy', request, options);
+    }
+
+    async delete(request: DeleteRequest, options?: OllamaRequestOptions): Promise<void> {
+        await this.request<unknown>('DELETE', '/api/delete', request, options);
+    }
+
+    private async buildConfig(method: string, path: string, data: unknown, options: OllamaRequestOptions = {}): Promise<AxiosRequestConfig> {
+        const connection = this.connection ? await this.connection() : {};
+
+        return {
+            method,
+            url: `${this.baseUrl}${path}`,
+            data,
+            timeout: options.timeout ?? this.defaultTimeout,
+            signal: options.signal,
+            headers: {
+                'Accept': 'application/json',
+                'Cache-Control': 'no-cache',
+                ...(data !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                ...this.headers,
+                ...connection.headers
+            },
+            httpsAgent: connection.httpsAgent,
+            validateStatus: status => status >= 200 && status < 300,
+            // Never fall back to axios' own environment lookup; proxies are resolved by the connection
+            proxy: connection.proxy || false
+        };
+    }
+
+    private async request<T>(method: string, path: string, data?: unknown, options?: OllamaRequestOptions): Promise<T> {
+        try {
+            const response = await axios.request<T>(await this.buildConfig(method, path, data, options));
+            return response.data;
+        } catch (error) {
+            throw await this.toApiError(error, path);
+        }
+    }
+
+    private async stream(path: string, data: unknown, options: OllamaStreamOptions = {}): Promise<Readable> {
+        try {
+            const config = await this.buildConfig('POST', path, data, options);
+            config.responseType = 'stream';
+
+            if (options.onDownloadProgress) {
+                const onProgress = options.onDownloadProgress;
+                config.onDownloadProgress = event => onProgress(event.loaded, event.total);
+            }
+
+            const response = await axios.request<Readable>(config);
+            return response.data;
+        } catch (error) {
+            throw await this.toApiError(error, path);
+        }
+    }
+
+    /**
+     * Convert any request failure into an OllamaApiError, reading the server's error text when available
+     */
+    private async toApiError(error: unknown, endpoint: string): Promise<OllamaApiError> {
+        if (error instanceof OllamaApiError) {
+            return error;
+        }
+
+        if (!axios.isAxiosError(error)) {
+            return new OllamaApiError(error instanceof Error ? error.message : String(error), endpoint);
+        }
+
+        const status = error.response?.status;
+        let serverMessage: string | undefined;
+
+        if (error.response) {
+            serverMessage = await this.readErrorBody(error.response.data);
+        }
+
+        let message: string;
+        if (serverMessage) {
+            message = `Ollama API ${endpoint} failed (Status: ${status}): ${serverMessage}`;
+        } else if (status !== undefined) {
+            message = `Ollama API ${endpoint} failed with status code ${status}`;
+        } else {
+            message = error.message;
+        }
+
+        return new OllamaApiError(message, endpoint, { status, code: error.code, serverMessage });
+    }
+
+    /**
+     * Extract the `error` field from a JSON or streamed error body
+     */
+    private async readErrorBody(body: unknown): Promise<string | undefined> {
+        try {
+            let text: string;
+
+            if (body && typeof (body as Readable).on === 'function') {
+                text = await new Promise<string>((resolve) => {
+                    const stream = body as Readable;
+                    let collected = '';
+                    stream.on('data', (chunk: Buffer) => { collected += chunk.toString(); });
+                    stream.on('end', () => resolve(collected));
+                    stream.on('error', () => resolve(collected));
+                });
+            } else if (typeof body === 'string') {
+                text = body;
+            } else if (body && typeof body === 'object') {
+                const record = body as { error?: unknown };
+                return typeof record.error === 'string' ? record.error : undefined;
+            } else {
+                return undefined;
+            }
+
+            const parsed = JSON.parse(text);
+            return typeof parsed.error === 'string' ? parsed.error : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -8,12 +8,19 @@ const chatContainer = document.getElementById('chat-container');
 const promptInput = document.getElementById('prompt-input');
 const sendButton = document.getElementById('send-button');
 const modelDisplay = document.getElementById('model-display');
+const attachButton = document.getElementById('attach-button');
+const imageAttachments = document.getElementById('image-attachments');
+const inputContainer = document.querySelector('.input-container');
 
 // State variables
 let currentResponseElement = null;
 let pendingScrolls = [];
 let currentResponseText = '';
 
+// Images attached to the next prompt, as { name, data } with base64 data
+let pendingImages = [];
+const MAX_IMAGE_SIZE = 4 * 1024 * 1024;
+
 // Session management variables
 let availableModels = [];
 const currentSessionDisplay = document.getElementById('current-session-name');
@@ -426,11 +433,69 @@ function isUserNearBottom() {
     return scrollHeight - scrollPosition <= threshold;
 }
 
+// Data URL for a base64 PNG or JPEG image
+function imageDataUrl(data) {
+    return `data:${data.startsWith('iVBORw0KGgo') ? 'image/png' : 'image/jpeg'};base64,${data}`;
+}
+
+// Show the images waiting to be sent, each with a remove button
+function renderPendingImages() {
+    imageAttachments.innerHTML = '';
+    pendingImages.forEach((image, index) => {
+        const item = document.createElement('div');
+        item.className = 'image-attachment';
+        item.title = image.name;
+        
+        const img = document.createElement('img');
+        img.src = imageDataUrl(image.data);
+        img.alt = image.name;
+        item.appendChild(img);
+        
+        const removeButton = document.createElement('button');
+        removeButton.className = 'remove-image';
+        removeButton.textContent = '×';
+        removeButton.title = 'Remove';
+        removeButton.addEventListener('click', () => {
+            pendingImages.splice(index, 1);
+            renderPendingImages();
+        });
+        item.appendChild(removeButton);
+        
+        imageAttachments.appendChild(item);
+    });
+}
+
+// Read a pasted or dropped image file into the pending attachments
+function attachImageFile(file) {
+    if (!/^image\/(png|jpeg)$/.test(file.type)) {
+        return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+        alert(`${file.name || 'Image'} is larger than 4 MB and was not attached`);
+        return;
+    }
+    
+    const reader = new FileReader();
+    reader.onload = () => {
+        // Strip the "data:image/png;base64," prefix
+        const data = String(reader.result).split(',')[1];
+        if (data) {
+            pendingImages.push({ name: file.name || 'pasted image', data });
+            renderPendingImages();
+        }
+    };
+    reader.readAsDataURL(file);
+}
+
 // Send prompt to extension
 function sendPrompt() {
     const text = promptInput.value.trim();
     if (text) {
-        addUserMessage(text);
+        const images = pendingImages.map(image => image.data);
+        pendingImages = [];
+        renderPendingImages();
+        
+        addUserMessage(text, images);
         promptInput.value = '';
         autoResizeTextarea();
         
@@ -442,17 +507,30 @@ function sendPrompt() {
             vscode.postMessage({
                 command: 'sendPrompt',
                 text: text,
+                images: images.length > 0 ? images : undefined,
                 includeContext: true // Always include context
             });
         }, 100);
     }
 }
 
-// Add user message to chat
-function addUserMessage(text) {
+// Add user message to chat, with thumbnails of any attached images
+function addUserMessage(text, images) {
     const div = document.createElement('div');
     div.className = 'message user-message';
     div.textContent = text;
+    
+    if (images && images.length > 0) {
+        const imageList = document.createElement('div');
+        imageList.className = 'message-images';
+        images.forEach(data => {
+            const img = document.createElement('img');
+            img.src = imageDataUrl(data);
+            imageList.appendChild(img);
+        });
+        div.appendChild(imageList);
+    }
+    
     chatContainer.appendChild(div);
     chatContainer.scrollTop = chatContainer.scrollHeight;
 }
@@ -467,6 +545,73 @@ function addBotMessage(text = '') {
     return div;
 }
 
+// Show tokens/sec under a finished response and warn if it was cut off
+function showResponseMetrics(container, metrics, model, options, cached) {
+    if (metrics.evalCount > 0) {
+        const seconds = ms => `${((ms || 0) / 1000).toFixed(1)}s`;
+        const parts = [
+            `${metrics.promptEvalCount} prompt tokens`,
+            `${metrics.evalCount} output tokens`,
+            `first token ${seconds(metrics.timeToFirstTokenMs)}`,
+            `${metrics.tokensPerSecond.toFixed(1)} tokens/s`
+        ];
+        if (metrics.loadDurationMs > 0) {
+            parts.push(`load ${seconds(metrics.loadDurationMs)}`);
+        }
+        if (model) {
+            parts.unshift(model);
+        }
+        if (cached) {
+            parts.unshift('cached');
+        }
+        
+        const stats = document.createElement('div');
+        stats.className = 'response-stats';
+        stats.textContent = parts.join(' · ');
+        stats.title = `Total time ${seconds(metrics.totalDurationMs)}`;
+        // The options the reply was generated with, so it can be reproduced
+        if (options) {
+            const optionText = Object.keys(options).sort()
+                .map(name => `${name}=${JSON.stringify(options[name])}`)
+                .join(', ');
+            stats.title += `\nOptions: ${optionText}`;
+        }
+        container.appendChild(stats);
+    }
+
+    if (metrics.truncated) {
+        const warning = document.createElement('div');
+        warning.className = 'truncation-warning';
+        warning.textContent = 'This response was cut off because it reached the maximum response length. Increase "Max Response Tokens" in settings or ask the model to continue.';
+        container.appendChild(warning);
+    }
+}
+
+// Show where the request waits in the request queue; position 0 means it has started
+function showQueueStatus(position) {
+    if (!currentResponseElement) {
+        return;
+    }
+    
+    let status = currentResponseElement.querySelector('[data-queue-status]');
+    if (position <= 0) {
+        if (status) {
+            status.remove();
+        }
+        return;
+    }
+    
+    if (!status) {
+        status = document.createElement('div');
+        status.setAttribute('data-queue-status', 'true');
+        status.style.fontStyle = 'italic';
+        status.style.color = 'var(--vscode-descriptionForeground)';
+        status.style.marginBottom = '8px';
+        currentResponseElement.appendChild(status);
+    }
+    status.textContent = `Waiting for the server (position ${position} in queue)...`;
+}
+
 // Format date for session display
 function formatDate(timestamp) {
     const date = new Date(timestamp);
@@ -614,7 +759,7 @@ function loadSessionMessages(messages) {
     // Add each message to the chat
     messages.forEach(msg => {
         if (msg.role === 'user') {
-            addUserMessage(msg.content);
+            addUserMessage(msg.content, msg.images);
         } else {
             // Add bot message with markdown parsing
             const msgElement = addBotMessage();
@@ -627,6 +772,11 @@ function loadSessionMessages(messages) {
                 if (codeBlocks.length > 0) {
                     highlightCodeBlocks(codeBlocks);
                 }
+                
+                // Stored metrics only exist for replies recorded by newer versions
+                if (msg.metrics) {
+                    showResponseMetrics(msgElement, msg.metrics, msg.model, msg.options);
+                }
             } catch (e) {
                 console.error('Error formatting message:', e);
                 msgElement.textContent = msg.content;
@@ -733,6 +883,48 @@ promptInput.addEventListener('keydown', (e) => {
     }
 });
 
+// Image attachments: pick from the workspace, paste, or drop files
+attachButton.addEventListener('click', () => {
+    vscode.postMessage({ command: 'pickImages' });
+});
+
+promptInput.addEventListener('paste', (e) => {
+    const files = Array.from(e.clipboardData ? e.clipboardData.files : []);
+    const imageFiles = files.filter(file => file.type.startsWith('image/'));
+    if (imageFiles.length > 0) {
+        e.preventDefault();
+        imageFiles.forEach(attachImageFile);
+    }
+});
+
+inputContainer.addEventListener('dragover', (e) => {
+    e.preventDefault();
+    inputContainer.classList.add('drag-over');
+});
+
+inputContainer.addEventListener('dragleave', () => {
+    inputContainer.classList.remove('drag-over');
+});
+
+inputContainer.addEventListener('drop', (e) => {
+    e.preventDefault();
+    inputContainer.classList.remove('drag-over');
+    
+    const files = Array.from(e.dataTransfer.files || []);
+    if (files.length > 0) {
+        files.forEach(attachImageFile);
+        return;
+    }
+    
+    // Files dragged from the VS Code explorer arrive as URIs, which only the extension can read
+    const uris = (e.dataTransfer.getData('text/uri-list') || '')
+        .split(/\r?\n/)
+        .filter(uri => uri && !uri.startsWith('#'));
+    if (uris.length > 0) {
+        vscode.postMessage({ command: 'attachImageUris', uris });
+    }
+});
+
 // Handle messages from extension
 window.addEventListener('message', event => {
     const message = event.data;
@@ -751,6 +943,11 @@ window.addEventListener('message', event => {
             }
             break;
             
+        case 'imageAttached':
+            pendingImages.push({ name: message.name, data: message.data });
+            renderPendingImages();
+            break;
+            
         case 'setModel':
             modelDisplay.textContent = 'Model: ' + message.model;
             
@@ -819,6 +1016,10 @@ window.addEventListener('message', event => {
             }
             break;
         
+        case 'queueStatus':
+            showQueueStatus(message.position);
+            break;
+        
         case 'appendResponse':
             if (currentResponseElement) {
                 // Remove the thinking indicator if this is not a status message
@@ -866,6 +1067,9 @@ window.addEventListener('message', event => {
                         }
                     }
                 } else {
+                    // The first token means the request has left the queue
+                    showQueueStatus(0);
+                    
                     // For normal text, append it to our current response
                     console.log('Appending response text:', message.text.substring(0, Math.min(50, message.text.length)) + (message.text.length > 50 ? '...' : ''));
                     
@@ -959,6 +1163,8 @@ window.addEventListener('message', event => {
             }
             
             if (currentResponseElement) {
+                showQueueStatus(0);
+                
                 // Clean up thinking indicator if it still exists
                 const thinkingIndicator = currentResponseElement.querySelector('.thinking');
                 if (thinkingIndicator) {
@@ -1033,6 +1239,11 @@ window.addEventListener('message', event => {
                     });
                     container.appendChild(retryButton);
                 }
+                
+                // Show generation speed and warn when the reply hit the token limit
+                if (message.metrics && container) {
+                    showResponseMetrics(container, message.metrics, message.model, message.options, message.cached);
+                }
             }
             
             // Reset state
@@ -1051,6 +1262,8 @@ window.addEventListener('message', event => {
             }
             
             if (currentResponseElement) {
+                showQueueStatus(0);
+                
                 // Remove the thinking indicator if it exists
                 const thinkingIndicator = currentResponseElement.querySelector('.thinking');
                 if (thinkingIndicator) {
@@ -1143,7 +1356,8 @@ window.addEventListener('message', event => {
                     vscode.postMessage({
                         command: 'sendPrompt',
                         text: text,
-                        includeContext: includeContext
+                        includeContext: includeContext,
+                        source: message.source
                     });
                 }
             }, 100);
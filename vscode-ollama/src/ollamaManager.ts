@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { OllamaService, OllamaModel } from './ollamaService';
 import { EmbeddedOllamaService, EmbeddedModel } from './embeddedOllamaService';
+import { ModelProvider, ProviderKind } from './providers/modelProvider';
+import { OllamaProvider } from './providers/ollamaProvider';
+import { OpenAICompatibleProvider } from './providers/openAiCompatibleProvider';
+import { MockOllamaServer } from './mockOllamaServer';
 
 /**
  * OllamaMode determines how Ollama will be used by the extension
@@ -19,7 +23,12 @@ export enum OllamaMode {
     /**
      * Auto-detect: use embedded if system is not available
      */
-    Auto = 'auto'
+    Auto = 'auto',
+    
+    /**
+     * Use a local fake server with scripted replies, for demos and tests without Ollama
+     */
+    Mock = 'mock'
 }
 
 /**
@@ -33,6 +42,10 @@ export class OllamaManager {
     private serviceChannel: vscode.OutputChannel;
     private apiChannel: vscode.OutputChannel;
     private extensionPath: string;
+    private ollamaProvider: OllamaProvider | null = null;
+    private openAiCompatibleProvider: OpenAICompatibleProvider | null = null;
+    private mockServer: MockOllamaServer | null = null;
+    private mockReady: Promise<void> | null = null;
     
     constructor(
         extensionPath: string, 
@@ -43,8 +56,8 @@ export class OllamaManager {
         this.serviceChannel = serviceChannel;
         this.apiChannel = apiChannel;
         
-        // Initialize system Ollama service first
-        this.systemService = new OllamaService(serviceChannel, apiChannel);
+        // Initialize system Ollama service first; in mock mode it talks to the mock server
+        this.systemService = new OllamaService(serviceChannel, apiChannel, this.getMockApiUrl());
         
         // Initialize embedded service only when requested
         this.initializeServices();
@@ -59,8 +72,8 @@ export class OllamaManager {
         
         this.serviceChannel.appendLine(`OllamaManager initializing with mode: ${this.currentMode}`);
         
-        if (this.currentMode !== OllamaMode.System) {
-            // Initialize embedded service if not in system-only mode
+        if (this.currentMode !== OllamaMode.System && this.currentMode !== OllamaMode.Mock) {
+            // Initialize embedded service if not in system-only or mock mode
             this.embeddedService = new EmbeddedOllamaService(this.extensionPath, this.serviceChannel);
         }
         
@@ -72,23 +85,62 @@ export class OllamaManager {
      * Get the configured mode from settings
      */
     private getConfiguredMode(): OllamaMode {
-        const configMode = vscode.workspace.getConfiguration('ollamaEnhanced').get('mode', 'auto');
+        const configMode = vscode.workspace.getConfiguration('ollamaEnhanced').get<string>('mode', 'auto');
         
         switch (configMode) {
             case 'system':
                 return OllamaMode.System;
             case 'embedded':
                 return OllamaMode.Embedded;
+            case 'mock':
+                return OllamaMode.Mock;
             case 'auto':
             default:
                 return OllamaMode.Auto;
         }
     }
     
+    /**
+     * Start the mock server when `ollamaEnhanced.mode` is `mock` and return its URL for the system service
+     */
+    private getMockApiUrl(): string | undefined {
+        if (this.getConfiguredMode() !== OllamaMode.Mock) {
+            return undefined;
+        }
+        
+        const port = vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('mock.port', 11435);
+        if (!this.mockServer) {
+            this.mockServer = MockOllamaServer.fromConfiguration(this.serviceChannel);
+            this.mockReady = this.mockServer.start(port).then(() => undefined, error => {
+                const message = `Could not start the mock Ollama server on port ${port}: ${error instanceof Error ? error.message : String(error)}`;
+                this.serviceChannel.appendLine(message);
+                vscode.window.showErrorMessage(message);
+            });
+        }
+        return `http://127.0.0.1:${port}`;
+    }
+    
+    /**
+     * Stop the mock server after leaving mock mode
+     */
+    private async stopMockServer(): Promise<void> {
+        if (this.mockServer) {
+            await this.mockServer.stop();
+            this.mockServer = null;
+            this.mockReady = null;
+        }
+    }
+    
     /**
      * Determine which service to use based on mode and availability
      */
     private async determineActiveService(): Promise<void> {
+        if (this.currentMode === OllamaMode.Mock) {
+            this.serviceChannel.appendLine('Using mock Ollama server (configured mode)');
+            await this.mockReady;
+            return;
+        }
+        
         if (this.currentMode === OllamaMode.System) {
             // Use system Ollama only
             this.serviceChannel.appendLine('Using system Ollama service only (configured mode)');
@@ -129,6 +181,11 @@ export class OllamaManager {
      * Get the active Ollama service based on current mode
      */
     private async getActiveService(): Promise<OllamaService | EmbeddedOllamaService> {
+        if (this.currentMode === OllamaMode.Mock) {
+            await this.mockReady;
+            return this.systemService;
+        }
+        
         if (this.currentMode === OllamaMode.System) {
             return this.systemService;
         }
@@ -162,6 +219,11 @@ export class OllamaManager {
      * Check if Ollama (either system or embedded) is installed/available
      */
     public async checkOllamaInstalled(): Promise<boolean> {
+        if (this.currentMode === OllamaMode.Mock) {
+            await this.mockReady;
+            return this.mockServer !== null && this.mockServer.isRunning;
+        }
+        
         try {
             // First try system Ollama based on mode
             if (this.currentMode === OllamaMode.System || this.currentMode === OllamaMode.Auto) {
@@ -233,7 +295,8 @@ export class OllamaManager {
             stream?: boolean,
             maxTokens?: number,
             temperature?: number,
-            timeoutSeconds?: number
+            timeoutSeconds?: number,
+            signal?: AbortSignal
         }
     ): Promise<string> {
         const service = await this.getActiveService();
@@ -241,20 +304,21 @@ export class OllamaManager {
         if (service === this.systemService) {
             if (options?.stream && onChunk) {
                 // Use streaming API
-                await this.systemService.streamCompletion(
+                const result = await this.systemService.streamCompletion(
                     model, 
                     prompt, 
                     onChunk, 
                     {
                         maxTokens: options.maxTokens,
                         temperature: options.temperature,
-                        timeoutSeconds: options.timeoutSeconds
+                        timeoutSeconds: options.timeoutSeconds,
+                        signal: options.signal
                     }
                 );
-                return ''; // The response is delivered via onChunk
+                return result.content;
             } else {
                 // Use non-streaming API
-                return await this.systemService.generateCompletion(model, prompt);
+                return await this.systemService.generateCompletion(model, prompt, { signal: options?.signal });
             }
         } else if (this.embeddedService) {
             return await this.embeddedService.generateCompletion(
@@ -264,7 +328,8 @@ export class OllamaManager {
                 {
                     stream: options?.stream,
                     maxTokens: options?.maxTokens,
-                    temperature: options?.temperature
+                    temperature: options?.temperature,
+                    signal: options?.signal
                 }
             );
         }
@@ -272,6 +337,41 @@ export class OllamaManager {
         throw new Error('No Ollama service available');
     }
     
+    /**
+     * Recreate the system service so a changed API URL takes effect
+     */
+    public reloadSystemService(): OllamaService {
+        this.systemService = new OllamaService(this.serviceChannel, this.apiChannel, this.getMockApiUrl());
+        this.ollamaProvider = null;
+        return this.systemService;
+    }
+    
+    /**
+     * The current system Ollama service; look it up on each use, since a changed API URL replaces it
+     */
+    public getSystemService(): OllamaService {
+        return this.systemService;
+    }
+    
+    /**
+     * Get the configured chat provider (`ollamaEnhanced.provider`); mock mode always uses the Ollama provider
+     */
+    public getProvider(): ModelProvider {
+        const kind = vscode.workspace.getConfiguration('ollamaEnhanced').get<ProviderKind>('provider', 'ollama');
+        
+        if (kind === 'openaiCompatible' && this.currentMode !== OllamaMode.Mock) {
+            if (!this.openAiCompatibleProvider) {
+                this.openAiCompatibleProvider = new OpenAICompatibleProvider(this.apiChannel);
+            }
+            return this.openAiCompatibleProvider;
+        }
+        
+        if (!this.ollamaProvider) {
+            this.ollamaProvider = new OllamaProvider(this.systemService);
+        }
+        return this.ollamaProvider;
+    }
+    
     /**
      * Show a dialog to select and install an embedded model
      */
@@ -319,16 +419,35 @@ export class OllamaManager {
         }
         
         this.serviceChannel.appendLine(`Switching Ollama mode from ${this.currentMode} to ${newMode}`);
+        const mockChanged = this.currentMode === OllamaMode.Mock || newMode === OllamaMode.Mock;
         this.currentMode = newMode;
         
         // Update configuration
         await vscode.workspace.getConfiguration('ollamaEnhanced').update('mode', newMode, vscode.ConfigurationTarget.Global);
         
+        // Entering or leaving mock mode changes the server the system service talks to
+        if (mockChanged) {
+            if (newMode !== OllamaMode.Mock) {
+                await this.stopMockServer();
+            }
+            this.reloadSystemService();
+        }
+        
         // Make sure services are properly initialized
         await this.determineActiveService();
         
-        // Notify user
-        vscode.window.showInformationMessage(`Switched to ${this.getModeDisplayName(newMode)} mode`);
+        // Notify user; views and commands created at startup keep the previous service until the window reloads
+        if (mockChanged) {
+            const selection = await vscode.window.showInformationMessage(
+                `Switched to ${this.getModeDisplayName(newMode)} mode. Reload the window to use it everywhere.`,
+                'Reload Window'
+            );
+            if (selection === 'Reload Window') {
+                vscode.commands.executeCommand('workbench.action.reloadWindow');
+            }
+        } else {
+            vscode.window.showInformationMessage(`Switched to ${this.getModeDisplayName(newMode)} mode`);
+        }
     }
     
     /**
@@ -342,6 +461,8 @@ export class OllamaManager {
                 return 'Embedded Ollama';
             case OllamaMode.Auto:
                 return 'Auto-detect';
+            case OllamaMode.Mock:
+                return 'Mock Ollama';
             default:
                 return 'Unknown mode';
         }
@@ -354,12 +475,23 @@ export class OllamaManager {
         return this.currentMode;
     }
     
+    /**
+     * The mock server in mock mode, for scripting replies and failures from tests
+     */
+    public getMockServer(): MockOllamaServer | null {
+        return this.mockServer;
+    }
+    
     /**
      * Get base URL of the active Ollama API
      */
     public async getApiUrl(): Promise<string> {
         const service = await this.getActiveService();
         
+        if (this.currentMode === OllamaMode.Mock && this.mockServer && this.mockServer.isRunning) {
+            return this.mockServer.url;
+        }
+        
         if (service === this.systemService) {
             return vscode.workspace.getConfiguration('ollamaEnhanced').get('apiUrl') as string || 'http://localhost:11434';
         } else if (this.embeddedService) {
@@ -373,6 +505,8 @@ export class OllamaManager {
      * Clean up resources when the extension is deactivated
      */
     public async dispose(): Promise<void> {
+        await this.stopMockServer();
+        
         // Stop embedded Ollama if it's running
         if (this.embeddedService) {
             await this.embeddedService.dispose();
@@ -1,7 +1,18 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { OllamaService } from './ollamaService';
+import * as os from 'os';
+import { OllamaManager } from './ollamaManager';
+import { ChatMessage, GenerationMetrics, OllamaApiError, OllamaOptions } from './ollamaApi';
+import { ChatSession, ChatSessionStore } from './sessionStore';
+import { ConfigHelper, RequestTracker } from './utils';
+import { categorizeError, ErrorCategory } from './resilience';
+import { RequestPriority, RequestScheduler, RequestSupersededError } from './requestScheduler';
+import { TokenBudget } from './tokenBudget';
+import { GenerationOptions } from './generationOptions';
+import { ModelCapabilities } from './modelCapabilities';
+import { ModelRouter } from './modelRouter';
+import { createWorkspaceToolRegistry } from './tools/workspaceTools';
 
 interface ProjectContext {
     files: string[];
@@ -10,20 +21,6 @@ interface ProjectContext {
     workspaceFolders: string[];
 }
 
-// Define a chat session interface
-interface ChatSession {
-    id: string;
-    name: string;
-    modelName: string;
-    messages: {
-        role: 'user' | 'assistant';
-        content: string;
-        timestamp: number;
-    }[];
-    createdAt: number;
-    updatedAt: number;
-}
-
 export class OllamaPanel {
     /**
      * Extracts code blocks from a response with improved formatting handling
@@ -72,7 +69,7 @@ export class OllamaPanel {
     }
     public static currentPanel: OllamaPanel | undefined;
     private readonly panel: vscode.WebviewPanel;
-    private readonly ollamaService: OllamaService;
+    private readonly ollamaManager: OllamaManager;
     private currentModel: string | undefined;
     private disposables: vscode.Disposable[] = [];
     private contextWatcher: vscode.Disposable | null = null;
@@ -81,10 +78,18 @@ export class OllamaPanel {
     // Session management
     private sessions: ChatSession[] = [];
     private currentSessionId: string | null = null;
-    private readonly sessionsStorageKey = 'ollama-chat-sessions';
-    private extensionContext: vscode.ExtensionContext;
+    private readonly sessionStore: ChatSessionStore;
+    private static readonly SYSTEM_PROMPT = 'You are a helpful coding assistant running inside VS Code. ' +
+        'Answer questions about the user\'s code, keep track of earlier messages in the conversation, ' +
+        'and format code in fenced markdown blocks with a language tag.';
     
     // Request handling properties
+    private static readonly CHAT_REQUEST_ID = 'chat';
+    /** Chat requests per prompt that may return tool calls */
+    private static readonly MAX_TOOL_ROUNDS = 5;
+    private readonly toolRegistry = createWorkspaceToolRegistry();
+    /** Larger images are rejected; they are sent with every later turn and stored in the chat history */
+    private static readonly MAX_IMAGE_SIZE = 4 * 1024 * 1024;
     private currentRequestController: AbortController | null = null;
     private currentPromptId: string | null = null;
     
@@ -95,10 +100,10 @@ export class OllamaPanel {
     private readonly MAX_RESPONSE_SIZE = 100000; // Maximum size for stored response
     private readonly BATCH_SIZE = 500; // Characters per batch to avoid UI sluggishness
 
-    private constructor(panel: vscode.WebviewPanel, ollamaService: OllamaService) {
+    private constructor(panel: vscode.WebviewPanel, ollamaManager: OllamaManager, context: vscode.ExtensionContext) {
         this.panel = panel;
-        this.ollamaService = ollamaService;
-        // Don't try to access the extension context directly
+        this.ollamaManager = ollamaManager;
+        this.sessionStore = new ChatSessionStore(context);
 
         // Set basic HTML content - moved this later to ensure initialization completes
         
@@ -126,6 +131,8 @@ export class OllamaPanel {
             async (message) => {
                 switch (message.command) {
                     case 'sendPrompt':
+                        // A model that was removed since it was picked falls back to the chat model from the settings
+                        await this.routeChatModel();
                         if (!this.currentModel) {
                             vscode.window.showErrorMessage('Please select a model first');
                             return;
@@ -136,8 +143,11 @@ export class OllamaPanel {
                             await this.createNewSession(this.currentModel);
                         }
                         
-                        // Record the user message
-                        await this.recordMessage('user', message.text);
+                        // Record the user message with any attached images
+                        if (OllamaPanel.parseImages(message.images) && await ModelCapabilities.lacks(this.currentModel, 'vision')) {
+                            vscode.window.showWarningMessage(`${this.currentModel} does not support images; they will likely be ignored. Pick a vision model to ask about them.`);
+                        }
+                        await this.recordMessage('user', message.text, { images: OllamaPanel.parseImages(message.images) });
                         
                         // Get project context to enhance the prompt
                         const projectContext = await this.getProjectContext();
@@ -157,31 +167,28 @@ export class OllamaPanel {
                             // Enhance prompt with context if requested
                             let enhancedPrompt = message.text;
                             if (message.includeContext) {
-                                enhancedPrompt = this.createEnhancedPrompt(message.text, projectContext);
+                                // Attached context gets its share of the selected model's context window
+                                const contextWindow = await this.ollamaManager.getProvider().getContextWindow(this.currentModel);
+                                const budget = TokenBudget.plan(contextWindow, {
+                                    systemPrompt: OllamaPanel.SYSTEM_PROMPT,
+                                    maxResponseTokens: vscode.workspace.getConfiguration('ollama').get('maxResponseTokens') as number || 4096
+                                });
+                                enhancedPrompt = this.createEnhancedPrompt(message.text, projectContext, budget.attachedContext);
                             }
                             
                             let fullResponse = '';
                             
-                            // Add support for storing current request for cancellation
-                            this.currentRequestController = new AbortController();
+                            // Track the request so the Stop button and the cancel command can abort it.
+                            // Starting a new prompt aborts the previous one.
+                            const requestController = RequestTracker.createRequest(OllamaPanel.CHAT_REQUEST_ID);
+                            this.currentRequestController = requestController;
                             
                             // Store the current prompt ID to handle multiple concurrent requests
                             this.currentPromptId = promptId;
                             
-                            // Register cancellation handler for the specific command
-                            const cancelDisposable = vscode.commands.registerCommand('vscode-ollama-enhanced.cancelRequest', () => {
-                                if (this.currentRequestController) {
-                                    this.currentRequestController.abort();
-                                    this.panel.webview.postMessage({
-                                        command: 'appendResponse',
-                                        text: "\n\n_Request cancelled by user._"
-                                    });
-                                }
-                            });
-                            
                             // Get configuration settings
-                            const timeoutSeconds = vscode.workspace.getConfiguration('ollama').get('requestTimeout') as number || 90;
-                            const temperature = vscode.workspace.getConfiguration('ollama').get('temperature') as number || 0.7;
+                            const timeoutSeconds = ConfigHelper.getTimeoutSeconds();
+                            const generationOptions = this.getSessionGenerationOptions();
                             
                             // Use enhanced streamCompletion with improved timeout and error handling
                             console.log('Starting stream completion with model:', this.currentModel);
@@ -260,81 +267,164 @@ export class OllamaPanel {
                             // Track if we've seen an error
                             let hasError = false;
                             
+                            // The reply from the model, without status messages
+                            let assistantReply = '';
+                            
+                            // Token counts and timings from the final stream record
+                            let metrics: GenerationMetrics | undefined;
+                            let requestOptions: OllamaOptions | undefined;
+                            let responseCached = false;
+                            
                             try {
-                                await this.ollamaService.streamCompletion(
-                                    this.currentModel,
-                                    enhancedPrompt,
-                                    (chunk) => {
-                                        // Skip processing if this isn't the current prompt anymore
-                                        if (this.currentPromptId !== promptId) {
-                                            console.log('Skipping chunk as prompt ID changed');
-                                            return;
-                                        }
+                                // Send the whole conversation so follow-up questions keep their context
+                                const chatMessages = this.buildChatMessages(enhancedPrompt);
+                                
+                                const model = this.currentModel;
+                                const onChunk = (chunk: string) => {
+                                    // Skip processing if this isn't the current prompt anymore
+                                    if (this.currentPromptId !== promptId) {
+                                        console.log('Skipping chunk as prompt ID changed');
+                                        return;
+                                    }
+                                    
+                                    // Check if this is an error message (they start with _Error:)
+                                    if (chunk.trim().startsWith('_Error:')) {
+                                        console.error('Received error in chunk:', chunk);
+                                        hasError = true;
+                                    }
+                                    
+                                    // Log small preview for debugging
+                                    if (chunk.trim()) {
+                                        console.log('Received chunk:', 
+                                            chunk.substring(0, Math.min(50, chunk.length)) + 
+                                            (chunk.length > 50 ? '...' : '')
+                                        );
                                         
-                                        // Check if this is an error message (they start with _Error:)
-                                        if (chunk.trim().startsWith('_Error:')) {
-                                            console.error('Received error in chunk:', chunk);
-                                            hasError = true;
+                                        // Add to processing queue instead of posting directly
+                                        this.responseChunks.push(chunk);
+                                    }
+                                };
+                                
+                                const tools = vscode.workspace.getConfiguration('ollamaEnhanced').get<boolean>('chatTools', true)
+                                    ? this.toolRegistry.getDefinitions()
+                                    : undefined;
+                                
+                                // Tool results go back to the model until it answers without calling a tool.
+                                // The last round is sent without tools so the model has to answer.
+                                for (let round = 0; round <= OllamaPanel.MAX_TOOL_ROUNDS; round++) {
+                                    const result = await RequestScheduler.schedule(() => this.ollamaManager.getProvider().streamChat(
+                                        model,
+                                        chatMessages,
+                                        onChunk,
+                                        {
+                                            timeoutSeconds: timeoutSeconds,
+                                            generationOptions,
+                                            signal: requestController.signal,
+                                            tools: round < OllamaPanel.MAX_TOOL_ROUNDS ? tools : undefined,
+                                            // Code actions such as explainCode are counted under their own command
+                                            usageCommand: typeof message.source === 'string' ? message.source : 'chat',
+                                            // Code actions are often repeated on the same selection; the cache key covers the whole conversation
+                                            cacheable: typeof message.source === 'string' && message.source !== 'chat'
+                                        }
+                                    ), {
+                                        priority: RequestPriority.Chat,
+                                        key: OllamaPanel.CHAT_REQUEST_ID,
+                                        signal: requestController.signal,
+                                        onQueuePosition: (position) => {
+                                            // Shown apart from the reply, so it never ends up in the saved response
+                                            if (this.currentPromptId === promptId) {
+                                                this.panel.webview.postMessage({ command: 'queueStatus', position });
+                                            }
                                         }
+                                    });
+                                    
+                                    assistantReply += result.content;
+                                    metrics = result.metrics;
+                                    requestOptions = result.options;
+                                    responseCached = Boolean(result.cached);
+                                    
+                                    if (result.cancelled) {
+                                        // A newer prompt also cancels this one, but then the UI belongs to the new prompt
+                                        if (this.currentPromptId === promptId) {
+                                            this.responseChunks.push('\n\n_Request cancelled by user._');
+                                        }
+                                        break;
+                                    }
+                                    
+                                    if (!result.toolCalls) {
+                                        break;
+                                    }
+                                    
+                                    chatMessages.push({ role: 'assistant', content: result.content, tool_calls: result.toolCalls });
+                                    for (const call of result.toolCalls) {
+                                        onChunk(`\n\n_Calling tool \`${call.function.name}\` ${JSON.stringify(call.function.arguments || {})}_\n\n`);
                                         
-                                        // Log small preview for debugging
-                                        if (chunk.trim()) {
-                                            console.log('Received chunk:', 
-                                                chunk.substring(0, Math.min(50, chunk.length)) + 
-                                                (chunk.length > 50 ? '...' : '')
-                                            );
-                                            
-                                            // Add to processing queue instead of posting directly
-                                            this.responseChunks.push(chunk);
+                                        const toolResult = await this.toolRegistry.execute(call, requestController.signal);
+                                        if (toolResult.failed) {
+                                            onChunk(`_Tool \`${toolResult.name}\` failed: ${toolResult.content.split('\n')[0]}_\n\n`);
                                         }
-                                    },
-                                    {
-                                        timeoutSeconds: timeoutSeconds,
-                                        temperature: temperature
+                                        chatMessages.push({ role: 'tool', tool_name: toolResult.name, content: toolResult.content });
                                     }
-                                );
+                                }
                             } catch (streamError) {
-                                console.error('Error in streamCompletion:', streamError);
-                                
-                                // More detailed error logging
-                                let errorMessage = '';
-                                if (streamError instanceof Error) {
-                                    errorMessage = streamError.message;
-                                    if (streamError.stack) {
-                                        console.error('Error stack:', streamError.stack);
+                                if (requestController.signal.aborted || streamError instanceof RequestSupersededError) {
+                                    // Cancelled or replaced while waiting in the request queue
+                                    if (this.currentPromptId === promptId) {
+                                        this.responseChunks.push('\n\n_Request cancelled by user._');
                                     }
                                 } else {
-                                    errorMessage = String(streamError);
-                                }
+                                    console.error('Error in streamCompletion:', streamError);
                                 
-                                // If we already saw an error message in the chunks, no need to show another
-                                if (!hasError) {
-                                    // Create a more user-friendly error message based on error content
-                                    let userMessage = '';
-                                    
-                                    if (errorMessage.includes('timed out') || errorMessage.includes('stalled')) {
-                                        userMessage = 'The Ollama server stopped responding. This could be because the model is overloaded or the server crashed.';
-                                    } else if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('ENOTFOUND')) {
-                                        userMessage = 'Could not connect to the Ollama server. Make sure Ollama is running and accessible.';
-                                    } else if (errorMessage.includes('out of memory') || errorMessage.includes('OOM')) {
-                                        userMessage = 'The Ollama server ran out of memory. Try using a smaller model or reducing the context size.';
+                                    // More detailed error logging
+                                    let errorMessage = '';
+                                    if (streamError instanceof Error) {
+                                        errorMessage = streamError.message;
+                                        if (streamError.stack) {
+                                            console.error('Error stack:', streamError.stack);
+                                        }
                                     } else {
-                                        // Generic error
-                                        userMessage = `${errorMessage} - Try restarting Ollama or switching to a different model.`;
+                                        errorMessage = String(streamError);
                                     }
+                                
+                                    // If we already saw an error message in the chunks, no need to show another
+                                    if (!hasError) {
+                                        // Create a more user-friendly error message based on error content
+                                        let userMessage = '';
                                     
-                                    // Push an error message to the chunk queue
-                                    this.responseChunks.push(`\n\n_Error: ${userMessage}_`);
-                                }
+                                        switch (categorizeError(streamError)) {
+                                            case ErrorCategory.Timeout:
+                                                userMessage = 'The Ollama server stopped responding. This could be because the model is overloaded or the server crashed.';
+                                                break;
+                                            case ErrorCategory.ConnectionRefused:
+                                                userMessage = 'Could not connect to the Ollama server. Make sure Ollama is running and accessible.';
+                                                break;
+                                            case ErrorCategory.OutOfMemory:
+                                                userMessage = 'The Ollama server ran out of memory. Try using a smaller model or reducing the context size.';
+                                                break;
+                                            case ErrorCategory.ModelNotFound:
+                                                userMessage = 'The model is not installed. Pull it with the Download/Install Model command.';
+                                                break;
+                                            case ErrorCategory.CircuitOpen:
+                                                userMessage = `${errorMessage}. Try again once the server is back.`;
+                                                break;
+                                            default:
+                                                // Generic error
+                                                userMessage = `${errorMessage} - Try restarting Ollama or switching to a different model.`;
+                                        }
+                                    
+                                        // Push an error message to the chunk queue
+                                        this.responseChunks.push(`\n\n_Error: ${userMessage}_`);
+                                    }
                                 
-                                // Force showing an error in the UI even if chunks are not processed
-                                try {
-                                    this.panel.webview.postMessage({
-                                        command: 'error',
-                                        message: errorMessage
-                                    });
-                                } catch (postError) {
-                                    console.error('Failed to post error message to webview:', postError);
+                                    // Force showing an error in the UI even if chunks are not processed
+                                    try {
+                                        this.panel.webview.postMessage({
+                                            command: 'error',
+                                            message: errorMessage
+                                        });
+                                    } catch (postError) {
+                                        console.error('Failed to post error message to webview:', postError);
+                                    }
                                 }
                             }
                             
@@ -361,10 +451,18 @@ export class OllamaPanel {
                             }
                             
                             // Clean up after completion
-                            cancelDisposable.dispose();
+                            RequestTracker.completeRequest(OllamaPanel.CHAT_REQUEST_ID, requestController);
+                            if (this.currentRequestController === requestController) {
+                                this.currentRequestController = null;
+                            }
                             
                             // Make sure this is still the active request
                             if (this.currentPromptId === promptId) {
+                                // Keep the reply (or the part generated before cancelling) in the session history
+                                if (assistantReply.trim()) {
+                                    await this.recordMessage('assistant', assistantReply, { model: this.currentModel, metrics, options: requestOptions });
+                                }
+                                
                                 // Process the response for code blocks and suggestions
                                 const codeBlocks = this.extractCodeBlocks(fullResponse);
                                 
@@ -385,12 +483,17 @@ export class OllamaPanel {
                                     activeFile: projectContext.activeFile,
                                     markdownFormatting: true, // Signal to use markdown parser
                                     suggestCodeChanges: responseContainsCodeSuggestions, // Signal if UI should show code action buttons
-                                    originalPrompt: enhancedPrompt // Include original prompt for context
+                                    originalPrompt: enhancedPrompt, // Include original prompt for context
+                                    model: this.currentModel,
+                                    metrics, // Tokens/sec and truncation info for the response footer
+                                    options: requestOptions,
+                                    cached: responseCached
                                 });
                             }
                         } catch (error) {
                             // Avoid showing the generic error message when request was cancelled by user 
-                            if (error instanceof Error && error.name === 'AbortError') {
+                            if (this.currentRequestController?.signal.aborted ||
+                                (error instanceof OllamaApiError && error.isCancelled)) {
                                 console.log('Request was aborted by user');
                                 return;
                             }
@@ -458,14 +561,26 @@ export class OllamaPanel {
                         await this.getAndSendAvailableModels();
                         break;
                         
+                    case 'setModel':
+                        await this.setModel(message.model);
+                        break;
+                        
+                    case 'pickImages':
+                        await this.pickImages();
+                        break;
+                        
+                    case 'attachImageUris':
+                        await this.attachImages((message.uris as string[]).map(uri => vscode.Uri.parse(uri)));
+                        break;
+                        
                     case 'openFile':
                         await this.openFile(message.filePath, message.selection);
                         break;
                         
                     case 'cancelGeneration':
                         console.log('Cancellation requested from webview');
-                        // Execute the registered cancellation command which will handle aborting the request
-                        vscode.commands.executeCommand('vscode-ollama-enhanced.cancelRequest');
+                        // Abort only this panel's request; the HTTP connection is closed so Ollama stops generating
+                        RequestTracker.abortRequest(OllamaPanel.CHAT_REQUEST_ID);
                         break;
                         
                     case 'copyToClipboard':
@@ -691,7 +806,7 @@ export class OllamaPanel {
                                             vscode.window.showErrorMessage('Failed to apply code to editor');
                                             console.error("Failed to apply code to editor - edit returned false");
                                         }
-                                    }).catch(err => {
+                                    }, err => {
                                         console.error(`Error in editor.edit promise: ${err}`);
                                         vscode.window.showErrorMessage(`Error applying code: ${err}`);
                                     });
@@ -711,7 +826,7 @@ export class OllamaPanel {
         );
     }
 
-    public static createOrShow(ollamaService: OllamaService) {
+    public static createOrShow(ollamaManager: OllamaManager, context: vscode.ExtensionContext) {
         // Determine the right column for the chat panel
         let column = vscode.ViewColumn.Beside; // Default to beside
         
@@ -745,15 +860,14 @@ export class OllamaPanel {
             }
         );
 
-        OllamaPanel.currentPanel = new OllamaPanel(panel, ollamaService);
+        OllamaPanel.currentPanel = new OllamaPanel(panel, ollamaManager, context);
     }
 
     // Session management methods
     private async loadSessions() {
         try {
-            // Use memory store for now
-            const sessionData = this.getSessionsFromStorage();
-            if (sessionData && Array.isArray(sessionData)) {
+            const sessionData = this.sessionStore.load();
+            if (sessionData.length > 0) {
                 this.sessions = sessionData;
                 console.log(`Loaded ${this.sessions.length} chat sessions`);
             } else {
@@ -790,17 +904,9 @@ export class OllamaPanel {
         }
     }
     
-    // Memory-based storage for sessions since we don't have access to globalState
-    private static sessionsMemoryStore: ChatSession[] = [];
-    
-    private getSessionsFromStorage(): ChatSession[] {
-        return OllamaPanel.sessionsMemoryStore;
-    }
-    
     private async saveSessions() {
         try {
-            // Store sessions in memory 
-            OllamaPanel.sessionsMemoryStore = [...this.sessions];
+            await this.sessionStore.save(this.sessions);
         } catch (error) {
             console.error('Error saving sessions:', error);
         }
@@ -871,7 +977,11 @@ export class OllamaPanel {
         });
     }
     
-    private async recordMessage(role: 'user' | 'assistant', content: string) {
+    private async recordMessage(
+        role: 'user' | 'assistant',
+        content: string,
+        details: { images?: string[], model?: string, metrics?: GenerationMetrics, options?: OllamaOptions } = {}
+    ) {
         // Get current session
         const session = this.getSessionById(this.currentSessionId!);
         if (!session) {
@@ -882,7 +992,8 @@ export class OllamaPanel {
         session.messages.push({
             role,
             content,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            ...details
         });
         
         // Update session last used time
@@ -897,6 +1008,93 @@ export class OllamaPanel {
         await this.saveSessions();
     }
     
+    /**
+     * Build the /api/chat message list for the current session.
+     * The latest user turn is replaced by the context-enhanced prompt, earlier turns are sent as recorded.
+     */
+    private buildChatMessages(enhancedPrompt: string): ChatMessage[] {
+        const messages: ChatMessage[] = [
+            { role: 'system', content: OllamaPanel.SYSTEM_PROMPT }
+        ];
+        
+        const session = this.currentSessionId ? this.getSessionById(this.currentSessionId) : undefined;
+        const history = session ? session.messages : [];
+        
+        // The last recorded message is the user turn we're answering now
+        const latest = history.length > 0 && history[history.length - 1].role === 'user'
+            ? history[history.length - 1]
+            : undefined;
+        const previousTurns = latest ? history.slice(0, -1) : history;
+        
+        for (const turn of previousTurns) {
+            messages.push({ role: turn.role, content: turn.content, images: turn.images });
+        }
+        
+        messages.push({ role: 'user', content: enhancedPrompt, images: latest?.images });
+        
+        return messages;
+    }
+    
+    /**
+     * Base64 images sent by the webview with a prompt, or undefined when there are none
+     */
+    private static parseImages(images: unknown): string[] | undefined {
+        if (!Array.isArray(images)) {
+            return undefined;
+        }
+        const valid = images.filter((image): image is string => typeof image === 'string' && image.length > 0);
+        return valid.length > 0 ? valid : undefined;
+    }
+    
+    /**
+     * Let the user pick PNG or JPEG files to attach to the next prompt
+     */
+    private async pickImages() {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            defaultUri: workspaceFolder?.uri,
+            filters: { 'Images': ['png', 'jpg', 'jpeg'] },
+            openLabel: 'Attach'
+        });
+        
+        if (uris) {
+            await this.attachImages(uris);
+        }
+    }
+    
+    /**
+     * Read image files and add them to the webview's pending attachments
+     */
+    private async attachImages(uris: vscode.Uri[]) {
+        for (const uri of uris) {
+            const name = path.basename(uri.fsPath);
+            
+            if (!/\.(png|jpe?g)$/i.test(name)) {
+                vscode.window.showWarningMessage(`${name} is not a PNG or JPEG image`);
+                continue;
+            }
+            
+            try {
+                const data = await vscode.workspace.fs.readFile(uri);
+                if (data.byteLength > OllamaPanel.MAX_IMAGE_SIZE) {
+                    vscode.window.showWarningMessage(
+                        `${name} is larger than ${OllamaPanel.MAX_IMAGE_SIZE / 1024 / 1024} MB and was not attached`
+                    );
+                    continue;
+                }
+                
+                this.panel.webview.postMessage({
+                    command: 'imageAttached',
+                    name,
+                    data: Buffer.from(data).toString('base64')
+                });
+            } catch (error) {
+                vscode.window.showErrorMessage(`Could not read ${name}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+    
     private async renameSession(id: string, newName: string) {
         // Find the session
         const session = this.getSessionById(id);
@@ -955,10 +1153,35 @@ export class OllamaPanel {
         });
     }
     
+    /**
+     * The chat sessions shown in the panel, including their messages
+     */
+    public getSessions(): readonly ChatSession[] {
+        return this.sessions;
+    }
+    
+    /**
+     * Reload the model list, e.g. after the provider setting changes
+     */
+    public async refreshModels() {
+        await this.getAndSendAvailableModels();
+    }
+    
     private async getAndSendAvailableModels() {
         try {
-            // Get available models from the service
-            const models = await this.ollamaService.listModels();
+            // Get available models from the configured provider
+            const models = await RequestScheduler.schedule(() => this.ollamaManager.getProvider().listModels(), {
+                priority: RequestPriority.Background,
+                key: 'panelModels'
+            });
+            
+            // Start new chats with the chat model from the settings
+            if (!this.currentModel) {
+                const routed = await ModelRouter.resolve('chat', models);
+                if (routed) {
+                    await this.setModel(routed);
+                }
+            }
             
             // Format models for the webview
             const formattedModels = models.map(model => ({
@@ -973,6 +1196,10 @@ export class OllamaPanel {
                 currentModel: this.currentModel
             });
         } catch (error) {
+            // A newer refresh replaced this one while it was queued
+            if (error instanceof RequestSupersededError) {
+                return;
+            }
             console.error('Error fetching models:', error);
             this.panel.webview.postMessage({
                 command: 'error',
@@ -981,6 +1208,23 @@ export class OllamaPanel {
         }
     }
     
+    /**
+     * Switch to the routed chat model when the current one is not installed
+     */
+    private async routeChatModel() {
+        let models;
+        try {
+            models = await this.ollamaManager.getProvider().listModels();
+        } catch {
+            // The request will report the connection problem
+            return;
+        }
+        const routed = await ModelRouter.resolve('chat', models, { preferred: this.currentModel });
+        if (routed && routed !== this.currentModel) {
+            await this.setModel(routed);
+        }
+    }
+    
     public async setModel(modelName: string) {
         this.currentModel = modelName;
         
@@ -999,8 +1243,62 @@ export class OllamaPanel {
         });
     }
     
-    // Method to send prompt directly to the panel
-    public async sendPrompt(promptText: string) {
+    /**
+     * Let the user override the generation options of the current chat session, entered as JSON
+     */
+    public async editSessionGenerationOptions() {
+        if (!this.currentSessionId) {
+            await this.createNewSession(this.currentModel);
+        }
+        const session = this.currentSessionId ? this.getSessionById(this.currentSessionId) : undefined;
+        if (!session) {
+            return;
+        }
+        
+        const input = await vscode.window.showInputBox({
+            title: `Generation options for "${session.name}"`,
+            prompt: 'Ollama options as JSON, e.g. {"temperature": 0.2, "seed": 42}. Leave empty to use the settings.',
+            value: session.generationOptions ? JSON.stringify(session.generationOptions) : '',
+            validateInput: value => OllamaPanel.parseGenerationOptions(value).error
+        });
+        if (input === undefined) {
+            return;
+        }
+        
+        const { options } = OllamaPanel.parseGenerationOptions(input);
+        session.generationOptions = options && Object.keys(options).length > 0 ? options : undefined;
+        await this.saveSessions();
+        vscode.window.setStatusBarMessage(
+            session.generationOptions
+                ? `Session options: ${GenerationOptions.describe(session.generationOptions)}`
+                : 'Session uses the generation options from settings',
+            3000
+        );
+    }
+    
+    private static parseGenerationOptions(text: string): { options?: OllamaOptions, error?: string } {
+        if (!text.trim()) {
+            return {};
+        }
+        
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch (error) {
+            return { error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+        }
+        
+        const { options, errors } = GenerationOptions.validate(value);
+        return errors.length > 0 ? { error: errors.join('; ') } : { options };
+    }
+    
+    private getSessionGenerationOptions(): OllamaOptions | undefined {
+        const session = this.currentSessionId ? this.getSessionById(this.currentSessionId) : undefined;
+        return session?.generationOptions;
+    }
+    
+    // Method to send prompt directly to the panel; the source names the command in the usage statistics
+    public async sendPrompt(promptText: string, source?: string) {
         if (!this.currentModel) {
             vscode.window.showErrorMessage('Please select a model first');
             return;
@@ -1011,8 +1309,8 @@ export class OllamaPanel {
             await this.createNewSession(this.currentModel);
         }
         
-        // Record the user message
-        await this.recordMessage('user', promptText);
+        // The user message is recorded when the webview sends the injected prompt back,
+        // so it is not recorded here to avoid duplicate turns in the chat history
         
         // Get fresh project context before sending prompt
         const projectContext = await this.getProjectContext(true); // Force refresh
@@ -1026,6 +1324,7 @@ export class OllamaPanel {
         this.panel.webview.postMessage({
             command: 'injectPrompt', 
             text: promptText,
+            source,
             includeContext: true // Enable context for all prompts
         });
     }
@@ -1292,14 +1591,9 @@ export class OllamaPanel {
         }
     }
     
-    // Limit for total prompt size to prevent out of memory errors and improve performance
-    private readonly MAX_PROMPT_SIZE = 8000; // Reduced to improve model responsiveness
-    private readonly MAX_FILE_SIZE = 4000; // Characters for a single file - reduced for better performance
-    private readonly MAX_SELECTION_SIZE = 3000; // Characters for selected code - reduced for better performance
-    
     // Cache for file contents to avoid repeated file reads
     private fileContentCache = new Map<string, {content: string, timestamp: number}>();
-    private readonly FILE_CACHE_TTL = 60000; // 60 seconds TTL for file cache
+    private readonly FILE_CONTENT_CACHE_TTL = 60000; // 60 seconds TTL for file cache
     
     /**
      * Create an enhanced prompt with context information
@@ -1309,14 +1603,13 @@ export class OllamaPanel {
      * - Better prioritization of relevant content
      * - Memory-efficient operation
      */
-    private createEnhancedPrompt(userPrompt: string, context: ProjectContext): string {
+    private createEnhancedPrompt(userPrompt: string, context: ProjectContext, contextTokens: number): string {
         // Start with just the user prompt (fallback)
         const promptParts: {type: string, content: string, priority: number}[] = [];
         let contextAdded = false;
         
-        // Calculate available space for context
-        const userPromptWithFormatting = `USER QUERY: ${userPrompt}`;
-        const availableSpace = this.MAX_PROMPT_SIZE - userPromptWithFormatting.length - 100; // Buffer
+        // Calculate available space for context from the token budget
+        const availableSpace = TokenBudget.tokensToChars(contextTokens) - 100; // Buffer
         
         // Skip context gathering if no space available
         if (availableSpace <= 200) {
@@ -1327,7 +1620,7 @@ export class OllamaPanel {
         if (context.selection) {
             const selection = this.truncateContentSmartly(
                 context.selection, 
-                this.MAX_SELECTION_SIZE,
+                availableSpace - 100, // Room for the heading and code fence
                 'code'
             );
             
@@ -1347,7 +1640,7 @@ export class OllamaPanel {
                 const fileExt = path.extname(context.activeFile).replace('.', '');
                 const content = this.truncateContentSmartly(
                     cachedContent, 
-                    this.MAX_FILE_SIZE,
+                    availableSpace - 100, // Room for the heading and code fence
                     'file'
                 );
                 
@@ -1404,7 +1697,7 @@ export class OllamaPanel {
                         // Stricter truncation for project files
                         const content = this.truncateContentSmartly(
                             cachedContent, 
-                            this.MAX_FILE_SIZE / 3, // Even shorter limit for context files
+                            availableSpace / 3, // Even shorter limit for context files
                             'config'
                         );
                         
@@ -1462,7 +1755,7 @@ export class OllamaPanel {
         // Check if we have a cached version that's still valid
         if (this.fileContentCache.has(filePath)) {
             const cached = this.fileContentCache.get(filePath)!;
-            if (now - cached.timestamp < this.FILE_CACHE_TTL) {
+            if (now - cached.timestamp < this.FILE_CONTENT_CACHE_TTL) {
                 return cached.content;
             }
         }
@@ -2426,6 +2719,60 @@ export class OllamaPanel {
                     border-color: var(--vscode-focusBorder);
                 }
                 
+                .input-container.drag-over #prompt-input {
+                    border-color: var(--vscode-focusBorder);
+                    border-style: dashed;
+                }
+                
+                .attach-button {
+                    margin-right: 8px;
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                }
+                
+                /* Images waiting to be sent with the next prompt */
+                .image-attachments {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 8px;
+                    padding: 0 16px;
+                    background: var(--vscode-editor-background);
+                }
+                
+                .image-attachments:not(:empty) {
+                    padding-top: 8px;
+                    border-top: 1px solid var(--vscode-panel-border);
+                }
+                
+                .image-attachment {
+                    position: relative;
+                }
+                
+                .image-attachment img, .message-images img {
+                    max-height: 64px;
+                    max-width: 120px;
+                    border-radius: 4px;
+                    border: 1px solid var(--vscode-panel-border);
+                    object-fit: cover;
+                }
+                
+                .image-attachment .remove-image {
+                    position: absolute;
+                    top: -6px;
+                    right: -6px;
+                    padding: 0 5px;
+                    border-radius: 50%;
+                    font-size: 11px;
+                    line-height: 16px;
+                }
+                
+                .message-images {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    margin-top: 6px;
+                }
+                
                 /* Button styling */
                 button {
                     background: var(--vscode-button-background);
@@ -2884,6 +3231,21 @@ export class OllamaPanel {
                     color: var(--vscode-button-foreground);
                 }
                 
+                /* Generation stats shown under a finished response */
+                .response-stats {
+                    margin-top: 6px;
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                }
+                
+                .truncation-warning {
+                    margin-top: 6px;
+                    padding: 4px 8px;
+                    font-size: 12px;
+                    border-left: 3px solid var(--vscode-editorWarning-foreground);
+                    color: var(--vscode-editorWarning-foreground);
+                }
+                
                 /* Thinking animation */
                 .thinking {
                     display: flex;
@@ -3085,8 +3447,10 @@ export class OllamaPanel {
                     </div>
                 </div>
                 <div id="chat-container" class="chat-container"></div>
+                <div id="image-attachments" class="image-attachments"></div>
                 <div class="input-container">
                     <textarea id="prompt-input" placeholder="Ask about your code..." rows="3"></textarea>
+                    <button id="attach-button" class="attach-button" title="Attach a PNG or JPEG image (you can also paste or drop one)">Image</button>
                     <button id="send-button">Send</button>
                 </div>
             </div>
@@ -1,29 +1,77 @@
-import axios from 'axios';
-import type { AxiosError } from 'axios';
 import * as vscode from 'vscode';
 import * as os from 'os';
 import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import type { Readable } from 'stream';
+import {
+    OllamaApiError, ChatMessage, ChatResponse, CreateRequest, GenerateResponse,
+    GenerationMetrics, ModelDetails, OllamaOptions, ProgressResponse, RunningModel, ShowResponse, ToolCall, ToolDefinition,
+    getGenerationMetrics, sameModel
+} from './ollamaApi';
+import { NdjsonDecoder, readNdjsonStream } from './ndjson';
+import { ConfigHelper, RequestTracker } from './utils';
+import { EndpointPool } from './endpointPool';
+import { TokenBudget, TokenBudgetPlan } from './tokenBudget';
+import { GenerationOptions } from './generationOptions';
+import { ResponseCache } from './responseCache';
+import { ProxySettings } from './proxySettings';
+import { JsonSchema, StructuredOutputError, validateJson } from './structuredOutput';
+import { UsageStats } from './usageStats';
+import { categorizeError, ErrorCategory, Resilience } from './resilience';
+import { DownloadManager } from './downloadManager';
+import { ModelCapabilities } from './modelCapabilities';
 
 export interface OllamaModel {
     name: string;
     modified_at: string;
     size: number;
+    digest?: string;
+    details?: ModelDetails;
+}
+
+/**
+ * Text and final metrics of a streamed generation
+ */
+export interface StreamResult {
+    content: string;
+    /** Undefined when the stream ended without its final `done` record */
+    metrics?: GenerationMetrics;
+    /** The request was aborted through its signal; content holds the partial reply */
+    cancelled?: boolean;
+    /** Tools the model asked to call; the caller runs them and sends the results back */
+    toolCalls?: ToolCall[];
+    /** Model options the request was sent with, to reproduce the reply */
+    options?: OllamaOptions;
+    /** The reply came from the response cache */
+    cached?: boolean;
+}
+
+/**
+ * A model loaded into memory on one of the configured servers
+ */
+export interface LoadedModel {
+    endpoint: string;
+    model: RunningModel;
 }
 
 export class OllamaService {
     private baseUrl: string;
+    private pool: EndpointPool;
     private isInstalled: boolean | null = null;
     private serviceChannel: vscode.OutputChannel;
     private apiChannel: vscode.OutputChannel;
     
     // Cache for API responses
     private modelListCache: { models: OllamaModel[], timestamp: number } | null = null;
-    private serverHealthCache: { isHealthy: boolean, timestamp: number, modelName?: string } | null = null;
     private readonly CACHE_TTL = 30 * 1000; // 30 seconds cache lifetime
+    private contextLengthCache = new Map<string, number>(); // Trained context length per model, from /api/show
+    private modelsWithoutTools = new Set<string>(); // Models that rejected a chat request with tools
 
-    constructor(serviceChannel: vscode.OutputChannel, apiChannel: vscode.OutputChannel) {
+    /**
+     * @param apiUrl Server to use instead of the configured API URLs, e.g. the mock server
+     */
+    constructor(serviceChannel: vscode.OutputChannel, apiChannel: vscode.OutputChannel, apiUrl?: string) {
         this.serviceChannel = serviceChannel;
         this.apiChannel = apiChannel;
         
@@ -32,11 +80,20 @@ export class OllamaService {
             this.serviceChannel.show(false);
             this.apiChannel.show(false);
             
-            this.baseUrl = vscode.workspace.getConfiguration('ollama').get('apiUrl') as string || 'http://localhost:11434';
+            if (apiUrl) {
+                this.baseUrl = apiUrl;
+                this.pool = new EndpointPool([apiUrl], this.apiChannel);
+            } else {
+                this.baseUrl = vscode.workspace.getConfiguration('ollama').get('apiUrl') as string || 'http://localhost:11434';
+                this.pool = EndpointPool.fromConfiguration(this.baseUrl, this.apiChannel);
+            }
             console.log(`Using Ollama API URL: ${this.baseUrl}`);
             
             this.serviceChannel.appendLine(`Ollama Service initialized with API URL: ${this.baseUrl}`);
             this.apiChannel.appendLine(`API Channel initialized - API URL: ${this.baseUrl}`);
+            if (this.pool.size > 1) {
+                this.apiChannel.appendLine(`Endpoint pool: ${this.pool.urls.join(', ')}`);
+            }
             
             // Log channel names to make debugging easier
             this.serviceChannel.appendLine(`Channel names: Service='${this.serviceChannel.name}', API='${this.apiChannel.name}'`);
@@ -125,33 +182,19 @@ export class OllamaService {
             // Force showing the API channel when checking installation
             vscode.commands.executeCommand('workbench.action.output.show', this.apiChannel.name);
             
-            const response = await axios.get(`${this.baseUrl}/api/tags`, { 
-                timeout: 5000,
-                validateStatus: null,
-                headers: { 'Cache-Control': 'no-cache', 'Accept': 'application/json' },
-                proxy: false
-            });
+            const tags = await this.pool.run(undefined, api => api.tags({ timeout: 5000 }));
             
-            this.apiChannel.appendLine(`Response status: ${response.status}`);
-            this.apiChannel.appendLine(`Response data: ${JSON.stringify(response.data).substring(0, 200)}...`);
+            this.apiChannel.appendLine(`Response data: ${JSON.stringify(tags).substring(0, 200)}...`);
             
             // Ensure the API channel is shown after successful response
             this.apiChannel.show(false);
             
-            if (response.status === 200) {
-                console.log('Ollama API connection successful');
-                this.isInstalled = true;
-                if (this.apiChannel) {
-                    this.apiChannel.appendLine(`✅ Ollama API connection successful - server is running`);
-                }
-                return true;
-            } else {
-                console.log(`Ollama API returned status: ${response.status}`);
-                if (this.apiChannel) {
-                    this.apiChannel.appendLine(`⚠️ Ollama API returned status code ${response.status}`);
-                }
-                throw new Error(`Ollama API returned status code ${response.status}`);
+            console.log('Ollama API connection successful');
+            this.isInstalled = true;
+            if (this.apiChannel) {
+                this.apiChannel.appendLine(`✅ Ollama API connection successful - server is running`);
             }
+            return true;
         } catch (error) {
             console.log('Ollama API connection failed:', error);
             
@@ -159,17 +202,16 @@ export class OllamaService {
                 this.apiChannel.appendLine(`\n❌ CONNECTION ERROR DETAILS ❌`);
                 this.apiChannel.appendLine(`Time: ${new Date().toISOString()}`);
                 
-                if (axios.isAxiosError(error)) {
-                    const axiosError = error;
-                    this.apiChannel.appendLine(`Error type: Axios Error`);
-                    this.apiChannel.appendLine(`Error code: ${axiosError.code || 'none'}`);
-                    this.apiChannel.appendLine(`Error message: ${axiosError.message}`);
+                if (error instanceof OllamaApiError) {
+                    this.apiChannel.appendLine(`Error type: Ollama API Error`);
+                    this.apiChannel.appendLine(`Error code: ${error.code || 'none'}`);
+                    this.apiChannel.appendLine(`Error message: ${error.message}`);
                     
-                    if (axiosError.code === 'ECONNREFUSED') {
+                    if (error.code === 'ECONNREFUSED') {
                         this.apiChannel.appendLine(`📌 DIAGNOSIS: Connection refused - Ollama server is likely not running`);
-                    } else if (axiosError.code === 'ENOTFOUND') {
+                    } else if (error.code === 'ENOTFOUND') {
                         this.apiChannel.appendLine(`📌 DIAGNOSIS: Host not found - Check network config or hostname`);
-                    } else if (axiosError.code === 'ETIMEDOUT') {
+                    } else if (error.code === 'ETIMEDOUT') {
                         this.apiChannel.appendLine(`📌 DIAGNOSIS: Connection timed out - Server may be busy or unreachable`);
                     }
                 }
@@ -178,7 +220,7 @@ export class OllamaService {
             }
             
             // Check if it's a connection error (likely Ollama is not running)
-            const isConnectionError = axios.isAxiosError(error) && 
+            const isConnectionError = error instanceof OllamaApiError &&
                 (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || error.code === 'ETIMEDOUT');
             
             if (isConnectionError) {
@@ -313,135 +355,131 @@ export class OllamaService {
      */
     private async checkServerHealth(
         modelName?: string, 
-        options: { retry?: boolean, retryCount?: number, retryDelay?: number, bypassCache?: boolean } = {}
+        options: { retry?: boolean, bypassCache?: boolean } = {}
     ): Promise<boolean> {
         const { 
             retry = true,
-            retryCount = 2,
-            retryDelay = 1500,
             bypassCache = false
         } = options;
         
         // Check cache first if not bypassing
         if (!bypassCache) {
-            const now = Date.now();
-            if (this.serverHealthCache && 
-                (now - this.serverHealthCache.timestamp < this.CACHE_TTL) &&
-                (this.serverHealthCache.modelName === modelName || (!this.serverHealthCache.modelName && !modelName))) {
-                
+            const cachedHealth = this.pool.getCachedHealth(modelName, this.CACHE_TTL);
+            if (cachedHealth !== undefined) {
                 if (this.apiChannel) {
                     this.apiChannel.appendLine(`Using cached server health status (TTL: 30s)`);
                 }
-                return this.serverHealthCache.isHealthy;
+                return cachedHealth;
             }
         }
         
-        let attemptCount = 0;
-        const maxAttempts = retry ? retryCount + 1 : 1;
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`[${new Date().toISOString()}] Checking Ollama server health`);
+        }
         
-        // Implement exponential backoff for retries
-        const getBackoffDelay = (attempt: number): number => {
-            const baseDelay = retryDelay;
-            const exponentialDelay = baseDelay * Math.pow(2, attempt - 1);
-            const jitter = exponentialDelay * 0.1 * Math.random(); // 10% random jitter
-            return Math.min(exponentialDelay + jitter, 10000); // Cap at 10 seconds
-        };
+        // Test if a server in the pool is responsive; each host's health is cached by the pool
+        // Non-200 responses are raised as OllamaApiError and retried by the resilience policy
+        const { endpoint, models } = await Resilience.execute(
+            this.baseUrl,
+            () => this.pool.probe(modelName, 3000),
+            {
+                // The retry limits come from the ollamaEnhanced.retry settings
+                maxRetries: retry ? undefined : 0,
+                onRetry: (attempt, delay, error) => this.logRetry('Server health check', attempt, delay, error)
+            }
+        );
         
-        while (attemptCount < maxAttempts) {
-            attemptCount++;
-            const currentDelay = getBackoffDelay(attemptCount);
-            
-            try {
-                if (this.apiChannel && attemptCount > 1) {
-                    this.apiChannel.appendLine(`[${new Date().toISOString()}] Retrying server health check (attempt ${attemptCount}/${maxAttempts})`);
-                } else if (this.apiChannel) {
-                    this.apiChannel.appendLine(`[${new Date().toISOString()}] Checking Ollama server health`);
-                }
-                
-                // Test if the server is responsive
-                const tagsResponse = await axios.get(`${this.baseUrl}/api/tags`, { 
-                    timeout: Math.min(3000, currentDelay),
-                    validateStatus: null,
-                    headers: { 'Cache-Control': 'no-cache', 'Accept': 'application/json' },
-                    proxy: false
-                });
-                
-                if (tagsResponse.status !== 200) {
-                    if (this.apiChannel) {
-                        this.apiChannel.appendLine(`Server responded with status code ${tagsResponse.status}`);
-                    }
-                    
-                    // If this is not the last attempt, try again
-                    if (attemptCount < maxAttempts) {
-                        if (this.apiChannel) {
-                            this.apiChannel.appendLine(`Waiting ${currentDelay}ms before retrying...`);
-                        }
-                        await new Promise(resolve => setTimeout(resolve, currentDelay));
-                        continue;
-                    }
-                    
-                    // Update cache with failure state
-                    this.serverHealthCache = { isHealthy: false, timestamp: Date.now(), modelName };
-                    throw new Error(`Ollama server responded with status code ${tagsResponse.status}`);
-                }
-                
-                // If no model specified, we've confirmed server is running
-                if (!modelName) {
-                    if (this.apiChannel) {
-                        this.apiChannel.appendLine(`Server is healthy (no specific model check requested)`);
-                    }
-                    
-                    this.serverHealthCache = { isHealthy: true, timestamp: Date.now() };
-                    return true;
-                }
-                
-                // Check if the requested model exists
-                if (!tagsResponse.data || !tagsResponse.data.models) {
-                    throw new Error('Invalid response from Ollama API (missing models list)');
-                }
-                
-                const models = tagsResponse.data.models;
-                const modelExists = models.some((m: OllamaModel) => m.name === modelName);
-                
-                // Update model list cache
-                this.modelListCache = { models, timestamp: Date.now() };
-                
-                // Update server health cache
-                this.serverHealthCache = { isHealthy: true, timestamp: Date.now(), modelName };
-                
-                if (this.apiChannel) {
-                    if (modelExists) {
-                        this.apiChannel.appendLine(`Server is healthy and model '${modelName}' is available`);
-                    } else {
-                        this.apiChannel.appendLine(`Model '${modelName}' not found on server.`);
-                    }
-                }
-                
-                // For model check, we return true even if model doesn't exist
-                // We'll handle missing model case separately in the caller
-                return true;
-                
-            } catch (error) {
-                if (this.apiChannel) {
-                    this.apiChannel.appendLine(`Server health check failed (attempt ${attemptCount}/${maxAttempts}): ${error instanceof Error ? error.message : String(error)}`);
-                }
-                
-                // If this is not the last attempt, try again after a delay
-                if (attemptCount < maxAttempts) {
-                    if (this.apiChannel) {
-                        this.apiChannel.appendLine(`Waiting ${currentDelay}ms before retrying...`);
-                    }
-                    await new Promise(resolve => setTimeout(resolve, currentDelay));
-                    continue;
-                }
-                
-                // Update cache with failure
-                this.serverHealthCache = { isHealthy: false, timestamp: Date.now(), modelName };
-                throw error;
+        // If no model specified, we've confirmed server is running
+        if (!modelName) {
+            if (this.apiChannel) {
+                this.apiChannel.appendLine(`Server ${endpoint.url} is healthy (no specific model check requested)`);
+            }
+            return true;
+        }
+        
+        // Check if the requested model exists
+        const modelExists = models.some((m: OllamaModel) => m.name === modelName);
+        
+        // The model list of a single server is the full list
+        if (this.pool.size === 1) {
+            this.modelListCache = { models, timestamp: Date.now() };
+        }
+        
+        if (this.apiChannel) {
+            if (modelExists) {
+                this.apiChannel.appendLine(`Server ${endpoint.url} is healthy and model '${modelName}' is available`);
+            } else {
+                this.apiChannel.appendLine(`Model '${modelName}' not found on any server.`);
             }
         }
         
-        return false;
+        // For model check, we return true even if model doesn't exist
+        // We'll handle missing model case separately in the caller
+        return true;
+    }
+    
+    private logRequestOptions(model: string, options: OllamaOptions): void {
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`Generating with ${model} (${GenerationOptions.describe(options)})`);
+        }
+    }
+    
+    private logRetry(operation: string, attempt: number, delay: number, error: unknown): void {
+        const message = `${operation} failed (${categorizeError(error)}): ${error instanceof Error ? error.message : String(error)}. ` +
+            `Retry ${attempt} in ${delay}ms`;
+        console.log(message);
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`[${new Date().toISOString()}] ${message}`);
+        }
+    }
+    
+    /**
+     * Show a failed request with the action that fits its error category
+     */
+    private showRequestError(message: string, error: unknown, model: string | undefined, retry: () => unknown): void {
+        const category = categorizeError(error);
+        let detail = error instanceof Error ? error.message : String(error);
+        const actions: string[] = [];
+        
+        switch (category) {
+            case ErrorCategory.ModelNotFound:
+                detail = `Model '${model}' is not installed.`;
+                actions.push('Pull Model');
+                break;
+            case ErrorCategory.OutOfMemory:
+                detail = `Not enough memory to run '${model}'. Unload other models or use a smaller one.`;
+                actions.push('Unload Model');
+                break;
+            case ErrorCategory.Timeout:
+                detail = 'The server did not respond in time.';
+                actions.push('Retry', 'Open Settings');
+                break;
+            case ErrorCategory.ConnectionRefused:
+                detail = `Could not connect to ${this.baseUrl}. Please check if Ollama is running.`;
+                actions.push('Retry');
+                break;
+            case ErrorCategory.CircuitOpen:
+                actions.push('Retry Now');
+                break;
+            default:
+                actions.push('Retry');
+        }
+        
+        vscode.window.showErrorMessage(`${message}: ${detail}`, ...actions).then(selection => {
+            if (selection === 'Pull Model' && model) {
+                // pullModel reports its own failures
+                this.pullModel(model).then(undefined, () => undefined);
+            } else if (selection === 'Unload Model') {
+                vscode.commands.executeCommand('vscode-ollama-enhanced.unloadModel');
+            } else if (selection === 'Open Settings') {
+                vscode.commands.executeCommand('workbench.action.openSettings', 'ollamaEnhanced.requestTimeout');
+            } else if (selection === 'Retry Now') {
+                Resilience.reset(this.baseUrl);
+                retry();
+            } else if (selection === 'Retry') {
+                retry();
+            }
+        });
     }
     
     private async startOllamaProcess(): Promise<boolean> {
@@ -466,6 +504,8 @@ export class OllamaService {
                 }
                 
                 ollamaProcess = child_process.spawn(ollamaPath, ['serve'], {
+                    // Model pulls by the server go through the VS Code proxy
+                    env: { ...process.env, ...ProxySettings.getServerEnvironment() },
                     detached: true,
                     stdio: ['ignore', 'pipe', 'pipe'],
                     windowsHide: true
@@ -478,6 +518,7 @@ export class OllamaService {
                 }
                 
                 ollamaProcess = child_process.spawn('ollama', ['serve'], {
+                    env: { ...process.env, ...ProxySettings.getServerEnvironment() },
                     detached: true,
                     stdio: ['ignore', 'pipe', 'pipe'],
                 });
@@ -545,28 +586,15 @@ export class OllamaService {
                             this.serviceChannel.appendLine(`Checking if server is running (attempt ${i+1})...`);
                         }
                         
-                        const response = await axios.get(`${this.baseUrl}/api/tags`, { 
-                            timeout: 3000,
-                            validateStatus: null,
-                            headers: { 'Accept': 'application/json' },
-                            proxy: false
-                        });
+                        await this.pool.primary.api.tags({ timeout: 3000 });
                         
-                        if (response.status === 200) {
-                            const successMsg = `Ollama server started successfully after ${i+1} ${i === 0 ? 'attempt' : 'attempts'}`;
-                            console.log(successMsg);
-                            if (this.serviceChannel) {
-                                this.serviceChannel.appendLine(`✅ ${successMsg}`);
-                            }
-                            isRunning = true;
-                            break;
-                        } else {
-                            const statusMsg = `Ollama server returned status ${response.status} on attempt ${i+1}`;
-                            console.log(statusMsg);
-                            if (this.serviceChannel) {
-                                this.serviceChannel.appendLine(`⚠️ ${statusMsg}`);
-                            }
+                        const successMsg = `Ollama server started successfully after ${i+1} ${i === 0 ? 'attempt' : 'attempts'}`;
+                        console.log(successMsg);
+                        if (this.serviceChannel) {
+                            this.serviceChannel.appendLine(`✅ ${successMsg}`);
                         }
+                        isRunning = true;
+                        break;
                     } catch (e) {
                         const errorMsg = `Ollama server not ready on attempt ${i+1}: ${e instanceof Error ? e.message : String(e)}`;
                         console.log(errorMsg);
@@ -648,253 +676,38 @@ export class OllamaService {
                 
                 const modelToInstall = selectedModel || defaultModel;
                 
-                await vscode.window.withProgress({
-                    location: vscode.ProgressLocation.Notification,
-                    title: `Downloading ${modelToInstall.label} model...`,
-                    cancellable: false
-                }, async (progress) => {
-                    try {
-                        progress.report({ message: 'Downloading and installing model...' });
-                        await this.pullModel(modelToInstall.label);
-                        vscode.window.showInformationMessage(`Successfully installed ${modelToInstall.label} model!`);
-                        
-                        // Set as default model in settings
-                        await vscode.workspace.getConfiguration('ollama').update('defaultModel', modelToInstall.label, true);
-                        this.serviceChannel.appendLine(`Set default model to: ${modelToInstall.label}`);
-                    } catch (error) {
-                        vscode.window.showErrorMessage(`Failed to install model: ${error instanceof Error ? error.message : String(error)}`);
-                    }
+                // Not awaited: listing models must not wait for a download of several GB
+                this.pullModel(modelToInstall.label).then(async () => {
+                    // Set as default model in settings
+                    await vscode.workspace.getConfiguration('ollama').update('defaultModel', modelToInstall.label, true);
+                    this.serviceChannel.appendLine(`Set default model to: ${modelToInstall.label}`);
+                }, error => {
+                    this.serviceChannel.appendLine(`Model install did not finish: ${error instanceof Error ? error.message : String(error)}`);
                 });
+                vscode.commands.executeCommand('vscode-ollama-enhanced.showDownloads');
             }
         }
     }
     
+    /**
+     * Download a model through the download manager, which shows the progress and resumes broken downloads
+     */
     private async pullModel(modelName: string): Promise<void> {
-        let progressReporter: vscode.Progress<{ message?: string; increment?: number }> | null = null;
-        let progressResolver: (() => void) | null = null;
-        let cancelRequested = false;
-        
-        // Create a promise that will be resolved when the progress is complete
-        const progressPromise = new Promise<void>(resolve => {
-            progressResolver = resolve;
-        });
-        
-        // Start the progress reporting
-        vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Downloading ${modelName}...`,
-            cancellable: true
-        }, async (progress, token) => {
-            progressReporter = progress;
-            progress.report({ increment: 0, message: 'Preparing download...' });
-            
-            token.onCancellationRequested(() => {
-                cancelRequested = true;
-                vscode.window.showInformationMessage(`Download of ${modelName} was cancelled`);
-                if (progressResolver) progressResolver();
-            });
-            
-            return progressPromise;
-        });
-        
-        try {
-            // Use the Ollama API to pull the model
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 1800000); // 30-minute timeout
-            
-            // Track download stats
-            const startTime = Date.now();
-            let lastReportTime = startTime;
-            let lastBytes = 0;
-            // Used for speed calculations
-            let downloadSpeed = 0;
-            let estimatedTimeRemaining = '';
-            
-            const response = await axios.post(`${this.baseUrl}/api/pull`, {
-                name: modelName,
-                stream: true
-            }, {
-                signal: controller.signal,
-                responseType: 'stream',
-                headers: {
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json'
-                },
-                proxy: false,
-                onDownloadProgress: (progressEvent) => {
-                    if (cancelRequested) return;
-                    
-                    const now = Date.now();
-                    const elapsedSec = (now - lastReportTime) / 1000;
-                    
-                    // Only update speed calculation every second to avoid jitter
-                    if (elapsedSec >= 1 && progressEvent.loaded > lastBytes) {
-                        totalDownloaded = progressEvent.loaded;
-                        
-                        // Calculate download speed in MB/s
-                        const bytesPerSec = (progressEvent.loaded - lastBytes) / elapsedSec;
-                        downloadSpeed = bytesPerSec / (1024 * 1024);
-                        
-                        // Update for next calculation
-                        lastBytes = progressEvent.loaded;
-                        lastReportTime = now;
-                        
-                        // Calculate estimated time remaining if we know the total
-                        if (progressEvent.total) {
-                            const bytesRemaining = progressEvent.total - progressEvent.loaded;
-                            const secondsRemaining = Math.round(bytesRemaining / bytesPerSec);
-                            
-                            if (secondsRemaining > 60) {
-                                const minutes = Math.floor(secondsRemaining / 60);
-                                const seconds = secondsRemaining % 60;
-                                estimatedTimeRemaining = `${minutes}m ${seconds}s remaining`;
-                            } else {
-                                estimatedTimeRemaining = `${secondsRemaining}s remaining`;
-                            }
-                        }
-                    }
-                    
-                    if (progressReporter && !cancelRequested) {
-                        if (progressEvent.total) {
-                            const percent = Math.round((progressEvent.loaded / progressEvent.total) * 100);
-                            const sizeInGB = (progressEvent.total / (1024 * 1024 * 1024)).toFixed(2);
-                            const downloadedGB = (progressEvent.loaded / (1024 * 1024 * 1024)).toFixed(2);
-                            
-                            progressReporter.report({
-                                increment: percent,
-                                message: `${downloadedGB}GB / ${sizeInGB}GB (${percent}%) - ${downloadSpeed.toFixed(1)} MB/s - ${estimatedTimeRemaining}`
-                            });
-                        } else {
-                            // If we can't get the total size, just show downloaded amount and speed
-                            const downloadedMB = (progressEvent.loaded / (1024 * 1024)).toFixed(1);
-                            progressReporter.report({
-                                message: `Downloaded: ${downloadedMB}MB - ${downloadSpeed.toFixed(1)} MB/s`
-                            });
-                        }
-                    }
-                }
-            });
-            
-            // Clear the timeout
-            clearTimeout(timeoutId);
-            
-            if (cancelRequested) {
-                console.log("Download was cancelled by user");
-                return;
-            }
-            
-            // Track current step in the model installation process
-            let currentStep = "downloading";
-            
-            // Process the streaming response to track progress
-            response.data.on('data', (chunk: Buffer) => {
-                if (cancelRequested) return;
-                
-                try {
-                    const text = chunk.toString();
-                    console.log(`Model download progress: ${text.length > 100 ? text.substring(0, 100) + '...' : text}`);
-                    
-                    if (progressReporter) {
-                        try {
-                            // Parse JSON responses if possible
-                            const lines = text.split('\n').filter(Boolean);
-                            
-                            for (const line of lines) {
-                                try {
-                                    const data = JSON.parse(line);
-                                    
-                                    // Check for different status messages
-                                    if (data.status) {
-                                        if (data.status.includes('downloading')) {
-                                            currentStep = "downloading";
-                                        } else if (data.status.includes('verifying')) {
-                                            currentStep = "verifying";
-                                            progressReporter.report({ message: "Verifying model files..." });
-                                        } else if (data.status.includes('unpacking')) {
-                                            currentStep = "unpacking";
-                                            progressReporter.report({ message: "Unpacking model files..." });
-                                        } else if (data.status.includes('loading')) {
-                                            currentStep = "loading";
-                                            progressReporter.report({ message: "Loading model into memory..." });
-                                        }
-                                    }
-                                    
-                                    // Try to extract detailed progress information
-                                    if (data.completed && data.total && currentStep === "downloading") {
-                                        const percent = Math.round((data.completed / data.total) * 100);
-                                        const downloadedMB = (data.completed / (1024 * 1024)).toFixed(1);
-                                        const totalMB = (data.total / (1024 * 1024)).toFixed(1);
-                                        
-                                        progressReporter.report({
-                                            message: `Downloading model: ${downloadedMB}MB / ${totalMB}MB (${percent}%)`
-                                        });
-                                    }
-                                } catch (parseError) {
-                                    // Not valid JSON or couldn't parse the line, that's fine
-                                }
-                            }
-                        } catch (e) {
-                            console.error('Error processing JSON download progress:', e);
-                        }
-                    }
-                } catch (e) {
-                    console.error('Error processing download chunk:', e);
-                }
-            });
-            
-            // Complete the download
-            await new Promise<void>((resolve, reject) => {
-                response.data.on('end', () => {
-                    if (!cancelRequested && progressReporter) {
-                        progressReporter.report({ message: 'Model download complete! Finalizing installation...' });
-                    }
-                    resolve();
-                });
-                
-                response.data.on('error', (err: Error) => {
-                    reject(err);
-                });
-            });
-            
-            // Resolve the progress
-            if (progressResolver) progressResolver();
-            
-        } catch (error) {
-            // Resolve the progress to dismiss it
-            if (progressResolver) progressResolver();
-            
-            let errorMessage = `Failed to pull model ${modelName}`;
-            
-            if (axios.isAxiosError(error)) {
-                if (error.code === 'ECONNABORTED') {
-                    errorMessage += ': Connection timed out. The model might be too large or the server is busy.';
-                } else if (error.response) {
-                    errorMessage += `: Server responded with status ${error.response.status}`;
-                    
-                    // Check specifically for 404 errors which often mean the model name is incorrect
-                    if (error.response.status === 404) {
-                        errorMessage += `. Model '${modelName}' not found. Please check the model name.`;
-                    }
-                } else if (error.request) {
-                    errorMessage += ': No response received from server. Please check your network connection.';
-                } else {
-                    errorMessage += `: ${error.message}`;
-                }
-            } else if (error instanceof Error) {
-                errorMessage += `: ${error.message}`;
-            }
-            
-            vscode.window.showErrorMessage(errorMessage, 'Try Again', 'Show Available Models').then(selection => {
-                if (selection === 'Try Again') {
-                    this.pullModel(modelName);
-                } else if (selection === 'Show Available Models') {
-                    // Open the Ollama models page in a browser
-                    vscode.env.openExternal(vscode.Uri.parse('https://ollama.com/library'));
-                }
-            });
-            
-            throw error;
+        const task = await DownloadManager.enqueue(modelName, this);
+        if (task.state !== 'completed') {
+            throw new Error(task.error || `Download of ${modelName} was ${task.state}`);
         }
+        this.clearModelListCache();
+    }
+
+    /**
+     * Open a /api/pull progress stream. Pulling a model again continues from the layers the server already has.
+     */
+    async openPullStream(model: string, signal: AbortSignal): Promise<Readable> {
+        return this.pool.run(undefined, api => api.pullStream({ model }, {
+            signal,
+            timeout: 0 // Downloads take as long as they take; the download manager detects stalls instead
+        }), signal);
     }
 
     async listModels(): Promise<OllamaModel[]> {
@@ -911,72 +724,31 @@ export class OllamaService {
             return [];
         }
         
-        // Use retry pattern for better resilience
-        const maxRetries = 3;
-        let retryCount = 0;
-        let lastError = null;
-        
-        while (retryCount < maxRetries) {
-            try {
-                console.log(`Attempting to fetch models from: ${this.baseUrl}/api/tags (attempt ${retryCount + 1}/${maxRetries})`);
-                
-                if (this.apiChannel && retryCount > 0) {
-                    this.apiChannel.appendLine(`Retry attempt ${retryCount + 1}/${maxRetries} for model list`);
-                }
-                
-                const response = await axios.get(`${this.baseUrl}/api/tags`, {
-                    timeout: 8000,
-                    validateStatus: null,
-                    headers: { 'Cache-Control': 'no-cache', 'Accept': 'application/json' },
-                    proxy: false
-                });
-                
-                console.log(`Ollama API response status: ${response.status}`);
-                
-                if (response.status !== 200) {
-                    throw new Error(`API returned status code ${response.status}: ${JSON.stringify(response.data)}`);
-                }
-                
-                if (!response.data || !response.data.models) {
-                    throw new Error(`Invalid response structure: ${JSON.stringify(response.data)}`);
-                }
-                
-                const models = response.data.models;
-                console.log(`Found ${models.length} models`);
-                
-                // Cache the model list
-                this.modelListCache = { models, timestamp: Date.now() };
-                
-                // Check if models need to be installed
-                await this.checkAndSuggestModels(models);
-                
-                return models;
-            } catch (error) {
-                lastError = error;
-                retryCount++;
-                
-                if (this.apiChannel) {
-                    this.apiChannel.appendLine(`Error on attempt ${retryCount}: ${error instanceof Error ? error.message : String(error)}`);
-                }
-                
-                // Only retry if we haven't exceeded max retries
-                if (retryCount < maxRetries) {
-                    // Exponential backoff delay with jitter
-                    const baseDelay = 1000; // 1 second
-                    const delay = baseDelay * Math.pow(2, retryCount - 1) + (Math.random() * 500);
-                    console.log(`Waiting ${delay}ms before retry...`);
-                    
-                    if (this.apiChannel) {
-                        this.apiChannel.appendLine(`Waiting ${Math.round(delay)}ms before retry...`);
-                    }
-                    
-                    await new Promise(resolve => setTimeout(resolve, delay));
-                }
+        try {
+            console.log(`Attempting to fetch models from: ${this.baseUrl}/api/tags`);
+            
+            // Every reachable server contributes its models
+            const models = await Resilience.execute(
+                this.baseUrl,
+                () => this.pool.listModels(8000),
+                { onRetry: (attempt, delay, error) => this.logRetry('Listing models', attempt, delay, error) }
+            );
+            console.log(`Found ${models.length} models`);
+            
+            // Cache the model list
+            this.modelListCache = { models, timestamp: Date.now() };
+            
+            // Check if models need to be installed
+            await this.checkAndSuggestModels(models);
+            
+            return models;
+        } catch (error) {
+            // If all retries failed, show a helpful error message
+            console.error('Ollama API error:', error);
+            if (this.apiChannel) {
+                this.apiChannel.appendLine(`Failed to list models (${categorizeError(error)}): ${error instanceof Error ? error.message : String(error)}`);
             }
         }
-                
-        // If all retries failed, show a helpful error message
-        console.error('Ollama API error:', lastError);
         
         vscode.window.showErrorMessage(
             `Failed to list Ollama models. Please check if Ollama is running.`, 
@@ -984,6 +756,8 @@ export class OllamaService {
             'Check Ollama'
         ).then(selection => {
             if (selection === 'Retry') {
+                // An explicit retry should not wait for the circuit cooldown
+                Resilience.reset(this.baseUrl);
                 return this.listModels();
             } else if (selection === 'Check Ollama') {
                 // Open terminal and suggest Ollama troubleshooting commands
@@ -999,7 +773,11 @@ export class OllamaService {
         return [];
     }
 
-    async generateCompletion(model: string, prompt: string): Promise<string> {
+    async generateCompletion(
+        model: string,
+        prompt: string,
+        options?: { signal?: AbortSignal, usageCommand?: string, generationOptions?: OllamaOptions }
+    ): Promise<string> {
         console.log(`Generating completion with model: ${model}, prompt length: ${prompt.length} chars`);
         
         try {
@@ -1017,63 +795,139 @@ export class OllamaService {
             }
             
             console.log(`Sending request to: ${this.baseUrl}/api/generate (non-streaming)`);
-            const response = await axios.post(`${this.baseUrl}/api/generate`, 
-                {
+            const modelOptions = GenerationOptions.resolve(options?.usageCommand || 'completion', options?.generationOptions);
+            modelOptions.num_ctx = modelOptions.num_ctx ?? await this.getContextWindow(model);
+            this.logRequestOptions(model, modelOptions);
+            
+            const cacheKey = await this.getResponseCacheKey(model, prompt, modelOptions);
+            const cached = cacheKey ? await ResponseCache.get(cacheKey) : undefined;
+            if (cached) {
+                console.log('Using cached completion');
+                return cached.content;
+            }
+            
+            const response = await Resilience.execute(
+                this.baseUrl,
+                () => this.pool.run(
                     model,
-                    prompt,
-                    stream: false
-                }, 
+                    api => api.generate(
+                        { model, prompt, keep_alive: this.getKeepAlive(), options: modelOptions },
+                        { timeout: 30000, signal: options?.signal }
+                    ),
+                    options?.signal
+                ),
                 {
-                    timeout: 30000,
-                    validateStatus: status => status === 200,
-                    headers: { 'Accept': 'application/json', 'Content-Type': 'application/json' },
-                    proxy: false
+                    signal: options?.signal,
+                    onRetry: (attempt, delay, error) => this.logRetry('Generation', attempt, delay, error)
                 }
             );
             
-            if (!response.data || !response.data.response) {
-                console.error('Invalid response structure:', response.data);
+            if (!response || typeof response.response !== 'string') {
+                console.error('Invalid response structure:', response);
                 throw new Error(`Invalid response from Ollama API: missing 'response' field`);
             }
             
             console.log('Generation completed successfully');
-            return response.data.response;
+            const metrics = getGenerationMetrics(response);
+            this.logGenerationMetrics(model, metrics, options?.usageCommand || 'completion');
+            
+            if (cacheKey && !metrics.truncated) {
+                await ResponseCache.set(cacheKey, {
+                    model,
+                    command: options?.usageCommand || 'completion',
+                    options: modelOptions,
+                    prompt,
+                    content: response.response,
+                    metrics
+                });
+            }
+            return response.response;
         } catch (error) {
-            let errorMessage = '';
-            if (axios.isAxiosError(error)) {
-                errorMessage = `Network error: ${error.message}`;
-                
-                if (error.response) {
-                    console.error('Response error data:', error.response.data);
-                    errorMessage += ` (Status: ${error.response.status})`;
-                    
-                    if (error.response.status === 404) {
-                        errorMessage += `. Model '${model}' might not be installed. Try installing it first.`;
-                    } else if (error.response.status === 500) {
-                        errorMessage += `. Server error - Ollama might be having trouble with this request.`;
-                    }
-                } else if (error.request) {
-                    errorMessage += ` (No response received)`;
-                }
-            } else {
-                errorMessage = `Error: ${error instanceof Error ? error.message : String(error)}`;
+            // Cancellation is the caller's decision, not a failure to report
+            if (options?.signal?.aborted) {
+                throw error;
             }
             
-            console.error('Ollama API generation error:', errorMessage);
-            
-            vscode.window.showErrorMessage(
-                `Failed to generate completion: ${errorMessage}`, 
-                'Retry'
-            ).then(selection => {
-                if (selection === 'Retry') {
-                    return this.generateCompletion(model, prompt);
-                }
-            });
+            console.error(`Ollama API generation error (${categorizeError(error)}):`, error);
+            this.showRequestError('Failed to generate completion', error, model, () => this.generateCompletion(model, prompt, options));
             
             throw error;
         }
     }
 
+    /**
+     * Generate a JSON object that matches a schema, using Ollama's `format` parameter.
+     * Replies that are not valid JSON or do not match the schema are sent back to the model
+     * together with the validation errors, up to `maxRetries` times.
+     */
+    async generateStructured<T>(
+        model: string,
+        prompt: string,
+        schema: JsonSchema,
+        options?: { signal?: AbortSignal, maxRetries?: number, usageCommand?: string, generationOptions?: OllamaOptions }
+    ): Promise<T> {
+        const maxRetries = options?.maxRetries ?? 2;
+        // Deterministic sampling unless the settings ask otherwise
+        const modelOptions = GenerationOptions.resolve(options?.usageCommand || 'structured', options?.generationOptions);
+        modelOptions.num_ctx = modelOptions.num_ctx ?? await this.getContextWindow(model);
+        modelOptions.temperature = modelOptions.temperature ?? 0;
+        this.logRequestOptions(model, modelOptions);
+        const instructions = `${prompt}\n\nRespond only with JSON that matches this schema:\n${JSON.stringify(schema)}`;
+
+        let currentPrompt = instructions;
+        let rawResponse = '';
+        let errors: string[] = [];
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            const response = await Resilience.execute(
+                this.baseUrl,
+                () => this.pool.run(
+                    model,
+                    api => api.generate(
+                        {
+                            model,
+                            prompt: currentPrompt,
+                            format: schema,
+                            keep_alive: this.getKeepAlive(),
+                            options: modelOptions
+                        },
+                        { timeout: 120000, signal: options?.signal }
+                    ),
+                    options?.signal
+                ),
+                {
+                    signal: options?.signal,
+                    onRetry: (retry, delay, error) => this.logRetry('Structured generation', retry, delay, error)
+                }
+            );
+            rawResponse = response.response || '';
+            this.logGenerationMetrics(model, getGenerationMetrics(response), options?.usageCommand || 'structured');
+
+            try {
+                const parsed: unknown = JSON.parse(rawResponse);
+                errors = validateJson(parsed, schema);
+                if (errors.length === 0) {
+                    return parsed as T;
+                }
+            } catch (parseError) {
+                errors = [`Invalid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`];
+            }
+
+            if (this.apiChannel) {
+                this.apiChannel.appendLine(`Structured output from ${model} rejected (attempt ${attempt + 1}/${maxRetries + 1}): ${errors.join('; ')}`);
+            }
+
+            currentPrompt = `${instructions}\n\nYour previous reply was rejected:\n${rawResponse}\n\n` +
+                `Problems:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with corrected JSON only.`;
+        }
+
+        throw new StructuredOutputError(
+            `Model ${model} did not return valid structured output after ${maxRetries + 1} attempts`,
+            rawResponse,
+            errors
+        );
+    }
+
     async streamCompletion(
         model: string, 
         prompt: string, 
@@ -1081,24 +935,24 @@ export class OllamaService {
         options?: {
             maxTokens?: number,
             temperature?: number,
-            timeoutSeconds?: number
+            timeoutSeconds?: number,
+            signal?: AbortSignal,
+            /** Overrides of the configured generation options, e.g. from a chat session */
+            generationOptions?: OllamaOptions,
+            usageCommand?: string
         }
-    ): Promise<void> {
+    ): Promise<StreamResult> {
         // Get configuration with defaults
-        const maxTokens = options?.maxTokens || 
-            vscode.workspace.getConfiguration('ollama').get('maxResponseTokens') as number || 
-            4096;
-            
-        const temperature = options?.temperature || 
-            vscode.workspace.getConfiguration('ollama').get('temperature') as number || 
-            0.7;
-            
-        const timeoutSeconds = options?.timeoutSeconds || 
-            vscode.workspace.getConfiguration('ollama').get('requestTimeout') as number || 
-            90;
+        const timeoutSeconds = options?.timeoutSeconds || ConfigHelper.getTimeoutSeconds();
         
-        // Stream state management
+        // Stream state management: the caller's signal and the hard timeout both abort the request
         const abortController = new AbortController();
+        const callerAbort = options?.signal
+            ? RequestTracker.onAbort(options.signal, () => abortController.abort())
+            : undefined;
+        let fullResponse = '';
+        let metrics: GenerationMetrics | undefined;
+        let requestOptions: OllamaOptions | undefined;
         
         try {
             // Initial thinking message
@@ -1107,36 +961,38 @@ export class OllamaService {
             // Quick check if model is available
             await this.checkServerHealth(model);
             
-            // Truncate prompt to prevent issues
-            const truncatedPrompt = this.truncatePrompt(prompt);
+            if (abortController.signal.aborted) {
+                return { content: '', cancelled: true };
+            }
+            
+            // Size the request to the model's context window
+            const { budget, options: modelOptions } = await this.buildRequestOptions(model, options?.usageCommand || 'completion', options);
+            requestOptions = modelOptions;
+            this.logRequestOptions(model, modelOptions);
+            const truncatedPrompt = OllamaService.truncatePrompt(
+                prompt,
+                TokenBudget.tokensToChars(budget.contextWindow - budget.response)
+            );
             
             // Configure request parameters
             const requestParams = {
                 model,
                 prompt: truncatedPrompt,
-                stream: true,
-                options: {
-                    num_predict: Math.min(maxTokens, 4096),
-                    temperature: temperature,
-                    top_k: 40,
-                    top_p: 0.9,
-                    repeat_penalty: 1.1
-                }
+                keep_alive: this.getKeepAlive(),
+                options: modelOptions
             };
             
             // Make API request with abort controller
-            const response = await axios.post(
-                `${this.baseUrl}/api/generate`, 
-                requestParams, 
-                {
-                    responseType: 'stream',
+            // Only opening the stream is retried; a stream that fails midway is not replayed
+            const stream = await Resilience.execute(
+                this.baseUrl,
+                () => this.pool.run(model, api => api.generateStream(requestParams, {
                     timeout: 30000, // 30s initial connection timeout
+                    signal: abortController.signal
+                }), abortController.signal),
+                {
                     signal: abortController.signal,
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Accept': 'application/json'
-                    },
-                    proxy: false
+                    onRetry: (attempt, delay, error) => this.logRetry('Completion stream', attempt, delay, error)
                 }
             );
             
@@ -1144,40 +1000,37 @@ export class OllamaService {
             onChunk('');
             
             // Process the stream response
-            if (response.data) {
+            if (stream) {
                 // Handle stream errors
-                response.data.on('error', (err: Error) => {
+                stream.on('error', (err: Error) => {
+                    // Destroying the stream on cancellation is not an error worth reporting
+                    if (abortController.signal.aborted) return;
                     console.error('Stream error:', err);
                     onChunk(`\n\n_Error in stream: ${err.message}_`);
                 });
                 
-                // Define handler for each chunk
-                const processChunk = (chunk: Buffer) => {
-                    try {
-                        const text = chunk.toString();
-                        const lines = text.split('\n').filter(Boolean);
-                        
-                        for (const line of lines) {
-                            try {
-                                const data = JSON.parse(line);
-                                
-                                // Only send content if available
-                                if (data.response) {
-                                    onChunk(data.response);
-                                }
-                            } catch (parseError) {
-                                // Log but continue processing
-                                console.warn('JSON parse error in chunk, continuing');
-                            }
-                        }
-                    } catch (error) {
-                        console.error('Chunk processing error:', error);
+                // Lines can span network chunks, so decode through a buffering decoder
+                const decoder = new NdjsonDecoder<GenerateResponse>(() => {
+                    console.warn('JSON parse error in chunk, continuing');
+                });
+                
+                const handleRecord = (data: GenerateResponse) => {
+                    // Only send content if available
+                    if (data.response) {
+                        fullResponse += data.response;
+                        onChunk(data.response);
+                    }
+                    
+                    if (data.error) {
+                        onChunk(`\n\n_Error: ${data.error}_`);
+                    }
+                    
+                    // The final record carries the token counts and timings
+                    if (data.done) {
+                        metrics = getGenerationMetrics(data);
                     }
                 };
                 
-                // Set up data handler
-                response.data.on('data', processChunk);
-                
                 // Wait for stream completion
                 await new Promise<void>((resolve, reject) => {
                     // Set up warning for approaching timeout
@@ -1190,24 +1043,60 @@ export class OllamaService {
                     const hardTimeout = setTimeout(() => {
                         console.log('Hard timeout reached');
                         onChunk(`\n\n_Maximum streaming time exceeded. The model may be generating too much content. You can increase the timeout in settings (File > Preferences > Settings > Extensions > Ollama)._`);
+                        // Closing the connection makes Ollama stop generating
+                        stream.destroy();
                         resolve();
                     }, Math.min(1200000, timeoutSeconds * 1000)); // Increased to 1200s (20 minutes)
                     
-                    // Set up event handlers
-                    response.data.on('end', () => {
+                    // Stop reading as soon as the request is cancelled
+                    RequestTracker.onAbort(abortController.signal, () => {
                         clearTimeout(warningTimeout);
                         clearTimeout(hardTimeout);
+                        stream.destroy();
                         resolve();
                     });
                     
-                    response.data.on('error', (err: Error) => {
-                        clearTimeout(warningTimeout);
+                    // A callback that throws ends the request instead of escaping from the stream listener
+                    const decode = (records: () => GenerateResponse[]) => {
+                        try {
+                            records().forEach(handleRecord);
+                        } catch (error) {
+                            clearTimeout(warningTimeout);
+                            clearTimeout(hardTimeout);
+                            stream.destroy();
+                            reject(error);
+                        }
+                    };
+                    
+                    stream.on('data', (chunk: Buffer) => decode(() => decoder.push(chunk)));
+                    
+                    // Set up event handlers
+                    stream.on('end', () => {
+                        decode(() => decoder.flush());
+                        clearTimeout(warningTimeout);
+                        clearTimeout(hardTimeout);
+                        resolve();
+                    });
+                    
+                    stream.on('error', (err: Error) => {
+                        clearTimeout(warningTimeout);
                         clearTimeout(hardTimeout);
                         reject(err);
                     });
                 });
             }
+            
+            if (options?.signal?.aborted) {
+                return { content: fullResponse, cancelled: true, options: requestOptions };
+            }
+            
+            this.logGenerationMetrics(model, metrics, options?.usageCommand || 'completion');
+            return { content: fullResponse, metrics, options: requestOptions };
         } catch (error) {
+            if (options?.signal?.aborted) {
+                return { content: fullResponse, cancelled: true, options: requestOptions };
+            }
+            
             const errorMessage = this.formatStreamingError(error, timeoutSeconds);
             
             console.error('Ollama streaming error:', errorMessage);
@@ -1217,38 +1106,588 @@ export class OllamaService {
             
             onChunk(`\n\n_Error: ${errorMessage}_`);
             throw error;
+        } finally {
+            callerAbort?.dispose();
         }
     }
     
+    /**
+     * Stream a multi-turn conversation through /api/chat.
+     * The history is trimmed from the oldest turns so that it fits the context window,
+     * and the full assistant reply and its metrics are returned once the stream ends.
+     * Tools are only offered to models that have not rejected them before.
+     */
+    async streamChat(
+        model: string,
+        messages: ChatMessage[],
+        onChunk: (text: string) => void,
+        options?: {
+            maxTokens?: number,
+            temperature?: number,
+            timeoutSeconds?: number,
+            signal?: AbortSignal,
+            /** Overrides of the configured generation options, e.g. from a chat session */
+            generationOptions?: OllamaOptions,
+            tools?: ToolDefinition[],
+            usageCommand?: string,
+            /** The reply depends only on the system prompt and the latest user message, so it may be cached */
+            cacheable?: boolean
+        }
+    ): Promise<StreamResult> {
+        // Get configuration with defaults
+        const timeoutSeconds = options?.timeoutSeconds || ConfigHelper.getTimeoutSeconds();
+
+        // Stream state management: the caller's signal and the hard timeout both abort the request
+        const abortController = new AbortController();
+        const callerAbort = options?.signal
+            ? RequestTracker.onAbort(options.signal, () => abortController.abort())
+            : undefined;
+        let fullResponse = '';
+        let metrics: GenerationMetrics | undefined;
+        let requestOptions: OllamaOptions | undefined;
+        const toolCalls: ToolCall[] = [];
+        const tools = options?.tools && options.tools.length > 0 && !this.modelsWithoutTools.has(model) &&
+            !(await ModelCapabilities.lacks(model, 'tools'))
+            ? options.tools
+            : undefined;
+
+        try {
+            // Initial thinking message
+            onChunk(`_Thinking..._`);
+
+            // Quick check if model is available
+            await this.checkServerHealth(model);
+
+            if (abortController.signal.aborted) {
+                return { content: '', cancelled: true };
+            }
+
+            // Drop the oldest turns that don't fit the model's context window
+            const { budget, options: modelOptions } = await this.buildRequestOptions(model, options?.usageCommand || 'chat', options);
+            requestOptions = modelOptions;
+
+            const trimmedMessages = OllamaService.trimChatHistory(messages, budget.contextWindow - budget.response);
+
+            // The key covers every message sent, so an earlier turn that differs misses the cache
+            const cachePrompt = options?.cacheable ? OllamaService.getCachePrompt(trimmedMessages) : undefined;
+            const cacheKey = cachePrompt !== undefined ? await this.getResponseCacheKey(model, cachePrompt, modelOptions) : undefined;
+            const cached = cacheKey ? await ResponseCache.get(cacheKey) : undefined;
+            if (cached) {
+                if (this.apiChannel) {
+                    this.apiChannel.appendLine(`Using cached reply of ${model} for ${options?.usageCommand || 'chat'}`);
+                }
+                onChunk('');
+                onChunk(cached.content);
+                return { content: cached.content, metrics: cached.metrics, options: modelOptions, cached: true };
+            }
+
+            if (this.apiChannel) {
+                this.apiChannel.appendLine(
+                    `Sending chat with ${trimmedMessages.length} of ${messages.length} messages to model ${model} ` +
+                    `(${GenerationOptions.describe(modelOptions)})`
+                );
+            }
+
+            // Configure request parameters
+            const requestParams = {
+                model,
+                messages: trimmedMessages,
+                tools,
+                keep_alive: this.getKeepAlive(),
+                options: modelOptions
+            };
+
+            // Make API request with abort controller
+            // Only opening the stream is retried; a stream that fails midway is not replayed
+            const stream = await Resilience.execute(
+                this.baseUrl,
+                () => this.pool.run(model, api => api.chatStream(requestParams, {
+                    timeout: 30000, // 30s initial connection timeout
+                    signal: abortController.signal
+                }), abortController.signal),
+                {
+                    signal: abortController.signal,
+                    onRetry: (attempt, delay, error) => this.logRetry('Chat stream', attempt, delay, error)
+                }
+            );
+
+            // Clear the initial thinking message
+            onChunk('');
+
+            // Process the stream response
+            if (stream) {
+                // Lines can span network chunks, so decode through a buffering decoder
+                const decoder = new NdjsonDecoder<ChatResponse>(() => {
+                    console.warn('JSON parse error in chat chunk, continuing');
+                });
+
+                const handleRecord = (data: ChatResponse) => {
+                    // Chat responses carry the content in message.content
+                    if (data.message && data.message.content) {
+                        fullResponse += data.message.content;
+                        onChunk(data.message.content);
+                    }
+
+                    if (data.message && data.message.tool_calls) {
+                        toolCalls.push(...data.message.tool_calls);
+                    }
+
+                    if (data.error) {
+                        onChunk(`\n\n_Error: ${data.error}_`);
+                    }
+
+                    // The final record carries the token counts and timings
+                    if (data.done) {
+                        metrics = getGenerationMetrics(data);
+                    }
+                };
+
+                // Wait for stream completion
+                await new Promise<void>((resolve, reject) => {
+                    // Set up warning for approaching timeout
+                    const warningTimeout = setTimeout(() => {
+                        onChunk(`\n\n_Note: Response is approaching the maximum allowed length. If cut off, try increasing the timeout in settings._`);
+                    }, Math.min(960000, timeoutSeconds * 1000 * 0.8));
+
+                    // Set up hard timeout
+                    const hardTimeout = setTimeout(() => {
+                        onChunk(`\n\n_Maximum streaming time exceeded. The model may be generating too much content. You can increase the timeout in settings (File > Preferences > Settings > Extensions > Ollama)._`);
+                        // Closing the connection makes Ollama stop generating
+                        stream.destroy();
+                        resolve();
+                    }, Math.min(1200000, timeoutSeconds * 1000));
+
+                    // Stop reading as soon as the request is cancelled
+                    RequestTracker.onAbort(abortController.signal, () => {
+                        clearTimeout(warningTimeout);
+                        clearTimeout(hardTimeout);
+                        stream.destroy();
+                        resolve();
+                    });
+
+                    // A callback that throws ends the request instead of escaping from the stream listener
+                    const decode = (records: () => ChatResponse[]) => {
+                        try {
+                            records().forEach(handleRecord);
+                        } catch (error) {
+                            clearTimeout(warningTimeout);
+                            clearTimeout(hardTimeout);
+                            stream.destroy();
+                            reject(error);
+                        }
+                    };
+
+                    stream.on('data', (chunk: Buffer) => decode(() => decoder.push(chunk)));
+
+                    stream.on('end', () => {
+                        decode(() => decoder.flush());
+                        clearTimeout(warningTimeout);
+                        clearTimeout(hardTimeout);
+                        resolve();
+                    });
+
+                    stream.on('error', (err: Error) => {
+                        clearTimeout(warningTimeout);
+                        clearTimeout(hardTimeout);
+                        reject(err);
+                    });
+                });
+            }
+
+            if (options?.signal?.aborted) {
+                return { content: fullResponse, cancelled: true, options: requestOptions };
+            }
+
+            this.logGenerationMetrics(model, metrics, options?.usageCommand || 'chat');
+
+            // Replies cut off by the length limit or waiting for tool results are not worth replaying
+            if (cacheKey && cachePrompt !== undefined && metrics && !metrics.truncated && toolCalls.length === 0) {
+                await ResponseCache.set(cacheKey, {
+                    model,
+                    command: options?.usageCommand || 'chat',
+                    options: modelOptions,
+                    prompt: cachePrompt,
+                    content: fullResponse,
+                    metrics
+                });
+            }
+            return { content: fullResponse, metrics, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, options: requestOptions };
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return { content: fullResponse, cancelled: true, options: requestOptions };
+            }
+
+            // Models without tool support reject the whole request, so retry once without tools
+            if (tools && error instanceof OllamaApiError && error.status === 400 &&
+                (error.serverMessage || '').includes('does not support tools')) {
+                this.modelsWithoutTools.add(model);
+                if (this.apiChannel) {
+                    this.apiChannel.appendLine(`Model ${model} does not support tools, continuing without them`);
+                }
+                return this.streamChat(model, messages, onChunk, { ...options, tools: undefined });
+            }
+
+            const errorMessage = this.formatStreamingError(error, timeoutSeconds);
+
+            console.error('Ollama chat streaming error:', errorMessage);
+            if (this.apiChannel) {
+                this.apiChannel.appendLine(`Chat streaming error: ${errorMessage}`);
+            }
+
+            onChunk(`\n\n_Error: ${errorMessage}_`);
+            throw error;
+        } finally {
+            callerAbort?.dispose();
+        }
+    }
+
     // Helper methods
+
+    /**
+     * Log the metrics of a finished generation and add them to the usage statistics
+     */
+    private logGenerationMetrics(model: string, metrics: GenerationMetrics | undefined, usageCommand: string): void {
+        if (!metrics) {
+            return;
+        }
+
+        UsageStats.record(usageCommand, model, metrics);
+
+        if (!this.apiChannel) {
+            return;
+        }
+
+        this.apiChannel.appendLine(
+            `Generation with ${model} finished: ${metrics.evalCount} tokens in ${metrics.evalDurationMs}ms ` +
+            `(${metrics.tokensPerSecond.toFixed(1)} tokens/s, done_reason: ${metrics.doneReason || 'unknown'})`
+        );
+
+        if (metrics.truncated) {
+            this.apiChannel.appendLine(`Response from ${model} was cut off by the num_predict limit`);
+        }
+    }
+
+    /**
+     * Details of an installed model from /api/show, including its Modelfile
+     */
+    async showModel(model: string): Promise<ShowResponse> {
+        const show = await this.pool.run(model, api => api.show({ model }, { timeout: 10000 }));
+
+        const contextLength = TokenBudget.getModelContextLength(show);
+        if (contextLength !== undefined) {
+            this.contextLengthCache.set(model, contextLength);
+        }
+        return show;
+    }
+
+    /**
+     * Copy a model under a new name; renaming is a copy followed by deleting the original
+     */
+    async copyModel(source: string, destination: string): Promise<void> {
+        await this.pool.run(source, api => api.copy({ source, destination }, { timeout: 60000 }));
+        this.clearModelListCache();
+
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`Copied model ${source} to ${destination}`);
+        }
+    }
+
+    /**
+     * Delete a model from the server that has it
+     */
+    async deleteModel(model: string): Promise<void> {
+        await this.pool.run(model, api => api.delete({ model }, { timeout: 60000 }));
+        this.clearModelListCache();
+        this.contextLengthCache.delete(model);
+
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`Deleted model ${model}`);
+        }
+    }
+
+    /**
+     * Create a model with /api/create, reporting each status the server streams.
+     * Resolves once the server reports success; a cancelled request resolves early.
+     */
+    async createModel(request: CreateRequest, onStatus?: (progress: ProgressResponse) => void, signal?: AbortSignal): Promise<void> {
+        // Creating from a base model that is already installed only writes new layers, so the base picks the server
+        const stream = await this.pool.run(request.from, api => api.createStream(request, {
+            signal,
+            timeout: 0 // Quantizing can take many minutes; cancelling closes the stream instead
+        }), signal);
+
+        let serverError: string | undefined;
+        await new Promise<void>((resolve, reject) => {
+            readNdjsonStream<ProgressResponse>(stream, progress => {
+                if (progress.error) {
+                    serverError = progress.error;
+                } else if (onStatus) {
+                    onStatus(progress);
+                }
+            }).then(resolve, reject);
+
+            // A destroyed stream never ends, so stop waiting as soon as the request is cancelled
+            if (signal) {
+                RequestTracker.onAbort(signal, () => {
+                    stream.destroy();
+                    resolve();
+                });
+            }
+        });
+
+        if (serverError) {
+            throw new OllamaApiError(`Creating ${request.model} failed: ${serverError}`, this.baseUrl, { serverMessage: serverError });
+        }
+        this.clearModelListCache();
+        this.contextLengthCache.delete(request.model);
+
+        if (this.apiChannel && !signal?.aborted) {
+            this.apiChannel.appendLine(`Created model ${request.model}${request.from ? ` from ${request.from}` : ''}`);
+        }
+    }
+
+    /**
+     * Make the next listModels call ask the servers again instead of using the cached list
+     */
+    clearModelListCache(): void {
+        this.modelListCache = null;
+    }
+
+    /**
+     * Load a model into memory ahead of the first request.
+     * A generate request without a prompt only loads the model.
+     */
+    async preloadModel(model: string): Promise<void> {
+        const startedAt = Date.now();
+        await this.pool.run(model, api => api.generate(
+            { model, prompt: '', keep_alive: this.getKeepAlive() },
+            { timeout: 300000 } // Large models can take minutes to load
+        ));
+
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`Preloaded model ${model} in ${Date.now() - startedAt}ms`);
+        }
+    }
+
+    /**
+     * List the models loaded into memory (/api/ps) on every reachable server
+     */
+    async listLoadedModels(): Promise<LoadedModel[]> {
+        const loaded: LoadedModel[] = [];
+
+        for (const endpoint of this.pool.candidates()) {
+            try {
+                const { models } = await endpoint.api.ps({ timeout: 5000 });
+                loaded.push(...models.map(model => ({ endpoint: endpoint.url, model })));
+            } catch (error) {
+                if (this.apiChannel) {
+                    this.apiChannel.appendLine(`Could not list loaded models on ${endpoint.url}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+        }
+
+        return loaded;
+    }
+
+    /**
+     * Unload a model from a server's memory by sending a request with keep_alive 0
+     */
+    async unloadModel(model: string, endpointUrl: string): Promise<void> {
+        const endpoint = this.pool.find(endpointUrl);
+        if (!endpoint) {
+            throw new Error(`Unknown Ollama server: ${endpointUrl}`);
+        }
+
+        await endpoint.api.generate({ model, prompt: '', keep_alive: 0 }, { timeout: 30000 });
+
+        if (this.apiChannel) {
+            this.apiChannel.appendLine(`Unloaded model ${model} from ${endpoint.url}`);
+        }
+    }
+
+    /**
+     * How long models stay loaded after a request (`ollamaEnhanced.keepAlive`).
+     * Plain numbers are seconds; Ollama only accepts them as JSON numbers.
+     */
+    private getKeepAlive(): string | number | undefined {
+        const value = (vscode.workspace.getConfiguration('ollamaEnhanced').get<string>('keepAlive', '') || '').trim();
+        if (!value) {
+            return undefined;
+        }
+        return /^-?\d+$/.test(value) ? Number(value) : value;
+    }
+
+    /**
+     * Model options for a streamed request: the configured generation options for the command,
+     * the caller's overrides, and num_ctx/num_predict from the token budget unless set explicitly
+     */
+    private async buildRequestOptions(
+        model: string,
+        command: string,
+        overrides?: { maxTokens?: number, temperature?: number, generationOptions?: OllamaOptions }
+    ): Promise<{ budget: TokenBudgetPlan, options: OllamaOptions }> {
+        const resolved = GenerationOptions.resolve(command, overrides?.generationOptions);
+        const config = vscode.workspace.getConfiguration('ollama');
+        
+        const contextWindow = resolved.num_ctx !== undefined ? Number(resolved.num_ctx) : await this.getContextWindow(model);
+        const numPredict = resolved.num_predict !== undefined ? Number(resolved.num_predict) : undefined;
+        const maxTokens = overrides?.maxTokens ||
+            (numPredict !== undefined && numPredict > 0 ? numPredict : undefined) ||
+            config.get('maxResponseTokens') as number ||
+            4096;
+        const budget = TokenBudget.plan(contextWindow, { maxResponseTokens: maxTokens });
+        
+        return {
+            budget,
+            options: {
+                ...resolved,
+                num_ctx: budget.contextWindow,
+                // -1 and -2 (no limit, fill the context) are passed through unchanged
+                num_predict: numPredict !== undefined && numPredict <= 0 ? numPredict : budget.response,
+                temperature: overrides?.temperature ?? resolved.temperature ?? (config.get('temperature') as number || 0.7)
+            }
+        };
+    }
+
+    /**
+     * Key of a request in the response cache, or undefined when it is not cached:
+     * the cache is disabled, the options are not deterministic or the model digest is unknown
+     */
+    private async getResponseCacheKey(model: string, prompt: string, options: OllamaOptions): Promise<string | undefined> {
+        if (!ResponseCache.isEnabled() || !ResponseCache.isDeterministic(options)) {
+            return undefined;
+        }
+        
+        // Not listModels(): when the servers cannot be reached the request just skips the cache, without error messages
+        try {
+            const cached = this.modelListCache && Date.now() - this.modelListCache.timestamp < this.CACHE_TTL
+                ? this.modelListCache.models
+                : undefined;
+            const models = cached || await this.pool.listModels(5000);
+            const match = models.find(m => sameModel(m.name, model));
+            return match && match.digest ? ResponseCache.createKey(match.digest, prompt, options) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
     
-    private truncatePrompt(prompt: string): string {
-        const MAX_PROMPT_LENGTH = 8000;
+    /**
+     * Every message of a conversation as one text, or undefined when the latest turn
+     * is not a plain user message (tool results) or any message has images
+     */
+    private static getCachePrompt(messages: ChatMessage[]): string | undefined {
+        const latest = messages[messages.length - 1];
+        if (!latest || latest.role !== 'user' || messages.some(m => m.images && m.images.length > 0)) {
+            return undefined;
+        }
         
-        if (prompt.length > MAX_PROMPT_LENGTH) {
-            return prompt.substring(0, MAX_PROMPT_LENGTH) + 
-                `\n\n... [content truncated to ${MAX_PROMPT_LENGTH} characters for performance] ...`;
+        return messages.map(m => {
+            const toolCalls = m.tool_calls && m.tool_calls.length > 0 ? `\n${JSON.stringify(m.tool_calls)}` : '';
+            return `[${m.role}]\n${m.content}${toolCalls}`;
+        }).join('\n\n');
+    }
+    
+    /**
+     * Get the context window (num_ctx) to request for a model.
+     * The model's trained context length comes from /api/show and is cached per model.
+     */
+    async getContextWindow(model: string): Promise<number> {
+        let contextLength = this.contextLengthCache.get(model);
+
+        if (contextLength === undefined) {
+            try {
+                const show = await this.pool.run(model, api => api.show({ model }, { timeout: 10000 }));
+                contextLength = TokenBudget.getModelContextLength(show);
+                if (contextLength !== undefined) {
+                    this.contextLengthCache.set(model, contextLength);
+                }
+            } catch (error) {
+                if (this.apiChannel) {
+                    this.apiChannel.appendLine(`Could not read context length of ${model}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+        }
+
+        return TokenBudget.resolveContextWindow(contextLength);
+    }
+
+    /**
+     * Keep the system message and the latest user turn, then add earlier turns
+     * (newest first) until the token budget for the context window is used up.
+     */
+    static trimChatHistory(
+        messages: ChatMessage[],
+        maxTokens: number = TokenBudget.DEFAULT_CONTEXT_WINDOW - 1024
+    ): ChatMessage[] {
+        const systemMessages = messages.filter(m => m.role === 'system');
+        const turns = messages.filter(m => m.role !== 'system');
+        if (turns.length === 0) {
+            return systemMessages;
+        }
+
+        const systemTokens = systemMessages.reduce((total, m) => total + TokenBudget.estimateMessageTokens(m), 0);
+
+        // The latest turn is always sent, truncated to whatever the system prompt leaves
+        const latest = turns[turns.length - 1];
+        const latestMessage: ChatMessage = {
+            ...latest,
+            content: OllamaService.truncatePrompt(latest.content, TokenBudget.tokensToChars(maxTokens - systemTokens))
+        };
+
+        let remaining = maxTokens - systemTokens - TokenBudget.estimateMessageTokens(latestMessage);
+
+        const history: ChatMessage[] = [];
+        for (let i = turns.length - 2; i >= 0; i--) {
+            const tokens = TokenBudget.estimateMessageTokens(turns[i]);
+            if (tokens > remaining) {
+                break;
+            }
+            history.unshift(turns[i]);
+            remaining -= tokens;
+        }
+
+        // A conversation should not start with an orphaned assistant reply or tool result
+        while (history.length > 0 && history[0].role !== 'user') {
+            history.shift();
+        }
+
+        return [...systemMessages, ...history, latestMessage];
+    }
+
+    private static truncatePrompt(prompt: string, maxLength: number): string {
+        // Leave room for the truncation notice itself
+        const limit = Math.max(0, maxLength - 100);
+        
+        if (prompt.length > limit) {
+            return prompt.substring(0, limit) + 
+                `\n\n... [content truncated to ${limit} characters to fit the context window] ...`;
         }
         return prompt;
     }
     
     private formatStreamingError(error: unknown, timeoutSeconds: number): string {
-        if (axios.isAxiosError(error)) {
-            const axiosError = error as AxiosError;
-            
-            if (axiosError.code === 'ECONNABORTED') {
+        switch (categorizeError(error)) {
+            case ErrorCategory.Timeout:
                 return `Request timed out after ${timeoutSeconds}s. The model might be busy or the server overloaded.`;
-            } else if (axiosError.code === 'ECONNREFUSED') {
+            case ErrorCategory.ConnectionRefused:
                 return `Connection refused. Make sure Ollama server is running.`;
-            } else if (axiosError.code === 'ERR_CANCELED') {
+            case ErrorCategory.Cancelled:
                 return `Request was canceled.`;
-            } else if (axiosError.response) {
-                return `Server error (Status: ${axiosError.response.status}). Try using a different model.`;
-            } else if (axiosError.request) {
-                return `No response from server. Check your network connection.`;
-            } else {
-                return `Network error: ${axiosError.message}`;
+            case ErrorCategory.ModelNotFound:
+                return `Model not found. Pull it with the Download/Install Model command.`;
+            case ErrorCategory.OutOfMemory:
+                return `Not enough memory to load the model. Unload other models or use a smaller one.`;
+            case ErrorCategory.CircuitOpen:
+                return error instanceof Error ? error.message : String(error);
+        }
+
+        if (error instanceof OllamaApiError) {
+            if (error.status !== undefined) {
+                return error.serverMessage
+                    ? `Server error (Status: ${error.status}): ${error.serverMessage}`
+                    : `Server error (Status: ${error.status}). Try using a different model.`;
             }
+            return `Network error: ${error.message}`;
         } else if (error instanceof Error) {
             return error.message;
         } else {
@@ -0,0 +1,70 @@
+/**
+ * Common interface for the model backends the extension can talk to
+ */
+import { ChatMessage, OllamaOptions, ToolDefinition } from '../ollamaApi';
+import { StreamResult } from '../ollamaService';
+
+/**
+ * Supported backend protocols, matching the `ollamaEnhanced.provider` setting
+ */
+export type ProviderKind = 'ollama' | 'openaiCompatible';
+
+/**
+ * A model as listed by a provider. Size and date are only known for some backends.
+ */
+export interface ProviderModel {
+    name: string;
+    size?: number;
+    modified_at?: string;
+}
+
+/**
+ * Generation options shared by every provider
+ */
+export interface ProviderRequestOptions {
+    maxTokens?: number;
+    temperature?: number;
+    timeoutSeconds?: number;
+    signal?: AbortSignal;
+    /** Tools the model may call; ignored by providers without tool support */
+    tools?: ToolDefinition[];
+    /** Command type the generation is counted under in the usage statistics */
+    usageCommand?: string;
+    /** Overrides of the configured generation options; providers ignore options they do not support */
+    generationOptions?: OllamaOptions;
+    /** The reply depends only on the system prompt and latest message and may come from the response cache */
+    cacheable?: boolean;
+}
+
+/**
+ * A backend that can list models, stream chat replies and produce one-shot completions
+ */
+export interface ModelProvider {
+    readonly kind: ProviderKind;
+    readonly displayName: string;
+
+    /**
+     * List the models the backend can serve
+     */
+    listModels(): Promise<ProviderModel[]>;
+
+    /**
+     * Context window (in tokens) that requests to the model will use
+     */
+    getContextWindow(model: string): Promise<number>;
+
+    /**
+     * Stream a multi-turn conversation, calling `onChunk` with each piece of text
+     */
+    streamChat(
+        model: string,
+        messages: ChatMessage[],
+        onChunk: (text: string) => void,
+        options?: ProviderRequestOptions
+    ): Promise<StreamResult>;
+
+    /**
+     * Generate a single non-streamed completion for a prompt
+     */
+    generate(model: string, prompt: string, options?: ProviderRequestOptions): Promise<string>;
+}
@@ -0,0 +1,45 @@
+/**
+ * Model provider for the native Ollama protocol
+ */
+import { ChatMessage } from '../ollamaApi';
+import { OllamaService, StreamResult } from '../ollamaService';
+import { ModelProvider, ProviderKind, ProviderModel, ProviderRequestOptions } from './modelProvider';
+
+/**
+ * Adapts OllamaService (/api/tags, /api/chat, /api/generate) to the ModelProvider interface
+ */
+export class OllamaProvider implements ModelProvider {
+    readonly kind: ProviderKind = 'ollama';
+    readonly displayName = 'Ollama';
+
+    private readonly ollamaService: OllamaService;
+
+    constructor(ollamaService: OllamaService) {
+        this.ollamaService = ollamaService;
+    }
+
+    async listModels(): Promise<ProviderModel[]> {
+        return this.ollamaService.listModels();
+    }
+
+    async getContextWindow(model: string): Promise<number> {
+        return this.ollamaService.getContextWindow(model);
+    }
+
+    async streamChat(
+        model: string,
+        messages: ChatMessage[],
+        onChunk: (text: string) => void,
+        options?: ProviderRequestOptions
+    ): Promise<StreamResult> {
+        return this.ollamaService.streamChat(model, messages, onChunk, options);
+    }
+
+    async generate(model: string, prompt: string, options?: ProviderRequestOptions): Promise<string> {
+        return this.ollamaService.generateCompletion(model, prompt, {
+            signal: options?.signal,
+            usageCommand: options?.usageCommand,
+            generationOptions: options?.generationOptions
+        });
+    }
+}
@@ -0,0 +1,381 @@
+/**
+ * Model provider for servers that implement the OpenAI chat completions API,
+ * such as llama.cpp `llama-server`, LM Studio and vLLM
+ */
+import * as vscode from 'vscode';
+import axios from 'axios';
+import type { Readable } from 'stream';
+import { ChatMessage, GenerationMetrics, OllamaOptions } from '../ollamaApi';
+import { OllamaService, StreamResult } from '../ollamaService';
+import { SseDecoder } from '../ndjson';
+import { ConfigHelper, RequestTracker } from '../utils';
+import { EndpointSettings } from '../endpointSettings';
+import { TokenBudget } from '../tokenBudget';
+import { UsageStats } from '../usageStats';
+import { GenerationOptions } from '../generationOptions';
+import { ModelProvider, ProviderKind, ProviderModel, ProviderRequestOptions } from './modelProvider';
+
+interface OpenAiModelList {
+    data: { id: string; created?: number; owned_by?: string }[];
+}
+
+interface OpenAiChatChunk {
+    choices?: {
+        delta?: { content?: string | null };
+        finish_reason?: string | null;
+    }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+    error?: { message?: string };
+}
+
+/**
+ * Chat message in OpenAI format; images are sent as content parts with data URLs
+ */
+interface OpenAiChatMessage {
+    role: string;
+    content: string | ({ type: 'text', text: string } | { type: 'image_url', image_url: { url: string } })[];
+}
+
+interface OpenAiChatCompletion {
+    choices: {
+        message: { content: string | null };
+        finish_reason?: string | null;
+    }[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+}
+
+/**
+ * Talks to `/v1/models` and `/v1/chat/completions`, streaming replies as server-sent events
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+    readonly kind: ProviderKind = 'openaiCompatible';
+    readonly displayName = 'OpenAI-compatible server';
+
+    private readonly outputChannel: vscode.OutputChannel;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Base URL including the `/v1` prefix, read on every request so setting changes apply immediately
+     */
+    private get baseUrl(): string {
+        const url = vscode.workspace.getConfiguration('ollamaEnhanced').get('openAiCompatible.baseUrl', 'http://localhost:8080/v1');
+        return url.replace(/\/+$/, '');
+    }
+
+    async listModels(): Promise<ProviderModel[]> {
+        try {
+            const connection = await EndpointSettings.getConnection(this.baseUrl);
+            const response = await axios.get<OpenAiModelList>(`${this.baseUrl}/models`, {
+                timeout: 8000,
+                headers: { 'Accept': 'application/json', ...connection.headers },
+                httpsAgent: connection.httpsAgent,
+                proxy: connection.proxy || false
+            });
+
+            const models = (response.data && Array.isArray(response.data.data)) ? response.data.data : [];
+            this.outputChannel.appendLine(`Found ${models.length} models on ${this.baseUrl}`);
+
+            return models.map(model => ({
+                name: model.id,
+                modified_at: model.created ? new Date(model.created * 1000).toISOString() : undefined
+            }));
+        } catch (error) {
+            const message = this.describeError(error);
+            this.outputChannel.appendLine(`Error listing models from ${this.baseUrl}: ${message}`);
+            vscode.window.showErrorMessage(`Failed to list models from the OpenAI-compatible server: ${message}`);
+            return [];
+        }
+    }
+
+    /**
+     * The OpenAI API does not report context lengths, so the default window is assumed
+     */
+    async getContextWindow(): Promise<number> {
+        return TokenBudget.resolveContextWindow(undefined);
+    }
+
+    async streamChat(
+        model: string,
+        messages: ChatMessage[],
+        onChunk: (text: string) => void,
+        options?: ProviderRequestOptions
+    ): Promise<StreamResult> {
+        const timeoutSeconds = options?.timeoutSeconds || ConfigHelper.getTimeoutSeconds();
+
+        // The caller's signal and the hard timeout both abort the request
+        const abortController = new AbortController();
+        const callerAbort = options?.signal
+            ? RequestTracker.onAbort(options.signal, () => abortController.abort())
+            : undefined;
+
+        let fullResponse = '';
+        let finishReason: string | undefined;
+        let completionTokens: number | undefined;
+        let promptTokens: number | undefined;
+        let firstTokenAt = 0;
+        let requestOptions: OllamaOptions | undefined;
+        const startedAt = Date.now();
+
+        try {
+            // Initial thinking message
+            onChunk(`_Thinking..._`);
+
+            requestOptions = this.resolveOptions(options?.usageCommand || 'chat', options);
+            const budget = TokenBudget.plan(await this.getContextWindow(), { maxResponseTokens: options?.maxTokens });
+            const trimmedMessages = OllamaService.trimChatHistory(messages, budget.contextWindow - budget.response);
+            this.outputChannel.appendLine(`Sending chat with ${trimmedMessages.length} of ${messages.length} messages to ${model} at ${this.baseUrl}`);
+
+            const connection = await EndpointSettings.getConnection(this.baseUrl);
+
+            const response = await axios.post<Readable>(`${this.baseUrl}/chat/completions`, {
+                model,
+                messages: trimmedMessages.map(message => this.toOpenAiMessage(message)),
+                stream: true,
+                stream_options: { include_usage: true },
+                ...this.toSamplingParameters(requestOptions)
+            }, {
+                responseType: 'stream',
+                timeout: 30000, // 30s initial connection timeout
+                signal: abortController.signal,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Accept': 'text/event-stream',
+                    ...connection.headers
+                },
+                httpsAgent: connection.httpsAgent,
+                proxy: connection.proxy || false
+            });
+
+            const stream = response.data;
+
+            // Clear the initial thinking message
+            onChunk('');
+
+            const decoder = new SseDecoder<OpenAiChatChunk>(() => {
+                console.warn('JSON parse error in server-sent event, continuing');
+            });
+
+            const handleEvent = (event: OpenAiChatChunk) => {
+                if (event.error) {
+                    onChunk(`\n\n_Error: ${event.error.message || 'Unknown server error'}_`);
+                }
+
+                const choice = event.choices && event.choices[0];
+                if (choice) {
+                    const content = choice.delta && choice.delta.content;
+                    if (content) {
+                        if (!firstTokenAt) {
+                            firstTokenAt = Date.now();
+                        }
+                        fullResponse += content;
+                        onChunk(content);
+                    }
+
+                    if (choice.finish_reason) {
+                        finishReason = choice.finish_reason;
+                    }
+                }
+
+                // Sent on the last event when stream_options.include_usage is supported
+                if (event.usage) {
+                    completionTokens = event.usage.completion_tokens;
+                    promptTokens = event.usage.prompt_tokens;
+                }
+            };
+
+            stream.on('data', (chunk: Buffer) => decoder.push(chunk).forEach(handleEvent));
+
+            // Wait for stream completion
+            await new Promise<void>((resolve, reject) => {
+                const hardTimeout = setTimeout(() => {
+                    onChunk(`\n\n_Maximum streaming time exceeded. You can increase the timeout in settings._`);
+                    stream.destroy();
+                    resolve();
+                }, Math.min(1200000, timeoutSeconds * 1000));
+
+                RequestTracker.onAbort(abortController.signal, () => {
+                    clearTimeout(hardTimeout);
+                    stream.destroy();
+                    resolve();
+                });
+
+                stream.on('end', () => {
+                    decoder.flush().forEach(handleEvent);
+                    clearTimeout(hardTimeout);
+                    resolve();
+                });
+
+                stream.on('error', (err: Error) => {
+                    clearTimeout(hardTimeout);
+                    reject(err);
+                });
+            });
+
+            if (options?.signal?.aborted) {
+                return { content: fullResponse, cancelled: true, options: requestOptions };
+            }
+
+            const metrics = finishReason
+                ? this.buildMetrics(fullResponse, finishReason, startedAt, firstTokenAt, completionTokens, promptTokens)
+                : undefined;
+
+            if (metrics) {
+                UsageStats.record(options?.usageCommand || 'chat', model, metrics);
+                this.outputChannel.appendLine(
+                    `Generation with ${model} finished: ${metrics.evalCount} tokens ` +
+                    `(${metrics.tokensPerSecond.toFixed(1)} tokens/s, finish_reason: ${finishReason})`
+                );
+            }
+
+            return { content: fullResponse, metrics, options: requestOptions };
+        } catch (error) {
+            if (options?.signal?.aborted) {
+                return { content: fullResponse, cancelled: true, options: requestOptions };
+            }
+
+            const errorMessage = this.describeError(error);
+            this.outputChannel.appendLine(`Chat streaming error: ${errorMessage}`);
+            onChunk(`\n\n_Error: ${errorMessage}_`);
+            throw error;
+        } finally {
+            callerAbort?.dispose();
+        }
+    }
+
+    async generate(model: string, prompt: string, options?: ProviderRequestOptions): Promise<string> {
+        const startedAt = Date.now();
+        try {
+            const connection = await EndpointSettings.getConnection(this.baseUrl);
+            const response = await axios.post<OpenAiChatCompletion>(`${this.baseUrl}/chat/completions`, {
+                model,
+                messages: [{ role: 'user', content: prompt }],
+                stream: false,
+                ...this.toSamplingParameters(this.resolveOptions(options?.usageCommand || 'completion', options))
+            }, {
+                timeout: 30000,
+                signal: options?.signal,
+                headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', ...connection.headers },
+                httpsAgent: connection.httpsAgent,
+                proxy: connection.proxy || false
+            });
+
+            const choice = response.data && response.data.choices && response.data.choices[0];
+            if (!choice || typeof choice.message?.content !== 'string') {
+                throw new Error(`Invalid response from ${this.baseUrl}: missing 'choices[0].message.content'`);
+            }
+
+            const usage = response.data.usage;
+            UsageStats.record(options?.usageCommand || 'completion', model, this.buildMetrics(
+                choice.message.content,
+                choice.finish_reason || 'stop',
+                startedAt,
+                0,
+                usage?.completion_tokens,
+                usage?.prompt_tokens
+            ));
+
+            return choice.message.content;
+        } catch (error) {
+            if (!options?.signal?.aborted) {
+                this.outputChannel.appendLine(`Completion error: ${this.describeError(error)}`);
+            }
+            throw error;
+        }
+    }
+
+    private toOpenAiMessage(message: ChatMessage): OpenAiChatMessage {
+        if (!message.images || message.images.length === 0) {
+            return { role: message.role, content: message.content };
+        }
+
+        return {
+            role: message.role,
+            content: [
+                { type: 'text', text: message.content },
+                ...message.images.map(image => ({
+                    type: 'image_url' as const,
+                    // Base64 PNG data starts with the encoded PNG signature, anything else is sent as JPEG
+                    image_url: { url: `data:${image.startsWith('iVBORw0KGgo') ? 'image/png' : 'image/jpeg'};base64,${image}` }
+                }))
+            ]
+        };
+    }
+
+    /**
+     * Generation options for the command, with the caller's token limit and temperature on top
+     */
+    private resolveOptions(command: string, options?: ProviderRequestOptions): OllamaOptions {
+        const resolved = GenerationOptions.resolve(command, options?.generationOptions);
+        if (options?.maxTokens !== undefined) {
+            resolved.num_predict = options.maxTokens;
+        }
+        if (options?.temperature !== undefined) {
+            resolved.temperature = options.temperature;
+        }
+        return resolved;
+    }
+
+    /**
+     * Map Ollama options to their chat completions equivalents; options without one are not sent
+     */
+    private toSamplingParameters(options: OllamaOptions): Record<string, unknown> {
+        const numPredict = options.num_predict;
+        return {
+            max_tokens: numPredict !== undefined && numPredict > 0 ? numPredict : undefined,
+            temperature: options.temperature,
+            top_p: options.top_p,
+            seed: options.seed,
+            stop: options.stop,
+            presence_penalty: options.presence_penalty,
+            frequency_penalty: options.frequency_penalty
+        };
+    }
+
+    /**
+     * Approximate Ollama-style metrics; servers that omit usage are measured from the streamed text.
+     * Without a first-token time (non-streamed requests) the speed cannot be measured and is reported as 0.
+     */
+    private buildMetrics(
+        content: string,
+        finishReason: string,
+        startedAt: number,
+        firstTokenAt: number,
+        completionTokens: number | undefined,
+        promptTokens: number | undefined
+    ): GenerationMetrics {
+        const endedAt = Date.now();
+        const evalDurationMs = firstTokenAt ? endedAt - firstTokenAt : 0;
+        // Roughly four characters per token when the server does not report usage
+        const evalCount = completionTokens ?? Math.ceil(content.length / 4);
+        // The server does not report load and prompt timings, so the wait for the first token stands in for both
+        const timeToFirstTokenMs = firstTokenAt ? firstTokenAt - startedAt : 0;
+
+        return {
+            promptEvalCount: promptTokens || 0,
+            evalCount,
+            evalDurationMs,
+            totalDurationMs: endedAt - startedAt,
+            loadDurationMs: 0,
+            promptEvalDurationMs: timeToFirstTokenMs,
+            timeToFirstTokenMs,
+            tokensPerSecond: evalDurationMs > 0 ? evalCount / (evalDurationMs / 1000) : 0,
+            doneReason: finishReason,
+            truncated: finishReason === 'length'
+        };
+    }
+
+    private describeError(error: unknown): string {
+        if (axios.isAxiosError(error)) {
+            if (error.code === 'ECONNREFUSED') {
+                return `Connection refused. Make sure the server at ${this.baseUrl} is running.`;
+            } else if (error.response) {
+                return `Server error (Status: ${error.response.status})`;
+            }
+            return error.message;
+        }
+        return error instanceof Error ? error.message : String(error);
+    }
+}
@@ -0,0 +1,205 @@
+/**
+ * Proxy resolution for requests to Ollama servers and downloads, following VS Code's `http.proxy` settings
+ */
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+
+/**
+ * Proxy to use for one request
+ */
+export interface ProxyConfig {
+    /** Proxy URL, e.g. http://proxy.example.com:3128 */
+    url: string;
+    /** Verify the certificates of servers reached through the proxy (`http.proxyStrictSSL`) */
+    strictSSL: boolean;
+    /** Value of the Proxy-Authorization header */
+    authorization?: string;
+}
+
+/**
+ * HTTPS agent that opens a CONNECT tunnel through an HTTP or HTTPS proxy for each connection
+ */
+class TunnelingAgent extends https.Agent {
+    private readonly proxy: ProxyConfig;
+
+    constructor(proxy: ProxyConfig, options: https.AgentOptions) {
+        super(options);
+        this.proxy = proxy;
+    }
+
+    /**
+     * Node's agent waits for the callback when no socket is returned
+     */
+    createConnection(options: tls.ConnectionOptions & { host?: string, port?: number }, callback: (error: Error | null, socket?: net.Socket) => void): undefined {
+        const proxyUrl = new URL(this.proxy.url);
+        const target = `${options.host}:${options.port}`;
+        const isHttpsProxy = proxyUrl.protocol === 'https:';
+
+        const request = (isHttpsProxy ? https : http).request({
+            host: proxyUrl.hostname,
+            port: proxyUrl.port || (isHttpsProxy ? 443 : 80),
+            method: 'CONNECT',
+            path: target,
+            headers: {
+                Host: target,
+                ...(this.proxy.authorization ? { 'Proxy-Authorization': this.proxy.authorization } : {})
+            },
+            rejectUnauthorized: this.proxy.strictSSL,
+            agent: false
+        });
+
+        request.once('connect', (response: http.IncomingMessage, socket: net.Socket) => {
+            if (response.statusCode !== 200) {
+                socket.destroy();
+                callback(new Error(`Proxy ${proxyUrl.host} refused the connection to ${target} (status ${response.statusCode})`));
+                return;
+            }
+
+            callback(null, tls.connect({ ...options, socket, servername: options.servername || options.host }));
+        });
+        request.once('error', error => callback(error));
+        request.end();
+
+        return undefined;
+    }
+}
+
+export class ProxySettings {
+    private static readonly LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+    /**
+     * Proxy for a request to `url`, or undefined to connect directly.
+     * An endpoint's own `proxy` setting comes first (`false` connects directly), then `http.proxy`,
+     * then the HTTPS_PROXY and HTTP_PROXY environment variables. Loopback addresses always connect directly,
+     * and hosts listed in `http.noProxy` or NO_PROXY skip the shared proxy.
+     */
+    static resolve(url: string, endpointProxy?: string | false): ProxyConfig | undefined {
+        let target: URL;
+        try {
+            target = new URL(url);
+        } catch {
+            return undefined;
+        }
+
+        const host = target.hostname.toLowerCase();
+        if (this.LOOPBACK_HOSTS.includes(host) || host.startsWith('127.')) {
+            return undefined;
+        }
+
+        if (endpointProxy === false) {
+            return undefined;
+        }
+
+        const proxyUrl = endpointProxy || (this.isExcluded(target) ? undefined : this.getSharedProxy(target.protocol));
+        return proxyUrl ? this.toConfig(proxyUrl) : undefined;
+    }
+
+    /**
+     * Agent for an HTTPS request through a proxy, with the TLS options of the target server
+     */
+    static createTunnelingAgent(proxy: ProxyConfig, options: https.AgentOptions = {}): https.Agent {
+        return new TunnelingAgent(proxy, { keepAlive: true, ...options });
+    }
+
+    /**
+     * axios proxy settings for a plain HTTP request through a proxy
+     */
+    static toAxiosProxy(proxy: ProxyConfig): { protocol: string, host: string, port: number } {
+        const proxyUrl = new URL(proxy.url);
+        const isHttps = proxyUrl.protocol === 'https:';
+        return {
+            protocol: isHttps ? 'https' : 'http',
+            host: proxyUrl.hostname,
+            port: Number(proxyUrl.port) || (isHttps ? 443 : 80)
+        };
+    }
+
+    /**
+     * Environment for an Ollama server started by the extension, so that model pulls use the VS Code proxy.
+     * Empty when `http.proxy` is not set; the server then inherits the proxy variables of VS Code.
+     */
+    static getServerEnvironment(): Record<string, string> {
+        const proxy = vscode.workspace.getConfiguration('http').get<string>('proxy', '');
+        if (!proxy) {
+            return {};
+        }
+
+        const noProxy = [...this.LOOPBACK_HOSTS.filter(host => !host.startsWith('[')), ...this.getNoProxyEntries()];
+        return {
+            HTTPS_PROXY: proxy,
+            HTTP_PROXY: proxy,
+            NO_PROXY: [...new Set(noProxy)].join(',')
+        };
+    }
+
+    private static getSharedProxy(protocol: string): string | undefined {
+        const configured = vscode.workspace.getConfiguration('http').get<string>('proxy', '');
+        if (configured) {
+            return configured;
+        }
+
+        const env = process.env;
+        return protocol === 'https:'
+            ? env.HTTPS_PROXY || env.https_proxy || env.HTTP_PROXY || env.http_proxy
+            : env.HTTP_PROXY || env.http_proxy;
+    }
+
+    private static getNoProxyEntries(): string[] {
+        const configured = vscode.workspace.getConfiguration('http').get<string[]>('noProxy', []) || [];
+        const env = process.env.NO_PROXY || process.env.no_proxy || '';
+        return [...configured, ...env.split(/[\s,]+/)]
+            .map(entry => entry.trim().toLowerCase())
+            .filter(entry => entry !== '');
+    }
+
+    /**
+     * NO_PROXY matching: `*` matches everything, `example.com` and `.example.com` match the domain
+     * and its subdomains, and an entry with a port only matches that port
+     */
+    private static isExcluded(target: URL): boolean {
+        const host = target.hostname.toLowerCase();
+        const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+        return this.getNoProxyEntries().some(entry => {
+            if (entry === '*') {
+                return true;
+            }
+
+            const match = entry.match(/^(.*?)(?::(\d+))?$/);
+            const domain = (match ? match[1] : entry).replace(/^\*?\./, '');
+            if (match && match[2] && match[2] !== port) {
+                return false;
+            }
+            return host === domain || host.endsWith(`.${domain}`);
+        });
+    }
+
+    private static toConfig(proxyUrl: string): ProxyConfig | undefined {
+        let parsed: URL;
+        try {
+            // A bare host:port is treated as an HTTP proxy, as VS Code does
+            parsed = new URL(/^[a-z]+:\/\//i.test(proxyUrl) ? proxyUrl : `http://${proxyUrl}`);
+        } catch {
+            console.warn(`Ignoring invalid proxy URL: ${proxyUrl}`);
+            return undefined;
+        }
+
+        const httpConfig = vscode.workspace.getConfiguration('http');
+        let authorization = httpConfig.get<string | null>('proxyAuthorization', null) || undefined;
+        if (!authorization && parsed.username) {
+            const credentials = `${decodeURIComponent(parsed.username)}:${decodeURIComponent(parsed.password)}`;
+            authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+        }
+
+        parsed.username = '';
+        parsed.password = '';
+        return {
+            url: parsed.toString(),
+            strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+            authorization
+        };
+    }
+}
@@ -0,0 +1,196 @@
+/**
+ * Central queue for requests to the model server
+ */
+import * as vscode from 'vscode';
+import { RequestTracker } from './utils';
+
+/**
+ * Lower values run first
+ */
+export enum RequestPriority {
+    /** Inline code completion the user is waiting on */
+    Interactive = 0,
+    /** Chat panel responses */
+    Chat = 1,
+    /** Status polling, model list refreshes and other work nobody is waiting on */
+    Background = 2
+}
+
+export interface ScheduleOptions {
+    priority: RequestPriority;
+    /** A newer request with the same key removes this one from the queue */
+    key?: string;
+    /** Aborting the signal removes the request from the queue */
+    signal?: AbortSignal;
+    /** Called with the 1-based queue position while waiting, and with 0 when the request starts */
+    onQueuePosition?: (position: number) => void;
+}
+
+/**
+ * Thrown when a queued request is replaced by a newer request with the same key
+ */
+export class RequestSupersededError extends Error {
+    constructor(key: string) {
+        super(`Request '${key}' was superseded by a newer request`);
+        this.name = 'RequestSupersededError';
+    }
+}
+
+interface QueuedRequest {
+    priority: RequestPriority;
+    key?: string;
+    onQueuePosition?: (position: number) => void;
+    lastPosition: number;
+    start: () => void;
+    reject: (error: Error) => void;
+    abortListener?: vscode.Disposable;
+}
+
+/**
+ * Limits how many requests reach the server at once and runs queued requests by priority.
+ * Requests of equal priority run in the order they were scheduled.
+ */
+export class RequestScheduler {
+    private static queue: QueuedRequest[] = [];
+    private static running = 0;
+
+    /**
+     * Run a task once a slot is free. The slot is held until the task's promise settles,
+     * so streaming tasks should resolve only when the stream has ended.
+     */
+    static async schedule<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+        await this.acquire(options);
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    /**
+     * Number of requests waiting for a slot
+     */
+    static get pendingCount(): number {
+        return this.queue.length;
+    }
+
+    /**
+     * Number of requests currently holding a slot
+     */
+    static get runningCount(): number {
+        return this.running;
+    }
+
+    /**
+     * Reject every queued request, e.g. when the extension is deactivated
+     */
+    static clearQueue(): void {
+        const queued = this.queue;
+        this.queue = [];
+        queued.forEach(request => {
+            request.abortListener?.dispose();
+            request.reject(new Error('Request queue was cleared'));
+        });
+    }
+
+    private static get maxConcurrent(): number {
+        const configured = vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('maxConcurrentRequests', 2);
+        return Math.max(1, Math.floor(configured) || 1);
+    }
+
+    private static acquire(options: ScheduleOptions): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            if (options.signal?.aborted) {
+                reject(new Error('Request was cancelled before it started'));
+                return;
+            }
+
+            if (options.key) {
+                this.supersede(options.key);
+            }
+
+            if (this.running < this.maxConcurrent && this.queue.length === 0) {
+                this.running++;
+                options.onQueuePosition?.(0);
+                resolve();
+                return;
+            }
+
+            const request: QueuedRequest = {
+                priority: options.priority,
+                key: options.key,
+                onQueuePosition: options.onQueuePosition,
+                lastPosition: 0,
+                start: resolve,
+                reject
+            };
+
+            if (options.signal) {
+                request.abortListener = RequestTracker.onAbort(options.signal, () => {
+                    if (this.remove(request)) {
+                        reject(new Error('Request was cancelled before it started'));
+                    }
+                });
+            }
+
+            // Insert after every queued request of the same or higher priority
+            const index = this.queue.findIndex(queued => queued.priority > request.priority);
+            if (index === -1) {
+                this.queue.push(request);
+            } else {
+                this.queue.splice(index, 0, request);
+            }
+
+            this.notifyPositions();
+        });
+    }
+
+    private static release(): void {
+        this.running = Math.max(0, this.running - 1);
+        this.drain();
+    }
+
+    private static drain(): void {
+        while (this.running < this.maxConcurrent) {
+            const next = this.queue.shift();
+            if (!next) {
+                break;
+            }
+            next.abortListener?.dispose();
+            this.running++;
+            next.onQueuePosition?.(0);
+            next.start();
+        }
+        this.notifyPositions();
+    }
+
+    private static supersede(key: string): void {
+        const superseded = this.queue.filter(request => request.key === key);
+        superseded.forEach(request => {
+            this.remove(request);
+            request.reject(new RequestSupersededError(key));
+        });
+    }
+
+    private static remove(request: QueuedRequest): boolean {
+        const index = this.queue.indexOf(request);
+        if (index === -1) {
+            return false;
+        }
+
+        this.queue.splice(index, 1);
+        request.abortListener?.dispose();
+        this.notifyPositions();
+        return true;
+    }
+
+    private static notifyPositions(): void {
+        this.queue.forEach((request, index) => {
+            const position = index + 1;
+            if (request.lastPosition !== position) {
+                request.lastPosition = position;
+                request.onQueuePosition?.(position);
+            }
+        });
+    }
+}
@@ -0,0 +1,284 @@
+/**
+ * Retry, backoff and circuit-breaker policy shared by every request to the model server
+ */
+import * as vscode from 'vscode';
+import { OllamaApiError } from './ollamaApi';
+import { RequestTracker } from './utils';
+
+/**
+ * What went wrong, in terms the UI can act on
+ */
+export enum ErrorCategory {
+    ModelNotFound = 'ModelNotFound',
+    OutOfMemory = 'OutOfMemory',
+    Timeout = 'Timeout',
+    ConnectionRefused = 'ConnectionRefused',
+    /** The server answered with a 5xx status */
+    ServerError = 'ServerError',
+    /** The server rejected the request itself (other 4xx statuses) */
+    BadRequest = 'BadRequest',
+    /** Requests are paused because the server failed repeatedly */
+    CircuitOpen = 'CircuitOpen',
+    Cancelled = 'Cancelled',
+    Unknown = 'Unknown'
+}
+
+/**
+ * Thrown instead of sending a request while the circuit for a server is open
+ */
+export class CircuitOpenError extends Error {
+    readonly key: string;
+    /** When the next trial request is allowed */
+    readonly retryAt: number;
+
+    constructor(key: string, retryAt: number) {
+        super(`${key} failed repeatedly; requests are paused for ${Math.max(1, Math.ceil((retryAt - Date.now()) / 1000))}s`);
+        this.name = 'CircuitOpenError';
+        this.key = key;
+        this.retryAt = retryAt;
+    }
+}
+
+/**
+ * Retry limits, read from the `ollamaEnhanced.retry.*` settings unless overridden per call
+ */
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface ExecuteOptions extends Partial<RetryPolicy> {
+    /** Aborting stops the retries and the wait between them */
+    signal?: AbortSignal;
+    /** Called before waiting for the next attempt */
+    onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+interface CircuitState {
+    /** Consecutive failed attempts */
+    failures: number;
+    /** Requests are rejected until this time; 0 while the circuit is closed */
+    openUntil: number;
+    /** A trial request is running after the cooldown */
+    trialInProgress: boolean;
+}
+
+/**
+ * Sort an error into a category
+ */
+export function categorizeError(error: unknown): ErrorCategory {
+    if (error instanceof CircuitOpenError) {
+        return ErrorCategory.CircuitOpen;
+    }
+
+    const message = error instanceof OllamaApiError
+        ? `${error.serverMessage || ''} ${error.message}`
+        : error instanceof Error ? error.message : String(error);
+
+    // Out-of-memory failures arrive as 500s with the reason in the message
+    if (/out of memory|requires more system memory|insufficient memory|\bOOM\b/i.test(message)) {
+        return ErrorCategory.OutOfMemory;
+    }
+
+    if (error instanceof OllamaApiError) {
+        if (error.isCancelled) {
+            return ErrorCategory.Cancelled;
+        }
+        if (error.isTimeout) {
+            return ErrorCategory.Timeout;
+        }
+        if (error.isConnectionError) {
+            return ErrorCategory.ConnectionRefused;
+        }
+        if (error.status === 404 || /model .*not found|try pulling it/i.test(message)) {
+            return ErrorCategory.ModelNotFound;
+        }
+        if (error.status !== undefined && error.status >= 500) {
+            return ErrorCategory.ServerError;
+        }
+        if (error.status !== undefined && error.status >= 400) {
+            return ErrorCategory.BadRequest;
+        }
+    }
+
+    if (error instanceof Error && (error.name === 'AbortError' || error.name === 'CanceledError')) {
+        return ErrorCategory.Cancelled;
+    }
+    if (/timed out|timeout|stalled/i.test(message)) {
+        return ErrorCategory.Timeout;
+    }
+    if (/ECONNREFUSED|ENOTFOUND|EHOSTUNREACH|ECONNRESET/.test(message)) {
+        return ErrorCategory.ConnectionRefused;
+    }
+
+    return ErrorCategory.Unknown;
+}
+
+/**
+ * Whether trying again later can succeed; failures of the request itself are not retried
+ */
+export function isRetryableCategory(category: ErrorCategory): boolean {
+    return category === ErrorCategory.Timeout ||
+        category === ErrorCategory.ConnectionRefused ||
+        category === ErrorCategory.ServerError;
+}
+
+/**
+ * Runs requests with retries and jittered exponential backoff, and opens a circuit per server
+ * after repeated availability failures so that a dead server is not hammered.
+ * After the cooldown one trial request is let through; its result closes or reopens the circuit.
+ */
+export class Resilience {
+    private static circuits = new Map<string, CircuitState>();
+
+    static getRetryPolicy(): RetryPolicy {
+        const config = vscode.workspace.getConfiguration('ollamaEnhanced');
+        return {
+            maxRetries: Math.max(0, config.get<number>('retry.maxRetries', 2)),
+            baseDelayMs: Math.max(0, config.get<number>('retry.baseDelayMs', 1000)),
+            maxDelayMs: Math.max(0, config.get<number>('retry.maxDelayMs', 10000))
+        };
+    }
+
+    /**
+     * Delay before retry number `attempt` (1-based): exponential, capped, with "equal jitter"
+     * so that clients that failed together do not retry together
+     */
+    static backoffDelay(attempt: number, policy: RetryPolicy): number {
+        const exponential = Math.min(policy.baseDelayMs * Math.pow(2, attempt - 1), policy.maxDelayMs);
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+
+    /**
+     * Run an operation under the circuit for `key` (usually the server URL),
+     * retrying availability failures with backoff
+     */
+    static async execute<T>(key: string, operation: (attempt: number) => Promise<T>, options: ExecuteOptions = {}): Promise<T> {
+        const policy = { ...this.getRetryPolicy(), ...this.definedOnly(options) };
+
+        for (let attempt = 0; ; attempt++) {
+            this.acquire(key);
+
+            try {
+                const result = await operation(attempt);
+                this.recordSuccess(key);
+                return result;
+            } catch (error) {
+                const category = categorizeError(error);
+                if (options.signal?.aborted || category === ErrorCategory.Cancelled) {
+                    this.releaseTrial(key);
+                    throw error;
+                }
+
+                if (!isRetryableCategory(category)) {
+                    // The server answered, so it is available
+                    this.recordSuccess(key);
+                    throw error;
+                }
+
+                this.recordFailure(key);
+                if (attempt >= policy.maxRetries || this.isOpen(key)) {
+                    throw error;
+                }
+
+                const delay = this.backoffDelay(attempt + 1, policy);
+                options.onRetry?.(attempt + 1, delay, error);
+                await this.sleep(delay, options.signal);
+                if (options.signal?.aborted) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Whether requests to `key` are currently rejected
+     */
+    static isOpen(key: string): boolean {
+        const circuit = this.circuits.get(key);
+        return Boolean(circuit && circuit.openUntil > Date.now());
+    }
+
+    /**
+     * Close the circuit, e.g. when the user asks to retry right away
+     */
+    static reset(key?: string): void {
+        if (key) {
+            this.circuits.delete(key);
+        } else {
+            this.circuits.clear();
+        }
+    }
+
+    private static acquire(key: string): void {
+        const circuit = this.circuits.get(key);
+        if (!circuit || circuit.openUntil === 0) {
+            return;
+        }
+
+        if (circuit.openUntil > Date.now() || circuit.trialInProgress) {
+            throw new CircuitOpenError(key, Math.max(circuit.openUntil, Date.now() + 1000));
+        }
+
+        // Cooldown is over: let this request through as the trial
+        circuit.trialInProgress = true;
+    }
+
+    private static recordSuccess(key: string): void {
+        this.circuits.delete(key);
+    }
+
+    private static recordFailure(key: string): void {
+        const circuit = this.circuits.get(key) || { failures: 0, openUntil: 0, trialInProgress: false };
+        const config = vscode.workspace.getConfiguration('ollamaEnhanced');
+        const threshold = Math.max(1, config.get<number>('circuitBreaker.failureThreshold', 5));
+        const cooldownMs = Math.max(0, config.get<number>('circuitBreaker.cooldownSeconds', 30)) * 1000;
+
+        circuit.failures++;
+        if (circuit.trialInProgress || circuit.failures >= threshold) {
+            if (circuit.openUntil === 0 || circuit.trialInProgress) {
+                console.log(`[Resilience] Circuit for ${key} opened after ${circuit.failures} failures`);
+            }
+            circuit.openUntil = Date.now() + cooldownMs;
+            circuit.trialInProgress = false;
+        }
+        this.circuits.set(key, circuit);
+    }
+
+    private static releaseTrial(key: string): void {
+        const circuit = this.circuits.get(key);
+        if (circuit) {
+            circuit.trialInProgress = false;
+        }
+    }
+
+    private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                abortListener?.dispose();
+                resolve();
+            }, ms);
+            const abortListener = signal
+                ? RequestTracker.onAbort(signal, () => {
+                    clearTimeout(timer);
+                    resolve();
+                })
+                : undefined;
+        });
+    }
+
+    private static definedOnly(options: ExecuteOptions): Partial<RetryPolicy> {
+        const overrides: Partial<RetryPolicy> = {};
+        if (options.maxRetries !== undefined) {
+            overrides.maxRetries = options.maxRetries;
+        }
+        if (options.baseDelayMs !== undefined) {
+            overrides.baseDelayMs = options.baseDelayMs;
+        }
+        if (options.maxDelayMs !== undefined) {
+            overrides.maxDelayMs = options.maxDelayMs;
+        }
+        return overrides;
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * On-disk cache of replies to deterministic requests (temperature 0 or a fixed seed)
+ */
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { GenerationMetrics, OllamaOptions } from './ollamaApi';
+
+/**
+ * A cached reply, stored as one JSON file per key
+ */
+export interface ResponseCacheEntry {
+    key: string;
+    model: string;
+    /** Command type the reply was generated for, e.g. `explainCode` */
+    command: string;
+    options: OllamaOptions;
+    /** Start of the prompt, for the inspect command */
+    promptPreview: string;
+    content: string;
+    metrics?: GenerationMetrics;
+    createdAt: number;
+}
+
+export class ResponseCache {
+    private static readonly DIRECTORY = 'response-cache';
+    private static readonly PREVIEW_LENGTH = 200;
+
+    private static directory: string | undefined;
+
+    /**
+     * Set the storage location; the cache stays disabled until this is called
+     */
+    static initialize(context: vscode.ExtensionContext): void {
+        this.directory = path.join(context.globalStorageUri.fsPath, this.DIRECTORY);
+    }
+
+    static isEnabled(): boolean {
+        return Boolean(this.directory) &&
+            vscode.workspace.getConfiguration('ollamaEnhanced').get<boolean>('responseCache.enabled', false);
+    }
+
+    /**
+     * Only replies that the same request would reproduce are cached
+     */
+    static isDeterministic(options: OllamaOptions): boolean {
+        return options.temperature === 0 || options.seed !== undefined;
+    }
+
+    /**
+     * Trim trailing whitespace and unify line endings so that formatting noise does not miss the cache
+     */
+    static normalizePrompt(prompt: string): string {
+        return prompt
+            .replace(/\r\n?/g, '\n')
+            .split('\n')
+            .map(line => line.trimEnd())
+            .join('\n')
+            .trim();
+    }
+
+    /**
+     * Key covering the model digest (so a re-pulled model misses), the normalized prompt and the options
+     */
+    static createKey(modelDigest: string, prompt: string, options: OllamaOptions): string {
+        const sortedOptions = Object.keys(options).sort().map(name => [name, options[name]]);
+        return crypto.createHash('sha256')
+            .update(JSON.stringify([modelDigest, this.normalizePrompt(prompt), sortedOptions]))
+            .digest('hex');
+    }
+
+    /**
+     * Cached entry for a key, or undefined when missing or older than the TTL
+     */
+    static async get(key: string): Promise<ResponseCacheEntry | undefined> {
+        if (!this.directory) {
+            return undefined;
+        }
+
+        const file = path.join(this.directory, `${key}.json`);
+        try {
+            const entry = JSON.parse(await fs.promises.readFile(file, 'utf8')) as ResponseCacheEntry;
+            if (Date.now() - entry.createdAt > this.getTtlMs()) {
+                await fs.promises.unlink(file);
+                return undefined;
+            }
+
+            // The modification time records the last use for eviction
+            const now = new Date();
+            await fs.promises.utimes(file, now, now);
+            return entry;
+        } catch {
+            return undefined;
+        }
+    }
+
+    static async set(key: string, entry: Omit<ResponseCacheEntry, 'key' | 'createdAt' | 'promptPreview'> & { prompt: string }): Promise<void> {
+        if (!this.directory) {
+            return;
+        }
+
+        const { prompt, ...rest } = entry;
+        const stored: ResponseCacheEntry = {
+            ...rest,
+            key,
+            promptPreview: this.normalizePrompt(prompt).substring(0, this.PREVIEW_LENGTH),
+            createdAt: Date.now()
+        };
+
+        try {
+            await fs.promises.mkdir(this.directory, { recursive: true });
+            await fs.promises.writeFile(path.join(this.directory, `${key}.json`), JSON.stringify(stored), 'utf8');
+            await this.evict();
+        } catch (error) {
+            console.error('Failed to write response cache entry:', error);
+        }
+    }
+
+    /**
+     * All entries that have not expired, most recently used first
+     */
+    static async list(): Promise<{ entry: ResponseCacheEntry, size: number, lastUsed: number }[]> {
+        const files = await this.listFiles();
+        const entries: { entry: ResponseCacheEntry, size: number, lastUsed: number }[] = [];
+
+        for (const file of files) {
+            try {
+                const entry = JSON.parse(await fs.promises.readFile(file.path, 'utf8')) as ResponseCacheEntry;
+                if (Date.now() - entry.createdAt <= this.getTtlMs()) {
+                    entries.push({ entry, size: file.size, lastUsed: file.lastUsed });
+                }
+            } catch {
+                // Unreadable entries are removed by the next eviction
+            }
+        }
+
+        return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+    }
+
+    static async clear(): Promise<void> {
+        if (this.directory) {
+            await fs.promises.rm(this.directory, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Remove expired entries, then the least recently used ones until the cache fits its size limit
+     */
+    private static async evict(): Promise<void> {
+        const maxBytes = Math.max(1, vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('responseCache.maxSizeMB', 50)) * 1024 * 1024;
+        const files = (await this.listFiles()).sort((a, b) => b.lastUsed - a.lastUsed);
+        const expiredBefore = Date.now() - this.getTtlMs();
+
+        let total = 0;
+        for (const file of files) {
+            total += file.size;
+            if (total > maxBytes || file.lastUsed < expiredBefore) {
+                await fs.promises.unlink(file.path).catch(() => undefined);
+            }
+        }
+    }
+
+    private static async listFiles(): Promise<{ path: string, size: number, lastUsed: number }[]> {
+        const directory = this.directory;
+        if (!directory) {
+            return [];
+        }
+
+        let names: string[];
+        try {
+            names = await fs.promises.readdir(directory);
+        } catch {
+            return [];
+        }
+
+        const files: { path: string, size: number, lastUsed: number }[] = [];
+        for (const name of names.filter(candidate => candidate.endsWith('.json'))) {
+            const filePath = path.join(directory, name);
+            try {
+                const stats = await fs.promises.stat(filePath);
+                files.push({ path: filePath, size: stats.size, lastUsed: stats.mtimeMs });
+            } catch {
+                // Removed concurrently
+            }
+        }
+        return files;
+    }
+
+    private static getTtlMs(): number {
+        return Math.max(0, vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('responseCache.ttlHours', 24)) * 60 * 60 * 1000;
+    }
+}
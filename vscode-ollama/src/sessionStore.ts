@@ -0,0 +1,206 @@
+/**
+ * Durable storage for chat sessions in the Ollama VS Code extension
+ */
+import * as vscode from 'vscode';
+import { GenerationMetrics, OllamaOptions } from './ollamaApi';
+
+// Define a chat session interface
+export interface ChatSession {
+    id: string;
+    name: string;
+    modelName: string;
+    messages: {
+        role: 'user' | 'assistant';
+        content: string;
+        timestamp: number;
+        /** Base64-encoded PNG or JPEG attachments, sent to vision models */
+        images?: string[];
+        /** Model that wrote an assistant message */
+        model?: string;
+        /** Token counts and timings of an assistant message */
+        metrics?: GenerationMetrics;
+        /** Model options an assistant message was generated with */
+        options?: OllamaOptions;
+    }[];
+    /** Generation options that override the settings for this session */
+    generationOptions?: OllamaOptions;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Shape of the data written to extension storage
+ */
+interface StoredSessions {
+    version: number;
+    sessions: ChatSession[];
+}
+
+/**
+ * Persists chat sessions in workspace or global storage so they survive VS Code restarts
+ */
+export class ChatSessionStore {
+    private static readonly STORAGE_KEY = 'ollama-chat-sessions';
+    private static readonly SCHEMA_VERSION = 1;
+    private static readonly MAX_SESSIONS = 50;
+    private static readonly MAX_STORAGE_SIZE = 2 * 1024 * 1024; // 2 MB of serialized sessions
+
+    // Sessions kept for the lifetime of the window when history saving is disabled
+    private static memoryStore: ChatSession[] = [];
+
+    private readonly context: vscode.ExtensionContext;
+    private readonly outputChannel: vscode.OutputChannel | undefined;
+
+    constructor(context: vscode.ExtensionContext, outputChannel?: vscode.OutputChannel) {
+        this.context = context;
+        this.outputChannel = outputChannel;
+    }
+
+    /**
+     * Load sessions from storage, migrating older formats when needed
+     */
+    load(): ChatSession[] {
+        if (!this.isPersistenceEnabled()) {
+            return [...ChatSessionStore.memoryStore];
+        }
+
+        try {
+            const stored = this.getStorage().get<unknown>(ChatSessionStore.STORAGE_KEY);
+            const sessions = this.migrate(stored);
+            this.log(`Loaded ${sessions.length} chat sessions from ${this.getScope()} storage`);
+            return sessions;
+        } catch (error) {
+            this.log(`Error loading chat sessions: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        }
+    }
+
+    /**
+     * Save sessions, dropping the oldest data when the size cap is exceeded
+     */
+    async save(sessions: ChatSession[]): Promise<void> {
+        if (!this.isPersistenceEnabled()) {
+            ChatSessionStore.memoryStore = [...sessions];
+            return;
+        }
+
+        const data: StoredSessions = {
+            version: ChatSessionStore.SCHEMA_VERSION,
+            sessions: this.applySizeCap(sessions)
+        };
+
+        await this.getStorage().update(ChatSessionStore.STORAGE_KEY, data);
+    }
+
+    /**
+     * Remove all stored sessions
+     */
+    async clear(): Promise<void> {
+        ChatSessionStore.memoryStore = [];
+        await this.getStorage().update(ChatSessionStore.STORAGE_KEY, undefined);
+    }
+
+    private isPersistenceEnabled(): boolean {
+        return vscode.workspace.getConfiguration('ollamaEnhanced').get('saveConversationHistory', true);
+    }
+
+    private getScope(): 'workspace' | 'global' {
+        const scope = vscode.workspace.getConfiguration('ollamaEnhanced').get('conversationHistoryScope', 'workspace');
+
+        // Without an open folder there is no workspace storage to write to
+        if (scope === 'workspace' && vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
+            return 'workspace';
+        }
+        return 'global';
+    }
+
+    private getStorage(): vscode.Memento {
+        return this.getScope() === 'workspace' ? this.context.workspaceState : this.context.globalState;
+    }
+
+    /**
+     * Convert stored data of any known schema version to the current format
+     */
+    private migrate(stored: unknown): ChatSession[] {
+        if (!stored) {
+            return [];
+        }
+
+        // Version 0: a bare array of sessions
+        if (Array.isArray(stored)) {
+            return stored.filter(session => this.isValidSession(session));
+        }
+
+        const data = stored as Partial<StoredSessions>;
+        if (typeof data.version !== 'number' || !Array.isArray(data.sessions)) {
+            this.log('Ignoring chat sessions with an unknown storage format');
+            return [];
+        }
+
+        if (data.version > ChatSessionStore.SCHEMA_VERSION) {
+            this.log(`Chat sessions were saved by a newer version of the extension (schema ${data.version}), ignoring them`);
+            return [];
+        }
+
+        return data.sessions.filter(session => this.isValidSession(session));
+    }
+
+    private isValidSession(session: unknown): session is ChatSession {
+        const candidate = session as ChatSession;
+        return Boolean(candidate) &&
+            typeof candidate.id === 'string' &&
+            typeof candidate.name === 'string' &&
+            Array.isArray(candidate.messages);
+    }
+
+    /**
+     * Keep the most recently used sessions within the session count and storage size limits
+     */
+    private applySizeCap(sessions: ChatSession[]): ChatSession[] {
+        const capped = [...sessions]
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .slice(0, ChatSessionStore.MAX_SESSIONS)
+            .map(session => ({ ...session, messages: [...session.messages] }));
+
+        let size = JSON.stringify(capped).length;
+
+        // Images take the most space, so remove them from the least recently used sessions first
+        for (let i = capped.length - 1; i >= 0 && size > ChatSessionStore.MAX_STORAGE_SIZE; i--) {
+            capped[i].messages = capped[i].messages.map(message => {
+                if (!message.images || size <= ChatSessionStore.MAX_STORAGE_SIZE) {
+                    return message;
+                }
+                const { images, ...withoutImages } = message;
+                size -= JSON.stringify(images).length + ',"images":'.length;
+                return withoutImages;
+            });
+        }
+
+        // Drop the least recently used sessions next
+        while (size > ChatSessionStore.MAX_STORAGE_SIZE && capped.length > 1) {
+            const removed = capped.pop()!;
+            size -= JSON.stringify(removed).length;
+        }
+
+        // If a single session is still too large, drop its oldest messages
+        const remaining = capped[0];
+        while (remaining && size > ChatSessionStore.MAX_STORAGE_SIZE && remaining.messages.length > 1) {
+            const removed = remaining.messages.shift()!;
+            size -= JSON.stringify(removed).length;
+        }
+
+        if (capped.length < sessions.length) {
+            this.log(`Chat history size cap reached, kept ${capped.length} of ${sessions.length} sessions`);
+        }
+
+        return capped;
+    }
+
+    private log(message: string): void {
+        if (this.outputChannel) {
+            this.outputChannel.appendLine(`[INFO] ${message}`);
+        } else {
+            console.log(message);
+        }
+    }
+}
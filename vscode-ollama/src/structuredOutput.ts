@@ -0,0 +1,148 @@
+/**
+ * JSON schemas for structured generation and a validator for model replies
+ */
+
+/**
+ * The subset of JSON Schema that Ollama's `format` parameter and the validator below understand.
+ * A type alias rather than an interface so it can be passed where the API expects a plain record.
+ */
+export type JsonSchema = {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: (string | number)[];
+};
+
+/**
+ * Raised when the model does not produce valid JSON for the schema, even after retries
+ */
+export class StructuredOutputError extends Error {
+    readonly rawResponse: string;
+    readonly validationErrors: string[];
+
+    constructor(message: string, rawResponse: string, validationErrors: string[]) {
+        super(message);
+        this.name = 'StructuredOutputError';
+        this.rawResponse = rawResponse;
+        this.validationErrors = validationErrors;
+    }
+}
+
+/**
+ * Check a parsed value against a schema and describe every mismatch
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    const errors: string[] = [];
+
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path} should be an object`];
+            }
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required || []) {
+                if (record[key] === undefined) {
+                    errors.push(`${path}.${key} is required`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (record[key] !== undefined) {
+                    errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            break;
+        }
+        case 'array':
+            if (!Array.isArray(value)) {
+                return [`${path} should be an array`];
+            }
+            if (schema.items) {
+                const itemSchema = schema.items;
+                value.forEach((item, index) => errors.push(...validateJson(item, itemSchema, `${path}[${index}]`)));
+            }
+            break;
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isInteger(value)) {
+                errors.push(`${path} should be an integer`);
+            }
+            break;
+        default:
+            if (typeof value !== schema.type) {
+                errors.push(`${path} should be a ${schema.type}`);
+            }
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+    }
+
+    return errors;
+}
+
+/**
+ * A set of replacements proposed for a piece of code
+ */
+export interface EditProposal {
+    summary: string;
+    edits: {
+        description: string;
+        /** Exact text to replace, copied from the original code */
+        originalCode: string;
+        newCode: string;
+    }[];
+}
+
+export const EDIT_PROPOSAL_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One sentence describing the changes' },
+        edits: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string' },
+                    originalCode: { type: 'string', description: 'Exact text from the original code to replace' },
+                    newCode: { type: 'string', description: 'Replacement text' }
+                },
+                required: ['description', 'originalCode', 'newCode']
+            }
+        }
+    },
+    required: ['summary', 'edits']
+};
+
+/**
+ * Problems found while reviewing a piece of code
+ */
+export interface ReviewFindings {
+    findings: {
+        severity: 'error' | 'warning' | 'info';
+        /** 1-based line number within the reviewed code */
+        line: number;
+        message: string;
+        suggestion?: string;
+    }[];
+}
+
+export const REVIEW_FINDINGS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    severity: { type: 'string', enum: ['error', 'warning', 'info'] },
+                    line: { type: 'integer', description: '1-based line number within the reviewed code' },
+                    message: { type: 'string' },
+                    suggestion: { type: 'string' }
+                },
+                required: ['severity', 'line', 'message']
+            }
+        }
+    },
+    required: ['findings']
+};
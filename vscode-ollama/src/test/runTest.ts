@@ -0,0 +1,26 @@
+/**
+ * Launch VS Code with the extension in mock mode and run the integration tests
+ */
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main(): Promise<void> {
+    try {
+        // Folder containing the extension manifest
+        const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+        const extensionTestsPath = path.resolve(__dirname, './suite/index');
+        // Its settings switch the extension to the mock server and a scripted set of replies
+        const workspacePath = path.resolve(__dirname, '../../test/workspace');
+
+        await runTests({
+            extensionDevelopmentPath,
+            extensionTestsPath,
+            launchArgs: [workspacePath, '--disable-extensions']
+        });
+    } catch (error) {
+        console.error('Failed to run tests:', error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import { MockOllamaServer } from '../../mockOllamaServer';
+import type { OllamaService } from '../../ollamaService';
+import { DownloadManager } from '../../downloadManager';
+import { createService, waitFor } from './helpers';
+
+suite('DownloadManager', () => {
+    // Pulls take a moment, so downloads overlap and can be cancelled while they run
+    const server = new MockOllamaServer({ models: [], chunkDelayMs: 40 });
+    let service: OllamaService;
+
+    const pullRequests = (model: string) => server.requests.filter(request => request.endpoint === 'pull' && request.body?.model === model);
+    const stateOf = (model: string) => DownloadManager.getTasks().find(task => task.model === model)?.state;
+    // The service caches the model list, and only the extension refreshes it when a download completes
+    const installed = async (model: string) => {
+        service.clearModelListCache();
+        return (await service.listModels()).some(candidate => candidate.name === model);
+    };
+
+    suiteSetup(async () => {
+        service = createService(await server.start());
+    });
+
+    suiteTeardown(() => server.stop());
+
+    teardown(() => {
+        server.reset();
+        DownloadManager.clearFinished();
+    });
+
+    test('downloads a model and tracks its layers', async () => {
+        const task = await DownloadManager.enqueue('tiny', service);
+
+        assert.strictEqual(task.state, 'completed');
+        assert.strictEqual(task.attempts, 1);
+        assert.strictEqual(task.layers.length, 1);
+        const totals = DownloadManager.getTotals(task);
+        assert.ok(totals.total > 0);
+        assert.strictEqual(totals.completed, totals.total);
+        assert.ok(await installed('tiny:latest'));
+    });
+
+    test('queues downloads beyond the concurrency limit', async () => {
+        const downloads = ['queue-a', 'queue-b', 'queue-c'].map(model => DownloadManager.enqueue(model, service));
+
+        // The default limit is two downloads at a time
+        assert.deepStrictEqual(['queue-a', 'queue-b', 'queue-c'].map(stateOf), ['downloading', 'downloading', 'queued']);
+
+        const tasks = await Promise.all(downloads);
+        assert.deepStrictEqual(tasks.map(task => task.state), ['completed', 'completed', 'completed']);
+
+        // The third pull starts once one of the first two has finished
+        const started = (model: string) => pullRequests(model)[0].receivedAt;
+        const firstFinished = Math.min(...tasks.slice(0, 2).map(task => task.finishedAt!));
+        assert.ok(started('queue-c') >= firstFinished - 5, 'the queued download started before a slot was free');
+    });
+
+    test('joins a download that is already running', async () => {
+        const first = DownloadManager.enqueue('shared', service);
+        const second = DownloadManager.enqueue('shared', service);
+
+        const [a, b] = await Promise.all([first, second]);
+        assert.strictEqual(a, b);
+        assert.strictEqual(pullRequests('shared').length, 1);
+    });
+
+    test('resumes a download after the connection drops', async () => {
+        server.injectFailure({ endpoint: 'pull', afterChunks: 2, disconnect: true });
+
+        const task = await DownloadManager.enqueue('flaky', service);
+
+        assert.strictEqual(task.state, 'completed');
+        assert.strictEqual(task.attempts, 2);
+        assert.strictEqual(pullRequests('flaky').length, 2);
+    });
+
+    test('gives up on a model the registry does not have', async () => {
+        server.injectFailure({ endpoint: 'pull', afterChunks: 1, error: 'pull model manifest: file does not exist' });
+
+        const task = await DownloadManager.enqueue('no-such-model', service);
+
+        assert.strictEqual(task.state, 'failed');
+        assert.strictEqual(task.error, 'pull model manifest: file does not exist');
+        assert.strictEqual(pullRequests('no-such-model').length, 1);
+    });
+
+    test('cancels one running download without touching the others', async () => {
+        const cancelled = DownloadManager.enqueue('cancel-me', service);
+        const kept = DownloadManager.enqueue('keep-me', service);
+
+        await waitFor(() => DownloadManager.getTasks().find(task => task.model === 'cancel-me' && task.layers.length > 0), 'the download to make progress');
+        DownloadManager.cancel('cancel-me');
+
+        assert.strictEqual((await cancelled).state, 'cancelled');
+        assert.strictEqual((await kept).state, 'completed');
+        assert.ok(!await installed('cancel-me:latest'), 'the cancelled model was registered');
+        assert.ok(await installed('keep-me:latest'));
+    });
+
+    test('cancels a queued download before it starts', async () => {
+        const downloads = ['slot-a', 'slot-b'].map(model => DownloadManager.enqueue(model, service));
+        const queued = DownloadManager.enqueue('waiting', service);
+        assert.strictEqual(stateOf('waiting'), 'queued');
+
+        DownloadManager.cancel('waiting');
+
+        const task = await queued;
+        assert.strictEqual(task.state, 'cancelled');
+        assert.strictEqual(task.attempts, 0);
+        await Promise.all(downloads);
+        assert.strictEqual(pullRequests('waiting').length, 0);
+    });
+
+    test('resumes a cancelled download', async () => {
+        const first = DownloadManager.enqueue('again', service);
+        DownloadManager.cancel('again');
+        assert.strictEqual((await first).state, 'cancelled');
+
+        const task = await DownloadManager.resume('again');
+
+        assert.strictEqual(task.state, 'completed');
+        assert.ok(await installed('again:latest'));
+    });
+});
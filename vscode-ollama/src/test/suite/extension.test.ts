@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { OllamaEnhancedApi } from '../../extension';
+import type { MockOllamaServer, MockScript } from '../../mockOllamaServer';
+import { activateExtension, getMockServer, waitFor } from './helpers';
+
+const EXPLANATION = 'This function adds two numbers and returns the sum.';
+
+suite('Extension in mock mode', () => {
+    let api: OllamaEnhancedApi;
+    let server: MockOllamaServer;
+    let workspaceScript: MockScript;
+
+    suiteSetup(async () => {
+        api = await activateExtension();
+        server = await getMockServer(api);
+
+        const folder = vscode.workspace.workspaceFolders![0].uri.fsPath;
+        workspaceScript = JSON.parse(fs.readFileSync(path.join(folder, 'mock-script.json'), 'utf8'));
+    });
+
+    teardown(async () => {
+        server.setScript(workspaceScript);
+        server.reset();
+        await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+    });
+
+    test('starts the mock server from the workspace settings', async () => {
+        assert.strictEqual(api.ollamaManager.getCurrentMode(), 'mock');
+        assert.strictEqual(await api.ollamaManager.getApiUrl(), 'http://127.0.0.1:11499');
+        assert.strictEqual(await api.ollamaManager.checkOllamaInstalled(), true);
+    });
+
+    test('lists the scripted models', async () => {
+        const models = await api.ollamaManager.getProvider().listModels();
+        assert.deepStrictEqual(models.map(model => model.name), ['mock-coder:7b', 'mock-llama:latest']);
+    });
+
+    test('streams a chat reply with metrics', async () => {
+        const chunks: string[] = [];
+        const result = await api.ollamaManager.getProvider().streamChat(
+            'mock-llama:latest',
+            [{ role: 'user', content: 'Explain this function' }],
+            chunk => chunks.push(chunk)
+        );
+
+        assert.strictEqual(result.content, EXPLANATION);
+        assert.ok(chunks.length > 1, 'the reply should arrive in several chunks');
+        assert.ok(result.metrics && result.metrics.evalCount > 0);
+    });
+
+    test('retries a chat request after a server error', async () => {
+        server.injectFailure({ endpoint: 'chat', status: 503, error: 'overloaded' });
+
+        const result = await api.ollamaManager.getProvider().streamChat(
+            'mock-llama:latest',
+            [{ role: 'user', content: 'Explain this function' }],
+            () => undefined
+        );
+
+        assert.strictEqual(result.content, EXPLANATION);
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'chat').length, 2);
+    });
+
+    test('does not retry a missing model', async () => {
+        await assert.rejects(
+            api.ollamaManager.getProvider().streamChat('missing:latest', [{ role: 'user', content: 'hi' }], () => undefined),
+            /not found/
+        );
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'chat').length, 1);
+    });
+
+    test('completeCode inserts the scripted completion at the cursor', async () => {
+        const folder = vscode.workspace.workspaceFolders![0].uri;
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(folder, 'sample.ts'));
+        const editor = await vscode.window.showTextDocument(document);
+        editor.selection = new vscode.Selection(1, 0, 1, 0);
+
+        await vscode.commands.executeCommand('vscode-ollama-enhanced.completeCode');
+
+        await waitFor(() => document.getText().includes('return a + b;'), 'the completion to be inserted');
+        const request = server.requests.find(candidate => candidate.endpoint === 'generate');
+        assert.ok(request, 'completion should use /api/generate');
+        assert.strictEqual(request.body?.model, 'mock-coder:7b');
+        assert.ok(String(request.body?.prompt).includes('export function add'));
+    });
+
+    test('explainCode sends the selection to the chat panel and records the reply', async () => {
+        const folder = vscode.workspace.workspaceFolders![0].uri;
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.joinPath(folder, 'sample.ts'));
+        const editor = await vscode.window.showTextDocument(document);
+        editor.selection = new vscode.Selection(0, 0, 2, 1);
+
+        await vscode.commands.executeCommand('vscode-ollama-enhanced.explainCode');
+
+        const panel = await waitFor(() => api.getPanel(), 'the chat panel to open');
+        const request = await waitFor(
+            () => server.requests.find(candidate => candidate.endpoint === 'chat'),
+            'the chat request',
+            15000
+        );
+        const messages = request.body?.messages as { role: string, content: string }[];
+        const latest = messages[messages.length - 1];
+        assert.strictEqual(latest.role, 'user');
+        assert.ok(latest.content.includes('Explain what this code does in detail:'));
+        assert.ok(latest.content.includes('export function add'));
+
+        const reply = await waitFor(() => panel.getSessions()
+            .flatMap(session => session.messages)
+            .find(message => message.role === 'assistant'), 'the reply to be recorded in the session');
+        assert.strictEqual(reply.content, EXPLANATION);
+        assert.strictEqual(reply.model, 'mock-coder:7b');
+    });
+
+    test('shows an error record that breaks a stream part-way', async () => {
+        server.injectFailure({ endpoint: 'chat', afterChunks: 2, error: 'CUDA error: out of memory' });
+
+        const chunks: string[] = [];
+        const result = await api.ollamaManager.getProvider().streamChat(
+            'mock-llama:latest',
+            [{ role: 'user', content: 'Explain this function' }],
+            chunk => chunks.push(chunk)
+        );
+
+        assert.strictEqual(result.content, 'This function ');
+        assert.strictEqual(result.metrics, undefined, 'the stream ended without its final record');
+        assert.ok(chunks.join('').includes('_Error: CUDA error: out of memory_'));
+    });
+});
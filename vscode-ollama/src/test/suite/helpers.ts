@@ -0,0 +1,55 @@
+/**
+ * Shared setup for the integration tests
+ */
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import type { OllamaEnhancedApi } from '../../extension';
+import type { MockOllamaServer } from '../../mockOllamaServer';
+import { OllamaService } from '../../ollamaService';
+
+const EXTENSION_ID = 'CarlosPacheco.vscode-ollama-enhanced';
+
+/**
+ * Activate the extension under test and return its API
+ */
+export async function activateExtension(): Promise<OllamaEnhancedApi> {
+    const extension = vscode.extensions.getExtension<OllamaEnhancedApi>(EXTENSION_ID);
+    assert.ok(extension, `Extension ${EXTENSION_ID} is not installed in the test host`);
+    return extension.activate();
+}
+
+/**
+ * The mock server the extension started because the test workspace sets `ollamaEnhanced.mode` to `mock`
+ */
+export async function getMockServer(api: OllamaEnhancedApi): Promise<MockOllamaServer> {
+    const server = await waitFor(() => {
+        const candidate = api.ollamaManager.getMockServer();
+        return candidate && candidate.isRunning ? candidate : undefined;
+    }, 'the mock server to start');
+    return server;
+}
+
+/**
+ * Poll until `check` returns a value other than undefined or false
+ */
+export async function waitFor<T>(check: () => T | undefined | false, description: string, timeoutMs = 10000): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const result = check();
+        if (result !== undefined && result !== false) {
+            return result;
+        }
+        if (Date.now() > deadline) {
+            throw new Error(`Timed out waiting for ${description}`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+}
+
+/**
+ * A service that talks to `url`, e.g. a mock server of the test's own rather than the extension's
+ */
+export function createService(url: string): OllamaService {
+    const channel = vscode.window.createOutputChannel('Ollama Enhanced Tests');
+    return new OllamaService(channel, channel, url);
+}
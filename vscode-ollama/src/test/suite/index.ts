@@ -0,0 +1,34 @@
+/**
+ * Entry point loaded by the VS Code test host: runs every compiled `*.test.js` file with mocha
+ */
+import * as path from 'path';
+import Mocha from 'mocha';
+import glob from 'glob';
+
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 20000 });
+    const testsRoot = path.resolve(__dirname, '..');
+
+    return new Promise((resolve, reject) => {
+        glob('**/**.test.js', { cwd: testsRoot }, (error, files) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+
+            files.forEach(file => mocha.addFile(path.resolve(testsRoot, file)));
+
+            try {
+                mocha.run(failures => {
+                    if (failures > 0) {
+                        reject(new Error(`${failures} tests failed.`));
+                    } else {
+                        resolve();
+                    }
+                });
+            } catch (runError) {
+                reject(runError);
+            }
+        });
+    });
+}
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import type { Readable } from 'stream';
+import { MockOllamaServer, MockScript } from '../../mockOllamaServer';
+import { ChatResponse, OllamaApiClient, OllamaApiError, ProgressResponse } from '../../ollamaApi';
+import { NdjsonDecoder } from '../../ndjson';
+import { categorizeError, ErrorCategory } from '../../resilience';
+
+async function readRecords<T>(stream: Readable): Promise<T[]> {
+    const decoder = new NdjsonDecoder<T>();
+    const records: T[] = [];
+    for await (const chunk of stream) {
+        records.push(...decoder.push(chunk as Buffer));
+    }
+    return [...records, ...decoder.flush()];
+}
+
+const SCRIPT: MockScript = {
+    models: [{ name: 'mock-llama:latest', contextLength: 8192 }],
+    replies: [
+        { match: 'weather', content: 'It is sunny today.' },
+        { match: 'read', content: '', toolCalls: [{ function: { name: 'readFile', arguments: { path: 'README.md' } } }] }
+    ]
+};
+
+suite('MockOllamaServer', () => {
+    const server = new MockOllamaServer(SCRIPT);
+    let api: OllamaApiClient;
+
+    suiteSetup(async () => {
+        api = new OllamaApiClient(await server.start());
+    });
+
+    suiteTeardown(() => server.stop());
+
+    setup(() => server.setScript(SCRIPT));
+
+    teardown(() => server.reset());
+
+    test('lists the scripted models', async () => {
+        const { models } = await api.tags();
+        assert.deepStrictEqual(models.map(model => model.name), ['mock-llama:latest']);
+        assert.ok(models[0].digest && models[0].digest.startsWith('sha256:'));
+    });
+
+    test('reports the context length through /api/show', async () => {
+        const show = await api.show({ model: 'mock-llama' });
+        assert.strictEqual(show.model_info?.['llama.context_length'], 8192);
+    });
+
+    test('streams a scripted chat reply with final statistics', async () => {
+        const stream = await api.chatStream({ model: 'mock-llama:latest', messages: [{ role: 'user', content: 'How is the weather?' }] });
+        const records = await readRecords<ChatResponse>(stream);
+
+        assert.ok(records.length > 2, 'the reply should arrive in several chunks');
+        assert.strictEqual(records.map(record => record.message.content).join(''), 'It is sunny today.');
+        const last = records[records.length - 1];
+        assert.strictEqual(last.done, true);
+        assert.strictEqual(last.done_reason, 'stop');
+        assert.ok((last.eval_count || 0) > 0);
+    });
+
+    test('echoes prompts without a scripted reply', async () => {
+        const response = await api.generate({ model: 'mock-llama:latest', prompt: 'Say hello' });
+        assert.strictEqual(response.response, 'Mock reply to: Say hello');
+        assert.strictEqual(server.requests[0].endpoint, 'generate');
+        assert.strictEqual(server.requests[0].body?.prompt, 'Say hello');
+    });
+
+    test('sends tool calls only when the request offers tools', async () => {
+        const tools = [{ type: 'function' as const, function: { name: 'readFile', description: 'Read a file', parameters: {} } }];
+        const withTools = await api.chat({ model: 'mock-llama:latest', messages: [{ role: 'user', content: 'read the readme' }], tools });
+        const withoutTools = await api.chat({ model: 'mock-llama:latest', messages: [{ role: 'user', content: 'read the readme' }] });
+
+        assert.strictEqual(withTools.message.tool_calls?.[0].function.name, 'readFile');
+        assert.strictEqual(withoutTools.message.tool_calls, undefined);
+    });
+
+    test('answers unknown models with 404', async () => {
+        await assert.rejects(api.generate({ model: 'missing', prompt: 'hi' }), (error: unknown) => {
+            assert.ok(error instanceof OllamaApiError);
+            assert.strictEqual(error.status, 404);
+            assert.strictEqual(categorizeError(error), ErrorCategory.ModelNotFound);
+            return true;
+        });
+    });
+
+    test('fails the next request with an injected status', async () => {
+        server.injectFailure({ endpoint: 'tags', status: 503, error: 'overloaded' });
+
+        await assert.rejects(api.tags(), (error: unknown) => {
+            assert.ok(error instanceof OllamaApiError);
+            assert.strictEqual(error.status, 503);
+            assert.strictEqual(error.serverMessage, 'overloaded');
+            return true;
+        });
+        const { models } = await api.tags();
+        assert.strictEqual(models.length, 1);
+    });
+
+    test('breaks a stream part-way with an injected error record', async () => {
+        server.injectFailure({ endpoint: 'chat', afterChunks: 2, error: 'out of memory' });
+
+        const stream = await api.chatStream({ model: 'mock-llama:latest', messages: [{ role: 'user', content: 'How is the weather?' }] });
+        const records = await readRecords<ChatResponse>(stream);
+
+        assert.strictEqual(records.length, 3);
+        assert.strictEqual(records[2].error, 'out of memory');
+    });
+
+    test('times out when an injected delay outlasts the request timeout', async () => {
+        server.injectFailure({ endpoint: 'tags', delayMs: 500 });
+
+        await assert.rejects(api.tags({ timeout: 100 }), (error: unknown) => {
+            assert.strictEqual(categorizeError(error), ErrorCategory.Timeout);
+            return true;
+        });
+    });
+
+    test('streams pull progress and then lists the pulled model', async () => {
+        const records = await readRecords<ProgressResponse>(await api.pullStream({ model: 'tiny' }));
+
+        assert.strictEqual(records[0].status, 'pulling manifest');
+        assert.ok(records.some(record => record.total && record.completed === record.total));
+        assert.strictEqual(records[records.length - 1].status, 'success');
+
+        const { models } = await api.tags();
+        assert.ok(models.some(model => model.name === 'tiny:latest'));
+    });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { MockOllamaServer } from '../../mockOllamaServer';
+import { ModelCapabilities, ModelTask } from '../../modelCapabilities';
+import { createService } from './helpers';
+
+const models = (...names: string[]) => names.map(name => ({ name }));
+
+suite('ModelCapabilities', () => {
+    const server = new MockOllamaServer({
+        models: [
+            // The server knows better than the name: this build has no tool calling or fill in the middle
+            { name: 'qwen2.5-coder:7b', family: 'qwen2', contextLength: 32768, capabilities: ['completion'] },
+            { name: 'team-model:latest', family: 'llama', contextLength: 8192, capabilities: ['completion', 'tools', 'insert'] },
+            { name: 'mock-vision:latest', family: 'llava', capabilities: ['completion', 'vision'] },
+            { name: 'embedder:latest', family: 'nomic-bert', capabilities: ['embedding'] }
+        ]
+    });
+
+    suiteSetup(async () => {
+        const service = createService(await server.start());
+        ModelCapabilities.initialize(() => service);
+    });
+
+    suiteTeardown(() => {
+        ModelCapabilities.initialize(() => undefined);
+        return server.stop();
+    });
+
+    setup(() => ModelCapabilities.clear());
+
+    teardown(async () => {
+        server.reset();
+        await vscode.workspace.getConfiguration('ollamaEnhanced').update('modelCapabilities', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('takes what the server can do from /api/show', async () => {
+        const profile = await ModelCapabilities.getProfile('team-model:latest');
+
+        assert.deepStrictEqual(profile.capabilities, ['completion', 'tools', 'insert']);
+        assert.deepStrictEqual(profile.families, ['llama']);
+        assert.strictEqual(profile.contextLength, 8192);
+        assert.deepStrictEqual(profile.excluded, ['vision', 'thinking', 'embedding']);
+    });
+
+    test('lets the server overrule the known-model table', async () => {
+        const profile = await ModelCapabilities.getProfile('qwen2.5-coder:7b');
+
+        assert.deepStrictEqual(profile.capabilities, ['completion', 'code']);
+        assert.strictEqual(await ModelCapabilities.lacks('qwen2.5-coder:7b', 'tools'), true);
+        assert.strictEqual(await ModelCapabilities.lacks('qwen2.5-coder:7b', 'code'), false);
+    });
+
+    test('falls back to the known-model table for models the server does not have', async () => {
+        const profile = await ModelCapabilities.getProfile('library/deepseek-r1:8b');
+
+        assert.deepStrictEqual(profile.capabilities, ['code', 'thinking']);
+        assert.deepStrictEqual(profile.excluded, []);
+        assert.strictEqual(await ModelCapabilities.lacks('deepseek-r1:8b', 'tools'), false, 'unknown capabilities are not ruled out');
+    });
+
+    test('does not keep a profile whose metadata could not be fetched', async () => {
+        server.injectFailure({ endpoint: 'show', status: 400, error: 'invalid request' });
+        assert.deepStrictEqual((await ModelCapabilities.getProfile('qwen2.5-coder:7b')).capabilities, ['code', 'tools', 'insert']);
+
+        assert.deepStrictEqual((await ModelCapabilities.getProfile('qwen2.5-coder:7b')).capabilities, ['completion', 'code']);
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'show').length, 2);
+    });
+
+    test('caches profiles until cleared', async () => {
+        await ModelCapabilities.getProfile('team-model:latest');
+        await ModelCapabilities.has('team-model:latest', 'tools');
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'show').length, 1);
+
+        ModelCapabilities.clear('team-model:latest');
+        await ModelCapabilities.getProfile('team-model:latest');
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'show').length, 2);
+    });
+
+    test('keeps embedding models out of chat', async () => {
+        assert.strictEqual(await ModelCapabilities.has('embedder:latest', 'embedding'), true);
+        assert.strictEqual(await ModelCapabilities.lacks('embedder:latest', 'completion'), true);
+        assert.deepStrictEqual(await ModelCapabilities.selectForTask(models('embedder:latest'), 'chat'), []);
+    });
+
+    test('applies overrides from the settings, most specific key first', async () => {
+        await vscode.workspace.getConfiguration('ollamaEnhanced').update('modelCapabilities', {
+            'team-model': ['code', '-tools'],
+            'team-model:latest': ['vision'],
+            'deepseek-r1': ['-code']
+        }, vscode.ConfigurationTarget.Global);
+
+        assert.deepStrictEqual((await ModelCapabilities.getProfile('team-model:latest')).capabilities, ['completion', 'tools', 'vision', 'insert']);
+        const deepseek = await ModelCapabilities.getProfile('deepseek-r1:8b');
+        assert.deepStrictEqual(deepseek.capabilities, ['thinking']);
+        assert.deepStrictEqual(deepseek.excluded, ['code']);
+    });
+
+    test('ranks models for each task', async () => {
+        const installed = models('embedder:latest', 'deepseek-r1:8b', 'mock-vision:latest', 'qwen2.5-coder:7b', 'team-model:latest');
+        const names = async (task: ModelTask) =>
+            (await ModelCapabilities.selectForTask(installed, task)).map(model => model.name);
+
+        // Every model that can chat, in the server's order
+        assert.deepStrictEqual(await names('chat'), ['deepseek-r1:8b', 'mock-vision:latest', 'qwen2.5-coder:7b', 'team-model:latest']);
+        assert.deepStrictEqual(await names('code'), ['deepseek-r1:8b', 'qwen2.5-coder:7b']);
+        // Fill in the middle first, then code models that answer without thinking first
+        assert.deepStrictEqual(await names('completion'), ['team-model:latest', 'qwen2.5-coder:7b', 'deepseek-r1:8b']);
+        assert.deepStrictEqual(await names('vision'), ['mock-vision:latest']);
+        assert.deepStrictEqual(await names('tools'), ['team-model:latest']);
+        assert.deepStrictEqual(await names('embedding'), ['embedder:latest']);
+    });
+});
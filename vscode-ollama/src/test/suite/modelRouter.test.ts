@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ModelCapabilities } from '../../modelCapabilities';
+import { ModelRouter, ROUTED_TASKS, RoutedTask } from '../../modelRouter';
+
+// Capabilities come from the known-model table, so routing needs no server
+const INSTALLED = ['llama3.2:latest', 'qwen2.5-coder:7b', 'deepseek-r1:8b', 'nomic-embed-text:latest', 'mock-coder:7b']
+    .map(name => ({ name }));
+
+async function setModels(task: RoutedTask, models: string[] | undefined): Promise<void> {
+    await vscode.workspace.getConfiguration('ollamaEnhanced.models').update(task, models, vscode.ConfigurationTarget.Global);
+}
+
+suite('ModelRouter', () => {
+    // `mock-coder:7b` in the test workspace
+    const defaultModel = vscode.workspace.getConfiguration('ollama').get<string>('defaultModel', '');
+    const withoutDefault = INSTALLED.filter(model => model.name !== defaultModel);
+
+    suiteSetup(() => ModelCapabilities.initialize(() => undefined));
+
+    setup(() => ModelCapabilities.clear());
+
+    teardown(async () => {
+        for (const task of ROUTED_TASKS) {
+            await setModels(task, undefined);
+        }
+    });
+
+    test('uses the first installed model of the task list', async () => {
+        await setModels('completion', ['missing-coder:1b', 'qwen2.5-coder:7b', 'llama3.2']);
+
+        assert.strictEqual(await ModelRouter.resolve('completion', INSTALLED), 'qwen2.5-coder:7b');
+    });
+
+    test('matches a model name without its tag', async () => {
+        await setModels('chat', ['llama3.2']);
+
+        assert.strictEqual(await ModelRouter.resolve('chat', INSTALLED), 'llama3.2:latest');
+    });
+
+    test('falls back from code tasks to the chat models and then the default model', async () => {
+        await setModels('chat', ['deepseek-r1:8b']);
+        await setModels('documentation', ['gone:3b']);
+
+        assert.deepStrictEqual(ModelRouter.getConfiguredModels('documentation'), ['gone:3b', 'deepseek-r1:8b', defaultModel]);
+        assert.deepStrictEqual(ModelRouter.getConfiguredModels('completion'), [defaultModel]);
+        assert.strictEqual(await ModelRouter.resolve('documentation', INSTALLED), 'deepseek-r1:8b');
+        assert.strictEqual(await ModelRouter.resolve('commitMessage', INSTALLED), 'deepseek-r1:8b');
+        assert.strictEqual(await ModelRouter.resolve('commitMessage', INSTALLED.filter(model => model.name !== 'deepseek-r1:8b')), defaultModel);
+    });
+
+    test('picks the best suited installed model when no configured model is installed', async () => {
+        await setModels('completion', ['gone:1b']);
+        await setModels('explain', ['gone:7b']);
+
+        // Fill in the middle suits inline completion best
+        assert.strictEqual(await ModelRouter.resolve('completion', withoutDefault), 'qwen2.5-coder:7b');
+        // Configured models that are missing fall back even when the caller would rather ask
+        assert.strictEqual(await ModelRouter.resolve('explain', withoutDefault, { automatic: false }), 'qwen2.5-coder:7b');
+    });
+
+    test('leaves the choice to the caller when nothing is configured', async () => {
+        await vscode.workspace.getConfiguration('ollama').update('defaultModel', '', vscode.ConfigurationTarget.Workspace);
+        try {
+            assert.strictEqual(await ModelRouter.resolve('chat', INSTALLED, { automatic: false }), undefined);
+            // Capability overrides from the settings count when picking automatically
+            await vscode.workspace.getConfiguration('ollamaEnhanced').update('modelCapabilities', { 'llama3.2': ['-completion', 'embedding'] }, vscode.ConfigurationTarget.Global);
+            assert.strictEqual(await ModelRouter.resolve('chat', INSTALLED), 'qwen2.5-coder:7b');
+        } finally {
+            await vscode.workspace.getConfiguration('ollamaEnhanced').update('modelCapabilities', undefined, vscode.ConfigurationTarget.Global);
+            await vscode.workspace.getConfiguration('ollama').update('defaultModel', defaultModel, vscode.ConfigurationTarget.Workspace);
+        }
+    });
+
+    test('prefers the model chosen for the request while it is installed', async () => {
+        await setModels('chat', ['llama3.2']);
+
+        assert.strictEqual(await ModelRouter.resolve('chat', INSTALLED, { preferred: 'deepseek-r1:8b' }), 'deepseek-r1:8b');
+        assert.strictEqual(await ModelRouter.resolve('chat', INSTALLED, { preferred: 'removed:1b' }), 'llama3.2:latest');
+    });
+
+    test('routes embeddings to embedding models only', async () => {
+        assert.deepStrictEqual(ModelRouter.getConfiguredModels('embedding'), []);
+        assert.strictEqual(await ModelRouter.resolve('embedding', INSTALLED), 'nomic-embed-text:latest');
+
+        // Neither the chat models nor the default model stand in for a missing embedding model
+        await setModels('embedding', ['gone-embed']);
+        assert.strictEqual(await ModelRouter.resolve('embedding', INSTALLED.filter(model => model.name !== 'nomic-embed-text:latest')), undefined);
+    });
+});
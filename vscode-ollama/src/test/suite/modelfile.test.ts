@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { MockOllamaServer } from '../../mockOllamaServer';
+import type { OllamaModel, OllamaService } from '../../ollamaService';
+import { Modelfile } from '../../modelfile';
+import { ModelManager } from '../../modelManager';
+import { OllamaApiError } from '../../ollamaApi';
+import { createService } from './helpers';
+
+const MODELFILE = [
+    '# Project assistant',
+    'FROM mock-llama',
+    'SYSTEM """',
+    'You review TypeScript.',
+    'Keep answers short.',
+    '"""',
+    'PARAMETER temperature 0.2',
+    'PARAMETER stop "<|end|>"',
+    'PARAMETER stop "<|user|>"',
+    'MESSAGE user Is this code safe?',
+    'MESSAGE assistant Yes.',
+    'LICENSE MIT',
+    ''
+].join('\n');
+
+suite('Modelfile', () => {
+    test('parses every instruction without issues', () => {
+        const parsed = Modelfile.parse(MODELFILE);
+
+        assert.deepStrictEqual(parsed.issues, []);
+        assert.strictEqual(parsed.from, 'mock-llama');
+        assert.strictEqual(parsed.system, 'You review TypeScript.\nKeep answers short.');
+        assert.deepStrictEqual(parsed.parameters, { temperature: 0.2, stop: ['<|end|>', '<|user|>'] });
+        assert.deepStrictEqual(parsed.messages, [
+            { role: 'user', content: 'Is this code safe?' },
+            { role: 'assistant', content: 'Yes.' }
+        ]);
+        assert.deepStrictEqual(parsed.license, ['MIT']);
+    });
+
+    test('the starter Modelfile has no issues', () => {
+        assert.deepStrictEqual(Modelfile.parse(Modelfile.starter('mock-llama')).issues, []);
+    });
+
+    test('reports problems on the line of the instruction', () => {
+        const parsed = Modelfile.parse([
+            'FROM mock-llama',
+            'PARAMETER temperature hot',
+            'PARAMETER flavour 3',
+            'MESSAGE robot hello',
+            'FROM other',
+            'SELECT everything'
+        ].join('\n'));
+
+        assert.deepStrictEqual(parsed.issues.map(issue => [issue.line, issue.severity]), [
+            [1, 'error'],
+            [2, 'error'],
+            [3, 'error'],
+            [4, 'error'],
+            [5, 'error']
+        ]);
+        assert.ok(parsed.issues[1].message.includes('flavour'));
+        assert.ok(parsed.issues[2].message.includes('robot'));
+        assert.strictEqual(parsed.issues[3].message, 'Only one FROM instruction is allowed');
+        assert.strictEqual(parsed.issues[4].message, "Unknown instruction 'SELECT'");
+    });
+
+    test('reports a missing FROM and an unterminated string', () => {
+        const parsed = Modelfile.parse('PARAMETER temperature 0.5\nSYSTEM """\nnever closed');
+
+        assert.deepStrictEqual(parsed.issues.map(issue => [issue.line, issue.message]), [
+            [1, 'Unterminated """ string'],
+            [0, 'Missing FROM instruction with the base model']
+        ]);
+    });
+
+    test('warns about replaced values and local files', () => {
+        const parsed = Modelfile.parse('FROM ./weights.gguf\nPARAMETER num_ctx 4096\nPARAMETER num_ctx 8192\nADAPTER ./lora.gguf');
+
+        assert.ok(parsed.issues.every(issue => issue.severity === 'warning'));
+        assert.deepStrictEqual(parsed.issues.map(issue => issue.line), [0, 2, 3]);
+        assert.strictEqual(parsed.parameters.num_ctx, 8192);
+    });
+
+    test('builds the create request with the Modelfile text for older servers', () => {
+        const request = Modelfile.toCreateRequest('reviewer', MODELFILE);
+
+        assert.strictEqual(request.model, 'reviewer');
+        assert.strictEqual(request.from, 'mock-llama');
+        assert.strictEqual(request.system, 'You review TypeScript.\nKeep answers short.');
+        assert.strictEqual(request.template, undefined);
+        assert.deepStrictEqual(request.parameters, { temperature: 0.2, stop: ['<|end|>', '<|user|>'] });
+        assert.deepStrictEqual(request.license, ['MIT']);
+        assert.strictEqual(request.messages?.length, 2);
+        assert.strictEqual(request.modelfile, MODELFILE);
+    });
+
+    test('leaves out empty fields of the create request', () => {
+        const request = Modelfile.toCreateRequest('plain', 'FROM mock-llama');
+
+        assert.strictEqual(request.parameters, undefined);
+        assert.strictEqual(request.license, undefined);
+        assert.strictEqual(request.messages, undefined);
+    });
+
+    suite('creating models', () => {
+        const server = new MockOllamaServer({ models: [{ name: 'mock-llama:latest', family: 'llama' }] });
+        let service: OllamaService;
+        let manager: ModelManager;
+
+        suiteSetup(async () => {
+            service = createService(await server.start());
+            manager = new ModelManager(() => service, vscode.window.createOutputChannel('Ollama Enhanced Tests'));
+        });
+
+        suiteTeardown(() => server.stop());
+
+        test('creates the model on the server and announces the new model list', async () => {
+            const statuses: string[] = [];
+            const announced: OllamaModel[][] = [];
+            const subscription = manager.onDidChangeModels(models => announced.push(models));
+
+            const created = await manager.createModel('reviewer', MODELFILE, progress => statuses.push(progress.status));
+            subscription.dispose();
+
+            assert.strictEqual(created?.name, 'reviewer:latest');
+            assert.strictEqual(statuses[statuses.length - 1], 'success');
+            assert.strictEqual(server.requests.find(request => request.endpoint === 'create')?.body?.from, 'mock-llama');
+            assert.deepStrictEqual(announced.map(models => models.map(model => model.name)), [['mock-llama:latest', 'reviewer:latest']]);
+            assert.strictEqual((await service.showModel('reviewer')).modelfile, MODELFILE);
+        });
+
+        test('refuses a Modelfile with errors before asking the server', async () => {
+            const requests = server.requests.length;
+
+            await assert.rejects(manager.createModel('broken', 'PARAMETER temperature hot'), /first on line 1/);
+            assert.strictEqual(server.requests.length, requests);
+        });
+
+        test('fails to create a model from a base that is not installed', async () => {
+            await assert.rejects(
+                manager.createModel('orphan', 'FROM missing-base'),
+                (error: unknown) => error instanceof OllamaApiError && error.status === 404
+            );
+        });
+    });
+});
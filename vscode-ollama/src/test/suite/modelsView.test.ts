@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { MockOllamaServer, MockScript } from '../../mockOllamaServer';
+import type { OllamaService } from '../../ollamaService';
+import { ModelCapabilities } from '../../modelCapabilities';
+import { ROUTED_TASKS } from '../../modelRouter';
+import { ModelsTreeProvider, ModelTreeItem } from '../../modelsView';
+import { createService } from './helpers';
+
+const SCRIPT: MockScript = {
+    models: [
+        { name: 'team-model:latest', family: 'llama', contextLength: 8192, capabilities: ['completion', 'tools'] },
+        { name: 'mock-coder:7b', family: 'qwen2', contextLength: 32768 },
+        { name: 'alpha:1b' }
+    ]
+};
+
+suite('Models view', () => {
+    const server = new MockOllamaServer(SCRIPT);
+    let service: OllamaService;
+    let provider: ModelsTreeProvider;
+    // `mock-coder:7b` in the test workspace
+    let workspaceDefault: string | undefined;
+
+    const ollamaConfig = () => vscode.workspace.getConfiguration('ollama');
+    const routesConfig = () => vscode.workspace.getConfiguration('ollamaEnhanced.models');
+    const rootItems = async () => (await provider.getChildren()) as ModelTreeItem[];
+
+    suiteSetup(async () => {
+        service = createService(await server.start());
+        ModelCapabilities.initialize(() => service);
+        workspaceDefault = ollamaConfig().inspect<string>('defaultModel')?.workspaceValue;
+    });
+
+    suiteTeardown(() => {
+        ModelCapabilities.initialize(() => undefined);
+        return server.stop();
+    });
+
+    setup(() => {
+        server.setScript(SCRIPT);
+        provider = new ModelsTreeProvider(() => service);
+        provider.refresh();
+    });
+
+    teardown(async () => {
+        server.reset();
+        await ollamaConfig().update('defaultModel', undefined, vscode.ConfigurationTarget.Global);
+        await ollamaConfig().update('defaultModel', workspaceDefault, vscode.ConfigurationTarget.Workspace);
+        for (const task of ROUTED_TASKS) {
+            await routesConfig().update(task, undefined, vscode.ConfigurationTarget.Global);
+        }
+    });
+
+    test('lists the models by name and marks the default model', async () => {
+        const items = await rootItems();
+
+        assert.deepStrictEqual(items.map(item => item.label), ['alpha:1b', 'mock-coder:7b', 'team-model:latest']);
+        assert.deepStrictEqual(items.map(item => item.contextValue), ['ollamaModel', 'ollamaModel.default', 'ollamaModel']);
+        assert.strictEqual(items[2].description, '7B · Q4_0 · 4.0 GB');
+    });
+
+    test('marks a default model configured without its tag', async () => {
+        await ollamaConfig().update('defaultModel', 'team-model', vscode.ConfigurationTarget.Workspace);
+
+        const items = await rootItems();
+
+        assert.deepStrictEqual(items.filter(item => item.contextValue === 'ollamaModel.default').map(item => item.label), ['team-model:latest']);
+    });
+
+    test('shows the details of a model from /api/show once', async () => {
+        const [, , teamModel] = await rootItems();
+
+        const details = await provider.getChildren(teamModel);
+        await provider.getChildren(teamModel);
+
+        assert.deepStrictEqual(details.map(item => [item.label, item.description]), [
+            ['Family', 'llama'],
+            ['Parameters', '7B'],
+            ['Quantization', 'Q4_0'],
+            ['Context length', `${(8192).toLocaleString()} tokens`],
+            ['Capabilities', 'completion, tools'],
+            ['Size', '4.0 GB'],
+            ['Digest', teamModel.model.digest.replace(/^sha256:/, '').substring(0, 12)]
+        ]);
+        // Once for the details and once for the capabilities
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'show').length, 2);
+    });
+
+    test('shows why the details are unavailable and asks again on the next expansion', async () => {
+        const [alpha] = await rootItems();
+        server.injectFailure({ endpoint: 'show', status: 400, error: 'invalid model' });
+
+        const failed = await provider.getChildren(alpha);
+        assert.strictEqual(failed.length, 1);
+        assert.strictEqual(failed[0].label, 'Details unavailable');
+        assert.ok(String(failed[0].description).includes('invalid model'));
+
+        const details = await provider.getChildren(alpha);
+        assert.strictEqual(details[0].label, 'Family');
+    });
+
+    test('validates new model names', () => {
+        const existing = ['team-model:latest', 'mock-coder:7b'];
+        const validate = (name: string) => ModelsTreeProvider.validateModelName(name, existing);
+
+        assert.strictEqual(validate('reviewer'), undefined);
+        assert.strictEqual(validate(' user/reviewer:v1.2 '), undefined);
+        assert.strictEqual(validate('mock-coder:13b'), undefined);
+        assert.strictEqual(validate('  '), 'Enter a model name');
+        assert.ok(validate('my model'));
+        assert.ok(validate('-reviewer'));
+        assert.ok(validate('reviewer:'));
+        assert.strictEqual(validate('team-model'), 'team-model:latest already exists');
+        assert.strictEqual(validate('mock-coder:7b'), 'mock-coder:7b already exists');
+    });
+
+    test('renames a model by copying and deleting it, and moves the default model along', async () => {
+        await ollamaConfig().update('defaultModel', 'team-model', vscode.ConfigurationTarget.Global);
+
+        await ModelsTreeProvider.renameModel(service, 'team-model:latest', 'reviewer');
+
+        assert.deepStrictEqual(
+            server.requests.filter(request => request.endpoint !== 'tags').map(request => [request.endpoint, request.body]),
+            [
+                ['copy', { source: 'team-model:latest', destination: 'reviewer' }],
+                ['delete', { model: 'team-model:latest' }]
+            ]
+        );
+        assert.deepStrictEqual((await rootItems()).map(item => item.label), ['alpha:1b', 'mock-coder:7b', 'reviewer:latest']);
+        const defaultModel = ollamaConfig().inspect<string>('defaultModel');
+        assert.strictEqual(defaultModel?.globalValue, 'reviewer');
+        assert.strictEqual(defaultModel?.workspaceValue, workspaceDefault, 'a default naming another model is left alone');
+    });
+
+    test('renames the model in the per-task model lists', async () => {
+        await routesConfig().update('chat', ['gone:1b', 'team-model'], vscode.ConfigurationTarget.Global);
+        await routesConfig().update('completion', ['team-model:latest'], vscode.ConfigurationTarget.Global);
+        await routesConfig().update('explain', ['mock-coder:7b'], vscode.ConfigurationTarget.Global);
+
+        await ModelsTreeProvider.renameModel(service, 'team-model:latest', 'reviewer');
+
+        assert.deepStrictEqual(routesConfig().get('chat'), ['gone:1b', 'reviewer']);
+        assert.deepStrictEqual(routesConfig().get('completion'), ['reviewer']);
+        assert.deepStrictEqual(routesConfig().get('explain'), ['mock-coder:7b']);
+    });
+
+    test('keeps the original when the copy fails', async () => {
+        await assert.rejects(ModelsTreeProvider.renameModel(service, 'gone:1b', 'reviewer'));
+
+        assert.strictEqual(server.requests.filter(request => request.endpoint === 'delete').length, 0);
+    });
+});
@@ -0,0 +1,85 @@
+/**
+ * Token estimates and context window budgeting
+ */
+import * as vscode from 'vscode';
+import { ChatMessage, ShowResponse } from './ollamaApi';
+
+/**
+ * How a context window is split for one request, in tokens
+ */
+export interface TokenBudgetPlan {
+    /** Sent as `num_ctx` */
+    contextWindow: number;
+    system: number;
+    /** Reserved for the answer, sent as `num_predict` */
+    response: number;
+    /** Attached files, selections and other project context */
+    attachedContext: number;
+    /** Earlier turns of the conversation and the user's question */
+    history: number;
+}
+
+export class TokenBudget {
+    /** Used when the model does not report its context length */
+    static readonly DEFAULT_CONTEXT_WINDOW = 4096;
+    /** Rough average for English text and source code */
+    private static readonly CHARS_PER_TOKEN = 4;
+    /** Per-message overhead of the chat template */
+    private static readonly MESSAGE_OVERHEAD = 4;
+    /** Rough cost of one image for vision models; the exact number depends on the image encoder */
+    private static readonly IMAGE_TOKENS = 768;
+
+    static estimateTokens(text: string): number {
+        return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+    }
+
+    static tokensToChars(tokens: number): number {
+        return Math.max(0, Math.floor(tokens * this.CHARS_PER_TOKEN));
+    }
+
+    static estimateMessageTokens(message: ChatMessage): number {
+        const toolCalls = message.tool_calls ? this.estimateTokens(JSON.stringify(message.tool_calls)) : 0;
+        const images = (message.images ? message.images.length : 0) * this.IMAGE_TOKENS;
+        return this.estimateTokens(message.content) + toolCalls + images + this.MESSAGE_OVERHEAD;
+    }
+
+    /**
+     * Read the trained context length from an /api/show response (`<architecture>.context_length`)
+     */
+    static getModelContextLength(show: ShowResponse): number | undefined {
+        const modelInfo = show.model_info || {};
+        const key = Object.keys(modelInfo).find(name => name.endsWith('.context_length'));
+        const value = key ? Number(modelInfo[key]) : NaN;
+        return Number.isFinite(value) && value > 0 ? value : undefined;
+    }
+
+    /**
+     * Context window to request for a model, limited by `ollamaEnhanced.maxContextLength`
+     * because the KV cache grows with num_ctx
+     */
+    static resolveContextWindow(modelContextLength: number | undefined): number {
+        const contextWindow = modelContextLength || this.DEFAULT_CONTEXT_WINDOW;
+        const limit = vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('maxContextLength', 32768);
+        return limit > 0 ? Math.min(contextWindow, limit) : contextWindow;
+    }
+
+    /**
+     * Split a context window between the system prompt, the answer, attached context and the conversation.
+     * The answer gets up to a quarter of the window; what is left after the system prompt
+     * is shared equally between attached context and history.
+     */
+    static plan(contextWindow: number, options: { systemPrompt?: string, maxResponseTokens?: number } = {}): TokenBudgetPlan {
+        const response = Math.min(options.maxResponseTokens || 4096, Math.floor(contextWindow / 4));
+        const system = options.systemPrompt ? this.estimateTokens(options.systemPrompt) + this.MESSAGE_OVERHEAD : 0;
+        const remaining = Math.max(0, contextWindow - response - system);
+        const attachedContext = Math.floor(remaining / 2);
+
+        return {
+            contextWindow,
+            system,
+            response,
+            attachedContext,
+            history: remaining - attachedContext
+        };
+    }
+}
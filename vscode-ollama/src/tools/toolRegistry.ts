@@ -0,0 +1,82 @@
+/**
+ * Tools the model can call during a chat turn
+ */
+import { ToolCall, ToolDefinition } from '../ollamaApi';
+import { JsonSchema } from '../structuredOutput';
+
+/**
+ * A function exposed to the model. Tools must not modify the workspace.
+ */
+export interface ChatTool {
+    readonly name: string;
+    readonly description: string;
+    /** Schema of the arguments object */
+    readonly parameters: JsonSchema;
+
+    /**
+     * Run the tool and return the text sent back to the model
+     */
+    execute(args: Record<string, unknown>, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Outcome of one tool call, as shown in the conversation and sent to the model
+ */
+export interface ToolCallResult {
+    name: string;
+    content: string;
+    failed: boolean;
+}
+
+export class ToolRegistry {
+    /** Longer results are cut so one call cannot fill the context window */
+    static readonly MAX_RESULT_LENGTH = 12000;
+
+    private readonly tools = new Map<string, ChatTool>();
+
+    register(tool: ChatTool): void {
+        this.tools.set(tool.name, tool);
+    }
+
+    get size(): number {
+        return this.tools.size;
+    }
+
+    /**
+     * Tool descriptions in the format of the /api/chat `tools` field
+     */
+    getDefinitions(): ToolDefinition[] {
+        return [...this.tools.values()].map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters
+            }
+        }));
+    }
+
+    /**
+     * Run a tool call from the model. Failures are returned as text so the model can react to them.
+     */
+    async execute(call: ToolCall, signal?: AbortSignal): Promise<ToolCallResult> {
+        const name = call.function.name;
+        const tool = this.tools.get(name);
+        if (!tool) {
+            return { name, content: `Unknown tool '${name}'. Available tools: ${[...this.tools.keys()].join(', ')}`, failed: true };
+        }
+
+        try {
+            const content = await tool.execute(call.function.arguments || {}, signal);
+            return {
+                name,
+                content: content.length > ToolRegistry.MAX_RESULT_LENGTH
+                    ? `${content.substring(0, ToolRegistry.MAX_RESULT_LENGTH)}\n... [result truncated]`
+                    : content,
+                failed: false
+            };
+        } catch (error) {
+            return { name, content: `Error: ${error instanceof Error ? error.message : String(error)}`, failed: true };
+        }
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * Read-only tools that let the model look around the workspace
+ */
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ChatTool, ToolRegistry } from './toolRegistry';
+
+const MAX_SEARCH_FILES = 500;
+const MAX_SEARCH_MATCHES = 50;
+const MAX_DIAGNOSTICS = 100;
+const MAX_DEFINITIONS = 5;
+/** Lines shown for a symbol whose range does not fit */
+const MAX_DEFINITION_LINES = 60;
+
+/**
+ * Registry with every workspace tool
+ */
+export function createWorkspaceToolRegistry(): ToolRegistry {
+    const registry = new ToolRegistry();
+    [readFileTool, searchWorkspaceTool, listDiagnosticsTool, getSymbolDefinitionTool].forEach(tool => registry.register(tool));
+    return registry;
+}
+
+/**
+ * Resolve a path from the model against the workspace, refusing anything outside it
+ */
+function resolveWorkspaceUri(filePath: unknown): vscode.Uri {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        throw new Error('No workspace folder is open');
+    }
+    if (typeof filePath !== 'string' || filePath.trim() === '') {
+        throw new Error('A file path is required');
+    }
+
+    const uri = path.isAbsolute(filePath)
+        ? vscode.Uri.file(filePath)
+        : vscode.Uri.file(path.join(folders[0].uri.fsPath, filePath));
+
+    if (!vscode.workspace.getWorkspaceFolder(uri)) {
+        throw new Error(`${filePath} is outside the workspace`);
+    }
+    return uri;
+}
+
+function getExcludeGlob(): string {
+    const excludePatterns = vscode.workspace.getConfiguration('ollama').get('excludePatterns') as string[] ||
+        ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**'];
+    return '{' + excludePatterns.join(',') + '}';
+}
+
+function toLineNumber(value: unknown): number | undefined {
+    const line = Number(value);
+    return Number.isFinite(line) && line >= 1 ? Math.floor(line) : undefined;
+}
+
+const readFileTool: ChatTool = {
+    name: 'readFile',
+    description: 'Read a file from the workspace. Lines are prefixed with their line number.',
+    parameters: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'File path relative to the workspace root' },
+            startLine: { type: 'integer', description: 'First line to read (1-based, optional)' },
+            endLine: { type: 'integer', description: 'Last line to read (optional)' }
+        },
+        required: ['path']
+    },
+    async execute(args) {
+        const uri = resolveWorkspaceUri(args.path);
+        const document = await vscode.workspace.openTextDocument(uri);
+
+        const startLine = Math.min(toLineNumber(args.startLine) || 1, document.lineCount);
+        const endLine = Math.min(toLineNumber(args.endLine) || document.lineCount, document.lineCount);
+
+        const lines: string[] = [];
+        for (let line = startLine; line <= endLine; line++) {
+            lines.push(`${line}: ${document.lineAt(line - 1).text}`);
+        }
+        return `${vscode.workspace.asRelativePath(uri)} (lines ${startLine}-${endLine} of ${document.lineCount})\n${lines.join('\n')}`;
+    }
+};
+
+const searchWorkspaceTool: ChatTool = {
+    name: 'searchWorkspace',
+    description: 'Search the text of workspace files (case-insensitive) and return matching lines.',
+    parameters: {
+        type: 'object',
+        properties: {
+            query: { type: 'string', description: 'Text to search for' },
+            include: { type: 'string', description: 'Glob pattern of files to search, e.g. src/**/*.ts (optional)' }
+        },
+        required: ['query']
+    },
+    async execute(args, signal) {
+        const query = typeof args.query === 'string' ? args.query.toLowerCase() : '';
+        if (!query) {
+            throw new Error('A search query is required');
+        }
+        const include = typeof args.include === 'string' && args.include.trim() ? args.include : '**/*';
+
+        const files = await vscode.workspace.findFiles(include, getExcludeGlob(), MAX_SEARCH_FILES);
+        const matches: string[] = [];
+
+        for (const file of files) {
+            if (signal?.aborted || matches.length >= MAX_SEARCH_MATCHES) {
+                break;
+            }
+            try {
+                const text = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+                // Skip binary files
+                if (text.includes('\u0000')) {
+                    continue;
+                }
+                text.split('\n').forEach((line, index) => {
+                    if (matches.length < MAX_SEARCH_MATCHES && line.toLowerCase().includes(query)) {
+                        matches.push(`${vscode.workspace.asRelativePath(file)}:${index + 1}: ${line.trim().substring(0, 200)}`);
+                    }
+                });
+            } catch {
+                // Unreadable files are skipped
+            }
+        }
+
+        if (matches.length === 0) {
+            return `No matches for '${args.query}'`;
+        }
+        return matches.length >= MAX_SEARCH_MATCHES
+            ? `${matches.join('\n')}\n(showing the first ${MAX_SEARCH_MATCHES} matches)`
+            : matches.join('\n');
+    }
+};
+
+const listDiagnosticsTool: ChatTool = {
+    name: 'listDiagnostics',
+    description: 'List compiler and linter problems reported in the editor, for one file or the whole workspace.',
+    parameters: {
+        type: 'object',
+        properties: {
+            path: { type: 'string', description: 'File path relative to the workspace root (optional)' }
+        }
+    },
+    async execute(args) {
+        let entries: [vscode.Uri, readonly vscode.Diagnostic[]][];
+        if (args.path) {
+            const uri = resolveWorkspaceUri(args.path);
+            entries = [[uri, vscode.languages.getDiagnostics(uri)]];
+        } else {
+            entries = vscode.languages.getDiagnostics();
+        }
+
+        const severityNames = ['error', 'warning', 'info', 'hint'];
+        const lines: string[] = [];
+        for (const [uri, diagnostics] of entries) {
+            for (const diagnostic of diagnostics) {
+                if (lines.length >= MAX_DIAGNOSTICS) {
+                    break;
+                }
+                lines.push(
+                    `${vscode.workspace.asRelativePath(uri)}:${diagnostic.range.start.line + 1} ` +
+                    `${severityNames[diagnostic.severity]}: ${diagnostic.message}` +
+                    (diagnostic.source ? ` (${diagnostic.source})` : '')
+                );
+            }
+        }
+
+        return lines.length > 0 ? lines.join('\n') : 'No problems reported';
+    }
+};
+
+const getSymbolDefinitionTool: ChatTool = {
+    name: 'getSymbolDefinition',
+    description: 'Find where a class, function, variable or other symbol is defined and return its source.',
+    parameters: {
+        type: 'object',
+        properties: {
+            symbol: { type: 'string', description: 'Name of the symbol' }
+        },
+        required: ['symbol']
+    },
+    async execute(args) {
+        const name = typeof args.symbol === 'string' ? args.symbol.trim() : '';
+        if (!name) {
+            throw new Error('A symbol name is required');
+        }
+
+        const symbols = await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+            'vscode.executeWorkspaceSymbolProvider',
+            name
+        ) || [];
+
+        // The provider does fuzzy matching, so exact names come first
+        const definitions = symbols
+            .filter(symbol => vscode.workspace.getWorkspaceFolder(symbol.location.uri))
+            .sort((a, b) => Number(b.name === name) - Number(a.name === name))
+            .slice(0, MAX_DEFINITIONS);
+        if (definitions.length === 0) {
+            return `No definition found for '${name}'`;
+        }
+
+        const results: string[] = [];
+        for (const symbol of definitions) {
+            const document = await vscode.workspace.openTextDocument(symbol.location.uri);
+            const start = symbol.location.range.start.line;
+            const end = Math.min(symbol.location.range.end.line, start + MAX_DEFINITION_LINES - 1, document.lineCount - 1);
+            const source = document.getText(new vscode.Range(start, 0, end, document.lineAt(end).text.length));
+
+            results.push(
+                `${vscode.SymbolKind[symbol.kind]} ${symbol.name} in ${vscode.workspace.asRelativePath(symbol.location.uri)}:${start + 1}\n${source}`
+            );
+        }
+        return results.join('\n\n');
+    }
+};
@@ -0,0 +1,162 @@
+/**
+ * Webview that shows the usage statistics per model and per command
+ */
+import * as vscode from 'vscode';
+import { UsageStats, UsageSummary } from './usageStats';
+
+export class UsageDashboard {
+    public static currentPanel: UsageDashboard | undefined;
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+
+    public static createOrShow() {
+        if (UsageDashboard.currentPanel) {
+            UsageDashboard.currentPanel.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'ollamaUsage',
+            'Ollama Usage',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+
+        UsageDashboard.currentPanel = new UsageDashboard(panel);
+    }
+
+    private constructor(panel: vscode.WebviewPanel) {
+        this.panel = panel;
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        // Refresh while generations finish in the background
+        UsageStats.onDidChange(() => this.update(), null, this.disposables);
+
+        this.panel.webview.onDidReceiveMessage(async message => {
+            if (message.command === 'reset') {
+                const confirmed = await vscode.window.showWarningMessage(
+                    'Reset all Ollama usage statistics?',
+                    { modal: true },
+                    'Reset'
+                );
+                if (confirmed === 'Reset') {
+                    await UsageStats.reset();
+                }
+            }
+        }, null, this.disposables);
+
+        this.update();
+    }
+
+    public dispose() {
+        UsageDashboard.currentPanel = undefined;
+        this.panel.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+
+    private update() {
+        this.panel.webview.html = this.getHtml();
+    }
+
+    private getHtml(): string {
+        const byModel = UsageStats.summarize('model');
+        const byCommand = UsageStats.summarize('command');
+        const content = byModel.length === 0
+            ? '<p class="empty">No generations recorded yet. Statistics appear here after the first chat reply or code command.</p>'
+            : `<h2>By model</h2>${this.renderTable('Model', byModel)}<h2>By command</h2>${this.renderTable('Command', byCommand)}`;
+
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Ollama Usage</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    color: var(--vscode-foreground);
+                    padding: 16px;
+                }
+                table {
+                    border-collapse: collapse;
+                    width: 100%;
+                    margin-bottom: 24px;
+                }
+                th, td {
+                    text-align: right;
+                    padding: 6px 10px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+                th:first-child, td:first-child {
+                    text-align: left;
+                }
+                th {
+                    color: var(--vscode-descriptionForeground);
+                    font-weight: 600;
+                }
+                .since, .empty {
+                    color: var(--vscode-descriptionForeground);
+                }
+                button {
+                    background: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    padding: 6px 14px;
+                    border-radius: 4px;
+                    cursor: pointer;
+                }
+            </style>
+        </head>
+        <body>
+            <h1>Ollama Usage</h1>
+            <p class="since">Since ${this.escape(new Date(UsageStats.since).toLocaleString())}</p>
+            ${content}
+            <button id="reset-button">Reset statistics</button>
+            <script>
+                const vscode = acquireVsCodeApi();
+                document.getElementById('reset-button').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'reset' });
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+
+    private renderTable(nameHeader: string, rows: UsageSummary[]): string {
+        const seconds = (ms: number) => `${(ms / 1000).toFixed(2)}s`;
+        const body = rows.map(row => `
+            <tr>
+                <td>${this.escape(row.name)}</td>
+                <td>${row.requests}</td>
+                <td>${row.promptTokens.toLocaleString()}</td>
+                <td>${row.outputTokens.toLocaleString()}</td>
+                <td>${row.averageTokensPerSecond.toFixed(1)}</td>
+                <td>${seconds(row.averageTimeToFirstTokenMs)}</td>
+                <td>${seconds(row.averageLoadDurationMs)}</td>
+                <td>${row.truncated}</td>
+                <td>${this.escape(new Date(row.lastUsed).toLocaleString())}</td>
+            </tr>`).join('');
+
+        return `<table>
+            <thead>
+                <tr>
+                    <th>${nameHeader}</th>
+                    <th>Requests</th>
+                    <th>Prompt tokens</th>
+                    <th>Output tokens</th>
+                    <th>Tokens/s</th>
+                    <th>Avg. first token</th>
+                    <th>Avg. load</th>
+                    <th>Truncated</th>
+                    <th>Last used</th>
+                </tr>
+            </thead>
+            <tbody>${body}</tbody>
+        </table>`;
+    }
+
+    private escape(text: string): string {
+        return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    }
+}
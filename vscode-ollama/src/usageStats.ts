@@ -0,0 +1,157 @@
+/**
+ * Token and timing totals per model and per command, kept across VS Code sessions
+ */
+import * as vscode from 'vscode';
+import { GenerationMetrics } from './ollamaApi';
+
+/**
+ * Totals for one model used by one command type
+ */
+export interface UsageEntry {
+    /** Command type, e.g. `chat`, `explainCode` or `completeCode` */
+    command: string;
+    model: string;
+    requests: number;
+    promptTokens: number;
+    outputTokens: number;
+    evalDurationMs: number;
+    totalDurationMs: number;
+    timeToFirstTokenMs: number;
+    loadDurationMs: number;
+    /** Responses cut off by the response token limit */
+    truncated: number;
+    lastUsed: number;
+}
+
+/**
+ * Totals grouped by model or by command, with averages for the dashboard
+ */
+export interface UsageSummary {
+    name: string;
+    requests: number;
+    promptTokens: number;
+    outputTokens: number;
+    averageTokensPerSecond: number;
+    averageTimeToFirstTokenMs: number;
+    averageLoadDurationMs: number;
+    truncated: number;
+    lastUsed: number;
+}
+
+interface StoredUsage {
+    version: number;
+    since: number;
+    entries: UsageEntry[];
+}
+
+export class UsageStats {
+    private static readonly STORAGE_KEY = 'ollamaEnhanced.usageStats';
+    private static readonly SCHEMA_VERSION = 1;
+
+    private static storage: vscode.Memento | undefined;
+    private static data: StoredUsage = { version: UsageStats.SCHEMA_VERSION, since: Date.now(), entries: [] };
+    private static readonly changeEmitter = new vscode.EventEmitter<void>();
+
+    /** Fired after each recorded generation and after a reset */
+    static readonly onDidChange = UsageStats.changeEmitter.event;
+
+    /**
+     * Load the stored totals; usage is only kept in memory until this is called
+     */
+    static initialize(context: vscode.ExtensionContext): void {
+        this.storage = context.globalState;
+
+        const stored = this.storage.get<StoredUsage>(this.STORAGE_KEY);
+        if (stored && stored.version === this.SCHEMA_VERSION && Array.isArray(stored.entries)) {
+            this.data = stored;
+        }
+    }
+
+    /**
+     * Add the metrics of a finished generation to the totals of its model and command
+     */
+    static record(command: string, model: string, metrics: GenerationMetrics): void {
+        let entry = this.data.entries.find(candidate => candidate.command === command && candidate.model === model);
+        if (!entry) {
+            entry = {
+                command,
+                model,
+                requests: 0,
+                promptTokens: 0,
+                outputTokens: 0,
+                evalDurationMs: 0,
+                totalDurationMs: 0,
+                timeToFirstTokenMs: 0,
+                loadDurationMs: 0,
+                truncated: 0,
+                lastUsed: 0
+            };
+            this.data.entries.push(entry);
+        }
+
+        entry.requests++;
+        entry.promptTokens += metrics.promptEvalCount;
+        entry.outputTokens += metrics.evalCount;
+        entry.evalDurationMs += metrics.evalDurationMs;
+        entry.totalDurationMs += metrics.totalDurationMs;
+        entry.timeToFirstTokenMs += metrics.timeToFirstTokenMs;
+        entry.loadDurationMs += metrics.loadDurationMs;
+        entry.truncated += metrics.truncated ? 1 : 0;
+        entry.lastUsed = Date.now();
+
+        this.save();
+    }
+
+    /**
+     * When the current totals started
+     */
+    static get since(): number {
+        return this.data.since;
+    }
+
+    static getEntries(): UsageEntry[] {
+        return [...this.data.entries];
+    }
+
+    /**
+     * Combine the entries per model or per command, busiest first
+     */
+    static summarize(groupBy: 'model' | 'command'): UsageSummary[] {
+        const groups = new Map<string, UsageEntry[]>();
+        this.data.entries.forEach(entry => {
+            const key = entry[groupBy];
+            groups.set(key, [...(groups.get(key) || []), entry]);
+        });
+
+        return [...groups.entries()].map(([name, entries]) => {
+            const sum = (field: keyof UsageEntry) => entries.reduce((total, entry) => total + (entry[field] as number), 0);
+            const requests = sum('requests');
+            const evalDurationMs = sum('evalDurationMs');
+
+            return {
+                name,
+                requests,
+                promptTokens: sum('promptTokens'),
+                outputTokens: sum('outputTokens'),
+                averageTokensPerSecond: evalDurationMs > 0 ? sum('outputTokens') / (evalDurationMs / 1000) : 0,
+                averageTimeToFirstTokenMs: requests > 0 ? sum('timeToFirstTokenMs') / requests : 0,
+                averageLoadDurationMs: requests > 0 ? sum('loadDurationMs') / requests : 0,
+                truncated: sum('truncated'),
+                lastUsed: Math.max(...entries.map(entry => entry.lastUsed))
+            };
+        }).sort((a, b) => b.requests - a.requests);
+    }
+
+    static async reset(): Promise<void> {
+        this.data = { version: this.SCHEMA_VERSION, since: Date.now(), entries: [] };
+        await this.storage?.update(this.STORAGE_KEY, this.data);
+        this.changeEmitter.fire();
+    }
+
+    private static save(): void {
+        this.changeEmitter.fire();
+        this.storage?.update(this.STORAGE_KEY, this.data).then(undefined, error => {
+            console.error('Failed to save usage statistics:', error);
+        });
+    }
+}
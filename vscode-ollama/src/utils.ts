@@ -3,8 +3,7 @@
  */
 import * as vscode from 'vscode';
 import * as os from 'os';
-import axios from 'axios';
-import type { AxiosError } from 'axios';
+import { OllamaApiError } from './ollamaApi';
 
 /**
  * Central error handling utility
@@ -16,21 +15,21 @@ export class ErrorUtility {
     static formatError(error: unknown, context = ''): string {
         const prefix = context ? `${context}: ` : '';
         
-        if (axios.isAxiosError(error)) {
-            const axiosError = error as AxiosError;
-            
-            if (axiosError.code === 'ECONNABORTED') {
+        if (error instanceof OllamaApiError) {
+            if (error.code === 'ECONNABORTED') {
                 return `${prefix}Request timed out. The server might be busy or overloaded.`;
-            } else if (axiosError.code === 'ECONNREFUSED') {
+            } else if (error.code === 'ECONNREFUSED') {
                 return `${prefix}Connection refused. Make sure the Ollama server is running.`;
-            } else if (axiosError.code === 'ERR_CANCELED') {
+            } else if (error.isCancelled) {
                 return `${prefix}Request was canceled.`;
-            } else if (axiosError.response) {
-                return `${prefix}Server error (Status: ${axiosError.response.status})`;
-            } else if (axiosError.request) {
+            } else if (error.status !== undefined) {
+                return error.serverMessage
+                    ? `${prefix}Server error (Status: ${error.status}): ${error.serverMessage}`
+                    : `${prefix}Server error (Status: ${error.status})`;
+            } else if (error.isConnectionError) {
                 return `${prefix}No response from server. Check your network connection.`;
             } else {
-                return `${prefix}Network error: ${axiosError.message}`;
+                return `${prefix}Network error: ${error.message}`;
             }
         } else if (error instanceof Error) {
             return `${prefix}${error.message}`;
@@ -182,10 +181,10 @@ export class ConfigHelper {
     }
     
     /**
-     * Get timeout settings with appropriate defaults
+     * Request timeout in seconds, from `ollamaEnhanced.requestTimeout`
      */
     static getTimeoutSeconds(): number {
-        return this.get<number>('requestTimeout', 90);
+        return vscode.workspace.getConfiguration('ollamaEnhanced').get<number>('requestTimeout', 300);
     }
     
     /**
@@ -204,78 +203,11 @@ export class ConfigHelper {
 }
 
 /**
- * HTTP request utilities
+ * The EventTarget methods AbortSignal has at runtime but @types/node 14 does not declare
  */
-export class HttpClient {
-    /**
-     * Make a GET request with standardized error handling and logging
-     */
-    static async get<T>(url: string, options: {
-        timeout?: number,
-        headers?: Record<string, string>,
-        validateStatus?: (status: number) => boolean,
-        outputChannel?: vscode.OutputChannel
-    } = {}): Promise<T> {
-        try {
-            const response = await axios.get(url, {
-                timeout: options.timeout || 5000,
-                headers: {
-                    'Accept': 'application/json',
-                    'Cache-Control': 'no-cache',
-                    ...(options.headers || {})
-                },
-                validateStatus: options.validateStatus || (status => status === 200),
-                proxy: false
-            });
-            
-            if (options.outputChannel) {
-                options.outputChannel.appendLine(`GET ${url} - Status: ${response.status}`);
-            }
-            
-            return response.data;
-        } catch (error) {
-            if (options.outputChannel) {
-                options.outputChannel.appendLine(`ERROR: GET ${url} - ${ErrorUtility.formatError(error)}`);
-            }
-            throw error;
-        }
-    }
-    
-    /**
-     * Make a POST request with standardized error handling and logging
-     */
-    static async post<T>(url: string, data: Record<string, unknown>, options: {
-        timeout?: number,
-        headers?: Record<string, string>,
-        validateStatus?: (status: number) => boolean,
-        outputChannel?: vscode.OutputChannel,
-        signal?: AbortSignal
-    } = {}): Promise<T> {
-        try {
-            const response = await axios.post(url, data, {
-                timeout: options.timeout || 30000,
-                headers: {
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json',
-                    ...(options.headers || {})
-                },
-                validateStatus: options.validateStatus || (status => status === 200),
-                signal: options.signal,
-                proxy: false
-            });
-            
-            if (options.outputChannel) {
-                options.outputChannel.appendLine(`POST ${url} - Status: ${response.status}`);
-            }
-            
-            return response.data;
-        } catch (error) {
-            if (options.outputChannel) {
-                options.outputChannel.appendLine(`ERROR: POST ${url} - ${ErrorUtility.formatError(error)}`);
-            }
-            throw error;
-        }
-    }
+interface AbortEventTarget {
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
 }
 
 /**
@@ -296,6 +228,56 @@ export class RequestTracker {
         return controller;
     }
     
+    /**
+     * Create a tracked request that is also aborted when a VS Code cancellation token fires
+     */
+    static createRequestForToken(id: string, token: vscode.CancellationToken): AbortController {
+        const controller = this.createRequest(id);
+        
+        if (token.isCancellationRequested) {
+            this.abortRequest(id);
+        } else {
+            const listener = token.onCancellationRequested(() => {
+                if (this.requests.get(id) === controller) {
+                    this.abortRequest(id);
+                }
+            });
+            this.onAbort(controller.signal, () => listener.dispose());
+        }
+        
+        return controller;
+    }
+    
+    /**
+     * Run a listener when the signal aborts (immediately if it already has)
+     */
+    static onAbort(signal: AbortSignal, listener: () => void): vscode.Disposable {
+        if (signal.aborted) {
+            listener();
+            return new vscode.Disposable(() => undefined);
+        }
+        
+        const target = signal as unknown as AbortEventTarget;
+        target.addEventListener('abort', listener);
+        return new vscode.Disposable(() => target.removeEventListener('abort', listener));
+    }
+    
+    /**
+     * Stop tracking a finished request, unless it has already been replaced by a newer one
+     */
+    static completeRequest(id: string, controller: AbortController): void {
+        if (this.requests.get(id) === controller) {
+            this.requests.delete(id);
+        }
+    }
+    
+    /**
+     * Number of requests that are still in progress
+     */
+    static get activeCount(): number {
+        return this.requests.size;
+    }
+    
     /**
      * Abort a specific request by ID
      */